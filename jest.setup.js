@@ -36,4 +36,6 @@ if (typeof File === 'undefined') {
 
 // Set up environment variables for testing
 process.env.NEXTAUTH_SECRET = 'test-secret';
-process.env.OPENAI_API_KEY = 'test-api-key'; 
\ No newline at end of file
+process.env.OPENAI_API_KEY = 'test-api-key';
+process.env.LLM_PROVIDER = 'mock';
+process.env.EMBEDDING_PROVIDER = 'hash'; 
\ No newline at end of file
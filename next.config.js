@@ -3,6 +3,9 @@ const nextConfig = {
   reactStrictMode: true,
   output: "standalone",
 
+  // pdf.js loads its worker and fonts from disk, so keep it out of the bundle
+  serverExternalPackages: ["pdfjs-dist"],
+
   // Configure the build ID to be deterministic for better caching
   generateBuildId: async () => {
     return process.env.BUILD_ID || "development";
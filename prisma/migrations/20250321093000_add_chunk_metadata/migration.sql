@@ -0,0 +1,13 @@
+-- AlterTable
+ALTER TABLE "VectorStore" ADD COLUMN "chunkIndex" INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE "VectorStore" ADD COLUMN "charStart" INTEGER;
+ALTER TABLE "VectorStore" ADD COLUMN "charEnd" INTEGER;
+ALTER TABLE "VectorStore" ADD COLUMN "pageStart" INTEGER;
+ALTER TABLE "VectorStore" ADD COLUMN "pageEnd" INTEGER;
+ALTER TABLE "VectorStore" ADD COLUMN "sectionHeading" TEXT;
+
+-- AlterTable
+ALTER TABLE "Citation" ADD COLUMN "chunkId" TEXT;
+ALTER TABLE "Citation" ADD COLUMN "pageStart" INTEGER;
+ALTER TABLE "Citation" ADD COLUMN "pageEnd" INTEGER;
+ALTER TABLE "Citation" ADD COLUMN "sectionHeading" TEXT;
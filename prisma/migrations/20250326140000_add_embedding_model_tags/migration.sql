@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE "VectorStore" ADD COLUMN "embeddingModel" TEXT;
+ALTER TABLE "VectorStore" ADD COLUMN "embeddingDimension" INTEGER;
+
+-- Existing vectors were all produced by the default OpenAI embeddings model
+UPDATE "VectorStore"
+SET "embeddingModel" = 'openai:text-embedding-ada-002',
+    "embeddingDimension" = json_array_length("embedding");
+
+-- CreateIndex
+CREATE INDEX "VectorStore_embeddingModel_idx" ON "VectorStore"("embeddingModel");
@@ -0,0 +1,31 @@
+-- AlterTable
+ALTER TABLE "Course" ADD COLUMN "embeddingModel" TEXT;
+
+-- Pin existing courses to the model their vectors were produced with
+UPDATE "Course"
+SET "embeddingModel" = (
+  SELECT "VectorStore"."embeddingModel"
+  FROM "VectorStore"
+  JOIN "Document" ON "Document"."id" = "VectorStore"."documentId"
+  WHERE "Document"."courseId" = "Course"."id"
+  LIMIT 1
+);
+
+-- CreateTable
+CREATE TABLE "EmbeddingJob" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "courseId" TEXT NOT NULL,
+    "targetModel" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "totalChunks" INTEGER NOT NULL DEFAULT 0,
+    "processedChunks" INTEGER NOT NULL DEFAULT 0,
+    "cursor" TEXT,
+    "error" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    "completedAt" DATETIME,
+    CONSTRAINT "EmbeddingJob_courseId_fkey" FOREIGN KEY ("courseId") REFERENCES "Course" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "EmbeddingJob_courseId_status_idx" ON "EmbeddingJob"("courseId", "status");
@@ -0,0 +1,17 @@
+-- AlterTable
+ALTER TABLE "VectorStore" ADD COLUMN "clusterId" INTEGER;
+
+-- CreateTable
+CREATE TABLE "VectorIndex" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "courseId" TEXT NOT NULL,
+    "embeddingModel" TEXT NOT NULL,
+    "centroids" TEXT NOT NULL DEFAULT '[]',
+    "trainedCount" INTEGER NOT NULL DEFAULT 0,
+    "version" INTEGER NOT NULL DEFAULT 0,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "VectorIndex_courseId_fkey" FOREIGN KEY ("courseId") REFERENCES "Course" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "VectorIndex_courseId_embeddingModel_key" ON "VectorIndex"("courseId", "embeddingModel");
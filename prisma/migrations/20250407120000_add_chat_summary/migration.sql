@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "Chat" ADD COLUMN "summary" TEXT;
+ALTER TABLE "Chat" ADD COLUMN "summarizedUntil" DATETIME;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "Citation" ADD COLUMN "marker" INTEGER;
+ALTER TABLE "Citation" ADD COLUMN "position" INTEGER;
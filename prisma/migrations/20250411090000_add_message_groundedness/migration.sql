@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "Message" ADD COLUMN "groundedness" REAL;
+ALTER TABLE "Message" ADD COLUMN "unsupportedRanges" TEXT;
@@ -0,0 +1,13 @@
+-- CreateTable
+CREATE TABLE "_ChatDocuments" (
+    "A" TEXT NOT NULL,
+    "B" TEXT NOT NULL,
+    CONSTRAINT "_ChatDocuments_A_fkey" FOREIGN KEY ("A") REFERENCES "Chat" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "_ChatDocuments_B_fkey" FOREIGN KEY ("B") REFERENCES "Document" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "_ChatDocuments_AB_unique" ON "_ChatDocuments"("A", "B");
+
+-- CreateIndex
+CREATE INDEX "_ChatDocuments_B_index" ON "_ChatDocuments"("B");
@@ -0,0 +1,48 @@
+-- AlterTable
+ALTER TABLE "Course" ADD COLUMN "tutoringStrictness" TEXT;
+
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_Chat" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "title" TEXT NOT NULL DEFAULT 'New Chat',
+    "type" TEXT NOT NULL DEFAULT 'general',
+    "assignmentName" TEXT,
+    "assignmentDocumentId" TEXT,
+    "summary" TEXT,
+    "summarizedUntil" DATETIME,
+    "courseId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "Chat_assignmentDocumentId_fkey" FOREIGN KEY ("assignmentDocumentId") REFERENCES "Document" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "Chat_courseId_fkey" FOREIGN KEY ("courseId") REFERENCES "Course" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "Chat_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+INSERT INTO "new_Chat" ("assignmentName", "courseId", "createdAt", "id", "summarizedUntil", "summary", "title", "type", "updatedAt", "userId") SELECT "assignmentName", "courseId", "createdAt", "id", "summarizedUntil", "summary", "title", "type", "updatedAt", "userId" FROM "Chat";
+DROP TABLE "Chat";
+ALTER TABLE "new_Chat" RENAME TO "Chat";
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
+
+-- CreateTable
+CREATE TABLE "TutoringEvent" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "courseId" TEXT NOT NULL,
+    "chatId" TEXT NOT NULL,
+    "messageId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "assignmentName" TEXT,
+    "strictness" TEXT NOT NULL,
+    "hintLevel" INTEGER NOT NULL,
+    "solutionRequested" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "TutoringEvent_courseId_fkey" FOREIGN KEY ("courseId") REFERENCES "Course" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "TutoringEvent_courseId_createdAt_idx" ON "TutoringEvent"("courseId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "TutoringEvent_chatId_idx" ON "TutoringEvent"("chatId");
@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE "CourseSettings" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "courseId" TEXT NOT NULL,
+    "customInstructions" TEXT,
+    "tone" TEXT,
+    "answerLanguage" TEXT,
+    "model" TEXT,
+    "temperature" REAL,
+    "retrievalTopK" INTEGER,
+    "similarityThreshold" REAL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "CourseSettings_courseId_fkey" FOREIGN KEY ("courseId") REFERENCES "Course" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CourseSettings_courseId_key" ON "CourseSettings"("courseId");
@@ -0,0 +1,34 @@
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_Message" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "content" TEXT NOT NULL,
+    "role" TEXT NOT NULL,
+    "searchQueries" TEXT,
+    "groundedness" REAL,
+    "unsupportedRanges" TEXT,
+    "chatId" TEXT NOT NULL,
+    "parentId" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "Message_chatId_fkey" FOREIGN KEY ("chatId") REFERENCES "Chat" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "Message_parentId_fkey" FOREIGN KEY ("parentId") REFERENCES "Message" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+INSERT INTO "new_Message" ("chatId", "content", "createdAt", "groundedness", "id", "role", "searchQueries", "unsupportedRanges") SELECT "chatId", "content", "createdAt", "groundedness", "id", "role", "searchQueries", "unsupportedRanges" FROM "Message";
+DROP TABLE "Message";
+ALTER TABLE "new_Message" RENAME TO "Message";
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
+
+-- Existing chats become a single branch, each message following the one before it
+UPDATE "Message" SET "parentId" = (
+    SELECT "previous"."id" FROM "Message" AS "previous"
+    WHERE "previous"."chatId" = "Message"."chatId"
+      AND ("previous"."createdAt" < "Message"."createdAt"
+        OR ("previous"."createdAt" = "Message"."createdAt" AND "previous"."id" < "Message"."id"))
+    ORDER BY "previous"."createdAt" DESC, "previous"."id" DESC
+    LIMIT 1
+);
+
+-- CreateIndex
+CREATE INDEX "Message_parentId_idx" ON "Message"("parentId");
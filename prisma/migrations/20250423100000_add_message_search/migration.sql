@@ -0,0 +1,39 @@
+-- Full-text index over message content and chat titles for searching chats.
+-- Prisma can't model virtual tables, so it's queried with raw SQL in
+-- src/lib/messageSearch.ts and kept in sync by the triggers below. Migrations
+-- that redefine "Message" or "Chat" drop their triggers and must recreate them.
+
+-- CreateVirtualTable
+CREATE VIRTUAL TABLE "MessageSearch" USING fts5(
+    "content",
+    "chatTitle",
+    "messageId" UNINDEXED,
+    "chatId" UNINDEXED,
+    tokenize = 'porter unicode61 remove_diacritics 2'
+);
+
+-- Index existing messages
+INSERT INTO "MessageSearch" ("content", "chatTitle", "messageId", "chatId")
+SELECT "Message"."content", "Chat"."title", "Message"."id", "Message"."chatId"
+FROM "Message" JOIN "Chat" ON "Chat"."id" = "Message"."chatId";
+
+-- CreateTrigger
+CREATE TRIGGER "Message_search_insert" AFTER INSERT ON "Message" BEGIN
+    INSERT INTO "MessageSearch" ("content", "chatTitle", "messageId", "chatId")
+    SELECT NEW."content", "title", NEW."id", NEW."chatId" FROM "Chat" WHERE "id" = NEW."chatId";
+END;
+
+-- CreateTrigger
+CREATE TRIGGER "Message_search_update" AFTER UPDATE OF "content" ON "Message" BEGIN
+    UPDATE "MessageSearch" SET "content" = NEW."content" WHERE "messageId" = NEW."id";
+END;
+
+-- CreateTrigger
+CREATE TRIGGER "Message_search_delete" AFTER DELETE ON "Message" BEGIN
+    DELETE FROM "MessageSearch" WHERE "messageId" = OLD."id";
+END;
+
+-- CreateTrigger
+CREATE TRIGGER "Chat_search_title" AFTER UPDATE OF "title" ON "Chat" BEGIN
+    UPDATE "MessageSearch" SET "chatTitle" = NEW."title" WHERE "chatId" = NEW."id";
+END;
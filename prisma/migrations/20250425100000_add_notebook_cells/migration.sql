@@ -0,0 +1,10 @@
+-- AlterTable
+ALTER TABLE "Document" ADD COLUMN "includeOutputs" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "VectorStore" ADD COLUMN "cellStart" INTEGER;
+ALTER TABLE "VectorStore" ADD COLUMN "cellEnd" INTEGER;
+
+-- AlterTable
+ALTER TABLE "Citation" ADD COLUMN "cellStart" INTEGER;
+ALTER TABLE "Citation" ADD COLUMN "cellEnd" INTEGER;
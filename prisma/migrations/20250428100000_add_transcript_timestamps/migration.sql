@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "VectorStore" ADD COLUMN "timeStart" REAL;
+ALTER TABLE "VectorStore" ADD COLUMN "timeEnd" REAL;
+
+-- AlterTable
+ALTER TABLE "Citation" ADD COLUMN "timeStart" REAL;
+ALTER TABLE "Citation" ADD COLUMN "timeEnd" REAL;
@@ -0,0 +1,189 @@
+/**
+ * @jest-environment node
+ */
+import { describe, test, expect } from "@jest/globals";
+import {
+  buildChatExport,
+  ExportableChat,
+  getExportFileName,
+  parseChatExport,
+  renderChatHtml,
+  renderChatMarkdown,
+} from "../lib/chatExport";
+
+const at = (minute: number) => new Date(Date.UTC(2025, 3, 20, 14, minute));
+
+const message = (
+  id: string,
+  parentId: string | null,
+  role: string,
+  content: string,
+  minute: number,
+) => ({
+  id,
+  parentId,
+  role,
+  content,
+  chatId: "chat-1",
+  createdAt: at(minute),
+  searchQueries: null,
+  groundedness: null,
+  unsupportedRanges: null,
+  citations: [],
+});
+
+const chat: ExportableChat = {
+  id: "chat-1",
+  title: "Limits & continuity",
+  type: "general",
+  assignmentName: null,
+  assignmentDocumentId: null,
+  summary: null,
+  summarizedUntil: null,
+  courseId: "course-1",
+  userId: "user-1",
+  createdAt: at(0),
+  updatedAt: at(5),
+  course: { id: "course-1", name: "Calculus I" },
+  messages: [
+    message("q1", null, "user", "What is a limit?", 1),
+    message("a1", "q1", "assistant", "First try.", 2),
+    {
+      ...message(
+        "a2",
+        "q1",
+        "assistant",
+        "A limit is the value a function approaches [1]. See also [2].",
+        3,
+      ),
+      searchQueries: JSON.stringify(["what is a limit"]),
+      groundedness: 0.5,
+      unsupportedRanges: JSON.stringify([[48, 61]]),
+      citations: [
+        {
+          id: "citation-1",
+          messageId: "a2",
+          documentId: "doc-1",
+          chunkId: null,
+          sourceText: 'From "Lecture 2" (p. 4):\nLimits describe approach.',
+          pageStart: 4,
+          pageEnd: 4,
+          cellStart: null,
+          cellEnd: null,
+          timeStart: null,
+          timeEnd: null,
+          sectionHeading: null,
+          marker: 1,
+          position: 43,
+          createdAt: at(3),
+        },
+        {
+          id: "citation-2",
+          messageId: "a2",
+          documentId: "doc-2",
+          chunkId: null,
+          sourceText: 'From "Lecture 5":\nContinuity needs a limit.',
+          pageStart: null,
+          pageEnd: null,
+          cellStart: null,
+          cellEnd: null,
+          timeStart: null,
+          timeEnd: null,
+          sectionHeading: null,
+          marker: null,
+          position: null,
+          createdAt: at(3),
+        },
+      ],
+    },
+  ],
+};
+
+describe("Chat Export Tests", () => {
+  const data = buildChatExport(chat, at(30));
+
+  test("exports every message on every branch as JSON", () => {
+    expect(data.chat).toMatchObject({
+      title: "Limits & continuity",
+      courseName: "Calculus I",
+    });
+    expect(data.messages.map((message) => message.id)).toEqual([
+      "q1",
+      "a1",
+      "a2",
+    ]);
+    expect(data.messages[2].searchQueries).toEqual(["what is a limit"]);
+    expect(data.messages[2].unsupportedRanges).toEqual([[48, 61]]);
+  });
+
+  test("reads its own JSON back", () => {
+    expect(parseChatExport(JSON.parse(JSON.stringify(data)))).toEqual(data);
+    expect(parseChatExport({ ...data, version: 2 })).toBeNull();
+    expect(
+      parseChatExport({
+        ...data,
+        messages: [{ ...data.messages[1], parentId: "missing" }],
+      }),
+    ).toBeNull();
+    // Bad numbers would otherwise fail the import partway through
+    expect(
+      parseChatExport({
+        ...data,
+        messages: [{ ...data.messages[0], groundedness: "high" }],
+      }),
+    ).toBeNull();
+    expect(
+      parseChatExport({
+        ...data,
+        messages: [{ ...data.messages[0], unsupportedRanges: [[0]] }],
+      }),
+    ).toBeNull();
+    expect(
+      parseChatExport({
+        ...data,
+        messages: data.messages.map((message) => ({
+          ...message,
+          citations: message.citations.map((citation) => ({
+            ...citation,
+            pageStart: "4",
+          })),
+        })),
+      }),
+    ).toBeNull();
+  });
+
+  test("renders the latest versions as Markdown with footnotes", () => {
+    const markdown = renderChatMarkdown(data);
+
+    expect(markdown).toContain("### Student · 2025-04-20 14:01 UTC");
+    expect(markdown).toContain(
+      "### Assistant · 2025-04-20 14:03 UTC (version 2 of 2)",
+    );
+    expect(markdown).not.toContain("First try.");
+    // [2] has no citation, so it stays as written
+    expect(markdown).toContain("approaches [^2-1]. See also [2].");
+    expect(markdown).toContain(
+      '[^2-1]: From "Lecture 2" (p. 4):\n    Limits describe approach.',
+    );
+    // Sources without a marker are listed after the footnotes
+    expect(markdown).toContain(
+      'Sources:\n\n- From "Lecture 5":\n  Continuity needs a limit.',
+    );
+  });
+
+  test("escapes the HTML it prints to PDF", () => {
+    const html = renderChatHtml(data);
+
+    expect(html).toContain("<h1>Limits &amp; continuity</h1>");
+    expect(html).toContain('<a href="#source-2-1">[1]</a>');
+    expect(html).toContain("From &quot;Lecture 2&quot; (p. 4)");
+    expect(html).toContain("<li>From &quot;Lecture 5&quot;:");
+  });
+
+  test("names downloads after the chat", () => {
+    expect(getExportFileName("Limits & continuity", "pdf")).toBe(
+      "Limits continuity.pdf",
+    );
+    expect(getExportFileName("???", "md")).toBe("chat.md");
+  });
+});
@@ -0,0 +1,337 @@
+/**
+ * @jest-environment node
+ */
+import { describe, test, expect, beforeAll } from "@jest/globals";
+import {
+  POST as sendMessage,
+  PATCH as updateChat,
+} from "../app/api/chat/[id]/route";
+import { GET as getMessages } from "../app/api/chat/[id]/messages/route";
+import { getServerSession } from "next-auth";
+import { readServerSentEvents, ServerSentEvent } from "../lib/sse";
+import { getActiveBranch, getLastSavedId } from "../lib/messageBranches";
+import { createMockSession } from "../lib/test-utils";
+
+interface MockMessage {
+  id: string;
+  chatId: string;
+  role: string;
+  content: string;
+  parentId: string | null;
+  createdAt: Date;
+  citations: object[];
+  [field: string]: unknown;
+}
+
+// The rows the routes read and write, in place of the database
+const mockDb = {
+  course: {
+    id: "course-1",
+    name: "Test Course",
+    llmProvider: null,
+    settings: null,
+  },
+  chat: {
+    id: "chat-1",
+    title: "Test Chat",
+    type: "general",
+    userId: "user-1",
+    courseId: "course-1",
+    assignmentName: null,
+    summary: null as string | null,
+    summarizedUntil: null as Date | null,
+    documentIds: [] as string[],
+  },
+  documents: [
+    { id: "document-1", courseId: "course-1", title: "Test TEXT Document" },
+    { id: "document-2", courseId: "course-2", title: "Test TEXT Document" },
+  ],
+  messages: [] as MockMessage[],
+};
+
+// Mock getServerSession; the routes import it from next-auth/next
+jest.mock("next-auth", () => ({
+  getServerSession: jest.fn(),
+}));
+jest.mock("next-auth/next", () => jest.requireMock("next-auth"));
+jest.mock("../app/api/auth/[...nextauth]/route", () => ({ authOptions: {} }));
+
+// The test course has no embedded chunks, so nothing is found
+jest.mock("../lib/semanticSearch", () => ({
+  ...jest.requireActual<object>("../lib/semanticSearch"),
+  semanticSearch: async () => [],
+}));
+
+// Only the queries the chat and messages routes make
+jest.mock("@prisma/client", () => {
+  let created = 0;
+  const withDocuments = () => ({
+    ...mockDb.chat,
+    course: mockDb.course,
+    documents: mockDb.documents
+      .filter((document) => mockDb.chat.documentIds.includes(document.id))
+      .map(({ id, title }) => ({ id, title })),
+    assignmentDocument: null,
+  });
+  const byCreation = (a: MockMessage, b: MockMessage) =>
+    a.createdAt.getTime() - b.createdAt.getTime();
+
+  const client = {
+    chat: {
+      findFirst: async ({
+        where,
+      }: {
+        where: { id: string; userId: string };
+      }) =>
+        where.id === mockDb.chat.id && where.userId === mockDb.chat.userId
+          ? withDocuments()
+          : null,
+      update: async ({
+        data,
+      }: {
+        data: { documents?: { set: { id: string }[] } };
+      }) => {
+        const { documents, ...fields } = data;
+        Object.assign(mockDb.chat, fields);
+        if (documents) {
+          mockDb.chat.documentIds = documents.set.map(({ id }) => id);
+        }
+        return withDocuments();
+      },
+    },
+    message: {
+      findMany: async ({ where }: { where: { chatId: string } }) =>
+        mockDb.messages
+          .filter((message) => message.chatId === where.chatId)
+          .sort(byCreation),
+      create: async ({
+        data,
+      }: {
+        data: Partial<MockMessage> & { citations?: { create: object[] } };
+      }) => {
+        created++;
+        const message: MockMessage = {
+          searchQueries: null,
+          groundedness: null,
+          unsupportedRanges: null,
+          ...data,
+          id: `message-${created}`,
+          chatId: data.chatId!,
+          role: data.role!,
+          content: data.content!,
+          parentId: data.parentId ?? null,
+          // A millisecond apart, so they sort in the order they were sent
+          createdAt: new Date(Date.UTC(2025, 3, 1) + created),
+          citations: data.citations?.create ?? [],
+        };
+        mockDb.messages.push(message);
+        return message;
+      },
+    },
+    document: {
+      count: async ({
+        where,
+      }: {
+        where: { id: { in: string[] }; courseId: string };
+      }) =>
+        mockDb.documents.filter(
+          (document) =>
+            where.id.in.includes(document.id) &&
+            document.courseId === where.courseId,
+        ).length,
+    },
+    $disconnect: async () => {},
+  };
+  return { PrismaClient: jest.fn(() => client) };
+});
+
+// Runs end to end on the mock LLM provider (see jest.setup.js), no API key needed
+describe("Chat Flow Tests", () => {
+  const chatId = mockDb.chat.id;
+  const documentId = mockDb.documents[0].id;
+  const otherCourseDocumentId = mockDb.documents[1].id;
+
+  beforeAll(() => {
+    // Mock authentication
+    (getServerSession as jest.Mock).mockResolvedValue(
+      createMockSession(mockDb.chat.userId),
+    );
+  });
+
+  test("POST /api/chat/[id] answers with the mock provider", async () => {
+    const request = new Request(`http://localhost:3000/api/chat/${chatId}`, {
+      method: "POST",
+      body: JSON.stringify({
+        message: "What is a derivative?",
+        options: { enableCitations: true, enableWebSearch: false },
+      }),
+    });
+
+    const response = await sendMessage(request, {
+      params: { id: chatId },
+    });
+    const result = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(result.id).toBeTruthy();
+    expect(result.content).toBe(
+      'This is a mock response to: "What is a derivative?"',
+    );
+    expect(result.searchQueries).toEqual(["What is a derivative?"]);
+  });
+
+  test("POST /api/chat/[id] defaults missing options and checks the keyword weight", async () => {
+    const post = (body: object) =>
+      sendMessage(
+        new Request(`http://localhost:3000/api/chat/${chatId}`, {
+          method: "POST",
+          body: JSON.stringify({ message: "What is a series?", ...body }),
+        }),
+        { params: { id: chatId } },
+      );
+
+    expect((await post({})).status).toBe(200);
+    expect((await post({ options: { lexicalWeight: 0.3 } })).status).toBe(200);
+    expect((await post({ options: { lexicalWeight: 2 } })).status).toBe(400);
+    expect((await post({ options: { lexicalWeight: "1" } })).status).toBe(400);
+  });
+
+  test("POST /api/chat/[id] streams tokens and a final message", async () => {
+    const request = new Request(`http://localhost:3000/api/chat/${chatId}`, {
+      method: "POST",
+      body: JSON.stringify({
+        message: "And an integral?",
+        options: { enableCitations: true, enableWebSearch: false },
+        stream: true,
+      }),
+    });
+
+    const response = await sendMessage(request, {
+      params: { id: chatId },
+    });
+    const events: ServerSentEvent[] = [];
+    await readServerSentEvents(response, (event) => events.push(event));
+
+    const tokens = events.filter((event) => event.event === "token");
+    const done = events.find((event) => event.event === "done");
+
+    expect(response.headers.get("Content-Type")).toBe("text/event-stream");
+    expect(tokens.length).toBeGreaterThan(1);
+    expect(done).toBeDefined();
+    expect(JSON.parse(done!.data).content).toBe(
+      'This is a mock response to: "And an integral?"',
+    );
+  });
+
+  test("POST /api/chat/[id] continues a chat after a stopped answer", async () => {
+    const post = (body: object) =>
+      sendMessage(
+        new Request(`http://localhost:3000/api/chat/${chatId}`, {
+          method: "POST",
+          body: JSON.stringify(body),
+        }),
+        { params: { id: chatId } },
+      );
+    const listMessages = async (): Promise<MockMessage[]> =>
+      (
+        await getMessages(
+          new Request(`http://localhost:3000/api/chat/${chatId}/messages`),
+          { params: { id: chatId } },
+        )
+      ).json();
+    const count = (await listMessages()).length;
+
+    // Stop after the first token, as the chat does by aborting the request
+    const stopped = await post({ message: "What is a vector?", stream: true });
+    const reader = stopped.body!.getReader();
+    await reader.read();
+    await reader.cancel();
+
+    // The question and the partial answer are saved after the stop
+    let messages = await listMessages();
+    while (messages.length < count + 2) {
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      messages = await listMessages();
+    }
+    const parentId = getLastSavedId(getActiveBranch(messages));
+
+    expect(messages[messages.length - 1].role).toBe("assistant");
+    expect(parentId).toBe(messages[messages.length - 1].id);
+    expect((await post({ message: "And a matrix?", parentId })).status).toBe(
+      200,
+    );
+  });
+
+  test("POST /api/chat/[id] adds regenerated answers and edits as branches", async () => {
+    const post = async (body: object) =>
+      sendMessage(
+        new Request(`http://localhost:3000/api/chat/${chatId}`, {
+          method: "POST",
+          body: JSON.stringify({
+            options: { enableCitations: true, enableWebSearch: false },
+            ...body,
+          }),
+        }),
+        { params: { id: chatId } },
+      );
+    const listMessages = async () =>
+      (
+        await getMessages(
+          new Request(`http://localhost:3000/api/chat/${chatId}/messages`),
+          { params: { id: chatId } },
+        )
+      ).json();
+
+    const answer = await (await post({ message: "What is a limit?" })).json();
+    const regenerated = await (
+      await post({ parentId: answer.parentId, regenerate: true })
+    ).json();
+
+    expect(regenerated.id).not.toBe(answer.id);
+    expect(regenerated.parentId).toBe(answer.parentId);
+    expect(regenerated.content).toBe(
+      'This is a mock response to: "What is a limit?"',
+    );
+
+    // An edited question is a sibling of the original
+    const question = (await listMessages()).find(
+      (message: { id: string }) => message.id === answer.parentId,
+    );
+    const edited = await (
+      await post({ message: "What is a limit?!", parentId: question.parentId })
+    ).json();
+    const editedQuestion = (await listMessages()).find(
+      (message: { id: string }) => message.id === edited.parentId,
+    );
+
+    expect(editedQuestion.content).toBe("What is a limit?!");
+    expect(editedQuestion.parentId).toBe(question.parentId);
+
+    expect((await post({ message: "Hi", parentId: "missing" })).status).toBe(
+      400,
+    );
+  });
+
+  test("PATCH /api/chat/[id] limits the chat to documents of its course", async () => {
+    const patch = (documentIds: unknown) =>
+      updateChat(
+        new Request(`http://localhost:3000/api/chat/${chatId}`, {
+          method: "PATCH",
+          body: JSON.stringify({ documentIds }),
+        }),
+        { params: { id: chatId } },
+      );
+
+    const scoped = await patch([documentId]);
+    expect(scoped.status).toBe(200);
+    expect((await scoped.json()).documents).toEqual([
+      { id: documentId, title: "Test TEXT Document" },
+    ]);
+
+    expect((await patch([otherCourseDocumentId])).status).toBe(400);
+    expect((await patch("all")).status).toBe(400);
+
+    const cleared = await patch([]);
+    expect((await cleared.json()).documents).toEqual([]);
+  });
+});
@@ -0,0 +1,69 @@
+/**
+ * @jest-environment node
+ */
+import { describe, test, expect } from "@jest/globals";
+import { chunkExtractedText } from "../lib/chunker";
+
+const paragraph = (label: string) => `${label} `.repeat(60).trim() + ".";
+
+describe("Chunker Tests", () => {
+  test("chunks carry the pages they span", async () => {
+    const pages = [
+      { pageNumber: 1, text: `Lecture 1 Introduction\n${paragraph("alpha")}` },
+      { pageNumber: 2, text: paragraph("beta") },
+      { pageNumber: 3, text: `2.1 Gradient Descent\n${paragraph("gamma")}` },
+    ];
+    const text = pages.map((page) => page.text).join("\n\n");
+
+    const chunks = await chunkExtractedText({ text, pages });
+
+    expect(chunks.length).toBeGreaterThan(1);
+    chunks.forEach((chunk, index) => {
+      expect(chunk.chunkIndex).toBe(index);
+      expect(text.slice(chunk.charStart, chunk.charEnd)).toBe(chunk.text);
+    });
+
+    expect(chunks[0].pageStart).toBe(1);
+    expect(chunks[0].sectionHeading).toBe("Lecture 1 Introduction");
+
+    const last = chunks[chunks.length - 1];
+    expect(last.pageEnd).toBe(3);
+    expect(last.sectionHeading).toBe("2.1 Gradient Descent");
+  });
+
+  test("unpaginated text has no page numbers", async () => {
+    const chunks = await chunkExtractedText({ text: paragraph("delta") });
+
+    expect(chunks).toHaveLength(1);
+    expect(chunks[0].pageStart).toBeNull();
+    expect(chunks[0].pageEnd).toBeNull();
+    expect(chunks[0].charStart).toBe(0);
+  });
+
+  test("structured text is chunked by section without splitting math", async () => {
+    const equation = `$$\n${"x + ".repeat(200)}1\n$$`;
+    const text = [
+      "# Limits",
+      paragraph("alpha"),
+      "## Squeeze theorem",
+      paragraph("beta"),
+      equation,
+      "# Derivatives",
+      paragraph("gamma"),
+    ].join("\n\n");
+
+    const chunks = await chunkExtractedText({ text, structured: true });
+
+    expect(chunks.map((chunk) => chunk.sectionHeading)).toEqual([
+      "Limits",
+      "Limits > Squeeze theorem",
+      "Limits > Squeeze theorem",
+      "Derivatives",
+    ]);
+    expect(chunks[2].text).toBe(equation);
+    expect(chunks[3].text.startsWith("# Derivatives")).toBe(true);
+    chunks.forEach((chunk) => {
+      expect(text.slice(chunk.charStart, chunk.charEnd)).toBe(chunk.text);
+    });
+  });
+});
@@ -0,0 +1,145 @@
+/**
+ * @jest-environment node
+ */
+import { describe, test, expect, afterEach } from "@jest/globals";
+import {
+  assembleChatContext,
+  buildChatContext,
+  getContextBudget,
+} from "../lib/contextBuilder";
+import { CompletionRequest, getLLMProvider } from "../lib/llmProvider";
+import { countMessageTokens, truncateToTokens } from "../lib/tokenCounter";
+
+const mockChatUpdate = jest.fn();
+
+jest.mock("@prisma/client", () => ({
+  PrismaClient: jest.fn(() => ({
+    chat: { update: (args: unknown) => mockChatUpdate(args) },
+  })),
+}));
+
+const llm = getLLMProvider({ llmProvider: "mock" });
+
+const sources = [1, 2, 3].map((n) => ({
+  label: `Document ${n}: "Lecture ${n}"`,
+  content: `Lecture ${n} covers topic ${n} in detail. `.repeat(20),
+}));
+
+const history = Array.from({ length: 10 }, (_, i) => ({
+  role: i % 2 === 0 ? ("user" as const) : ("assistant" as const),
+  content: `Turn ${i}: ${"some words about the course ".repeat(10)}`,
+  createdAt: new Date(2025, 0, 1, 12, i),
+}));
+
+const input = {
+  llm,
+  instructions: "You are a course assistant.",
+  sources,
+  history,
+  message: "What does lecture 2 say?",
+};
+
+describe("Context Builder Tests", () => {
+  afterEach(() => {
+    delete process.env.CONTEXT_TOKEN_BUDGET;
+    delete process.env.CONTEXT_SOURCES_SHARE;
+  });
+
+  test("includes everything when the budget allows", () => {
+    const context = buildChatContext(input, 4000);
+
+    expect(context.includedSources).toBe(3);
+    expect(context.overflow).toHaveLength(0);
+    expect(context.messages).toHaveLength(12);
+    expect(context.messages[0].content).toContain('Document 3: "Lecture 3"');
+    expect(context.messages[11]).toEqual({
+      role: "user",
+      content: "What does lecture 2 say?",
+    });
+    expect(countMessageTokens(context.messages, llm.model)).toBeLessThanOrEqual(
+      context.tokens,
+    );
+  });
+
+  test("keeps the best ranked sources and newest turns within a small budget", () => {
+    const context = buildChatContext(input, 600);
+
+    expect(context.includedSources).toBeGreaterThan(0);
+    expect(context.includedSources).toBeLessThan(3);
+    expect(context.messages[0].content).toContain('Document 1: "Lecture 1"');
+    expect(context.messages[0].content).not.toContain("Lecture 3");
+
+    // The dropped turns are the oldest ones
+    expect(context.overflow.length).toBeGreaterThan(0);
+    expect(context.overflow[0]).toBe(history[0]);
+    expect(context.messages[context.messages.length - 2].content).toBe(
+      history[9].content,
+    );
+    expect(context.tokens).toBeLessThanOrEqual(600);
+  });
+
+  test("respects the sources share", () => {
+    process.env.CONTEXT_SOURCES_SHARE = "0";
+    const context = buildChatContext(input, 4000);
+
+    expect(context.includedSources).toBe(0);
+    expect(context.messages[0].content).toBe("You are a course assistant.");
+  });
+
+  test("adds the summary and caps its length", () => {
+    const summary = "The student is revising sorting. ".repeat(200);
+    const context = buildChatContext({ ...input, summary }, 4000);
+
+    expect(context.messages[0].content).toContain(
+      "Summary of the earlier conversation:",
+    );
+    expect(context.messages[0].content).toContain(
+      truncateToTokens(summary, 500, llm.model),
+    );
+    expect(context.messages[0].content).not.toContain(summary);
+  });
+
+  test("caps the configured budget at the context window", () => {
+    expect(getContextBudget(llm)).toBe(llm.contextWindow - 1000);
+
+    process.env.CONTEXT_TOKEN_BUDGET = "2000";
+    expect(getContextBudget(llm)).toBe(2000);
+
+    process.env.CONTEXT_TOKEN_BUDGET = "1000000";
+    expect(getContextBudget(llm)).toBe(llm.contextWindow - 1000);
+  });
+
+  test("folds long histories into the summary in parts that fit the budget", async () => {
+    process.env.CONTEXT_TOKEN_BUDGET = "400";
+    const prompts: CompletionRequest[] = [];
+    const summarizer = {
+      ...llm,
+      complete: async (request: CompletionRequest) => {
+        prompts.push(request);
+        return `Summary ${prompts.length}`;
+      },
+    };
+    const longTurn = {
+      ...history[0],
+      content: "A very long question. ".repeat(500),
+    };
+
+    const context = await assembleChatContext("chat-1", {
+      ...input,
+      llm: summarizer,
+      sources: [],
+      history: [longTurn, ...history.slice(1)],
+    });
+
+    expect(prompts.length).toBeGreaterThan(1);
+    for (const prompt of prompts) {
+      expect(
+        countMessageTokens(prompt.messages, llm.model),
+      ).toBeLessThanOrEqual(400);
+    }
+    // Each part is merged into the summary of the parts before it
+    expect(prompts[1].messages[1].content).toContain("Summary 1");
+    expect(context.summary).toBe(`Summary ${prompts.length}`);
+    expect(mockChatUpdate).toHaveBeenCalledTimes(1);
+  });
+});
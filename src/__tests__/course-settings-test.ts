@@ -0,0 +1,90 @@
+/**
+ * @jest-environment node
+ */
+import { describe, test, expect, afterEach } from "@jest/globals";
+import {
+  buildCourseInstructions,
+  parseCourseSettings,
+  resolveCourseSettings,
+} from "../lib/courseSettings";
+import { getLLMProvider } from "../lib/llmProvider";
+
+describe("Course Settings Tests", () => {
+  afterEach(() => {
+    delete process.env.RETRIEVAL_TOP_K;
+    delete process.env.RETRIEVAL_SIMILARITY_THRESHOLD;
+  });
+
+  test("falls back to the deployment defaults", () => {
+    expect(resolveCourseSettings(null)).toEqual({
+      customInstructions: null,
+      tone: null,
+      answerLanguage: null,
+      model: null,
+      temperature: undefined,
+      retrievalTopK: 5,
+      similarityThreshold: 0,
+    });
+
+    process.env.RETRIEVAL_TOP_K = "8";
+    process.env.RETRIEVAL_SIMILARITY_THRESHOLD = "0.3";
+    const settings = resolveCourseSettings({ retrievalTopK: 3 });
+    expect(settings.retrievalTopK).toBe(3);
+    expect(settings.similarityThreshold).toBe(0.3);
+  });
+
+  test("accepts settings from the course editor", () => {
+    expect(
+      parseCourseSettings({
+        tone: "socratic",
+        answerLanguage: " Spanish ",
+        model: "",
+        temperature: 0.2,
+        retrievalTopK: 8,
+        similarityThreshold: null,
+      }),
+    ).toEqual({
+      settings: {
+        tone: "socratic",
+        answerLanguage: "Spanish",
+        model: null,
+        temperature: 0.2,
+        retrievalTopK: 8,
+        similarityThreshold: null,
+      },
+    });
+  });
+
+  test("rejects settings out of range", () => {
+    expect(parseCourseSettings({ tone: "sarcastic" })).toEqual({
+      error: "Unsupported tone: sarcastic",
+    });
+    expect(parseCourseSettings({ temperature: 3 })).toHaveProperty("error");
+    expect(parseCourseSettings({ retrievalTopK: 2.5 })).toHaveProperty("error");
+    expect(parseCourseSettings({ customInstructions: 42 })).toHaveProperty(
+      "error",
+    );
+    expect(parseCourseSettings("formal")).toHaveProperty("error");
+  });
+
+  test("adds tone, language and custom instructions to the prompt", () => {
+    const instructions = buildCourseInstructions(
+      resolveCourseSettings({
+        tone: "concise",
+        answerLanguage: "French",
+        customInstructions: "Use the notation from the lecture notes.",
+      }),
+    );
+
+    expect(instructions).toMatch(
+      /short and to the point[\s\S]*answer in French[\s\S]*Use the notation from the lecture notes\.$/,
+    );
+    expect(buildCourseInstructions(resolveCourseSettings(null))).toBe("");
+  });
+
+  test("overrides the provider's model", () => {
+    expect(
+      getLLMProvider({ llmProvider: "local" }, { model: "mistral" }).model,
+    ).toBe("mistral");
+  });
+});
@@ -0,0 +1,82 @@
+/**
+ * @jest-environment node
+ */
+import { describe, test, expect, beforeAll, afterAll } from "@jest/globals";
+import { PrismaClient } from "@prisma/client";
+import { createEmbeddingJobs, runEmbeddingJob } from "../lib/embeddingJobs";
+import { getEmbeddingProvider } from "../lib/embeddingProvider";
+import {
+  createTestUser,
+  createTestCourse,
+  createTestDocument,
+  cleanupTestData,
+  disconnectPrisma,
+} from "../lib/test-utils";
+
+const prisma = new PrismaClient();
+
+// Moves a course between two sizes of the hash embedder, so no API key is needed
+describe("Re-embedding Job Tests", () => {
+  let courseId: string;
+
+  beforeAll(async () => {
+    const testUser = await createTestUser();
+    const testCourse = await createTestCourse(testUser.id);
+    const testDocument = await createTestDocument(testCourse.id);
+    courseId = testCourse.id;
+
+    const oldEmbeddings = getEmbeddingProvider("hash:hash-64");
+    const chunks = ["Limits and continuity", "Derivatives of polynomials"];
+    const vectors = await oldEmbeddings.embedDocuments(chunks);
+
+    await prisma.course.update({
+      where: { id: courseId },
+      data: { embeddingModel: oldEmbeddings.model },
+    });
+    await prisma.vectorStore.createMany({
+      data: chunks.map((chunk, i) => ({
+        documentId: testDocument.id,
+        chunk,
+        embedding: JSON.stringify(vectors[i]),
+        embeddingModel: oldEmbeddings.model,
+        embeddingDimension: vectors[i].length,
+        chunkIndex: i,
+      })),
+    });
+  });
+
+  afterAll(async () => {
+    delete process.env.REEMBED_BATCH_SIZE;
+    await cleanupTestData();
+    await disconnectPrisma();
+    await prisma.$disconnect();
+  });
+
+  test("re-embeds every chunk and switches the course over", async () => {
+    process.env.REEMBED_BATCH_SIZE = "1";
+    const [job] = await createEmbeddingJobs({
+      courseId,
+      model: "hash:hash-32",
+    });
+
+    expect(job.totalChunks).toBe(2);
+
+    const finished = await runEmbeddingJob(job.id);
+    const course = await prisma.course.findUnique({ where: { id: courseId } });
+    const vectors = await prisma.vectorStore.findMany({
+      where: { document: { courseId } },
+      orderBy: { chunkIndex: "asc" },
+    });
+
+    expect(finished.status).toBe("completed");
+    expect(finished.processedChunks).toBe(2);
+    expect(course?.embeddingModel).toBe("hash:hash-32");
+    expect(vectors).toHaveLength(2);
+    expect(vectors.map((vector) => vector.embeddingModel)).toEqual([
+      "hash:hash-32",
+      "hash:hash-32",
+    ]);
+    expect(vectors[1].chunk).toBe("Derivatives of polynomials");
+    expect(JSON.parse(vectors[1].embedding)).toHaveLength(32);
+  });
+});
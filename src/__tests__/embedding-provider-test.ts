@@ -0,0 +1,47 @@
+/**
+ * @jest-environment node
+ */
+import { describe, test, expect } from "@jest/globals";
+import { getEmbeddingProvider } from "../lib/embeddingProvider";
+
+const cosine = (a: number[], b: number[]) =>
+  a.reduce((sum, value, i) => sum + value * b[i], 0);
+
+describe("Embedding Provider Tests", () => {
+  test("the test environment uses the hash embedder", () => {
+    const embeddings = getEmbeddingProvider();
+
+    expect(embeddings.name).toBe("hash");
+    expect(embeddings.model).toBe("hash:hash-256");
+  });
+
+  test("hash embeddings are deterministic and normalized", async () => {
+    const embeddings = getEmbeddingProvider();
+    const [first, second] = await embeddings.embedDocuments([
+      "Gradient descent minimizes the loss",
+      "Gradient descent minimizes the loss",
+    ]);
+
+    expect(first).toHaveLength(256);
+    expect(first).toEqual(second);
+    expect(cosine(first, first)).toBeCloseTo(1);
+  });
+
+  test("overlapping text scores higher than unrelated text", async () => {
+    const embeddings = getEmbeddingProvider();
+    const query = await embeddings.embedQuery("What is gradient descent?");
+    const [related, unrelated] = await embeddings.embedDocuments([
+      "Gradient descent updates weights against the gradient.",
+      "The French Revolution began in 1789.",
+    ]);
+
+    expect(cosine(query, related)).toBeGreaterThan(cosine(query, unrelated));
+  });
+
+  test("a stored model tag rebuilds the matching provider", () => {
+    expect(getEmbeddingProvider("hash:hash-64").model).toBe("hash:hash-64");
+    expect(getEmbeddingProvider("openai:text-embedding-3-small").model).toBe(
+      "openai:text-embedding-3-small",
+    );
+  });
+});
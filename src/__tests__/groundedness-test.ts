@@ -0,0 +1,95 @@
+/**
+ * @jest-environment node
+ */
+import { describe, test, expect, afterEach } from "@jest/globals";
+import { checkGroundedness, splitSentences } from "../lib/groundedness";
+import {
+  CompletionRequest,
+  getLLMProvider,
+  LLMProvider,
+} from "../lib/llmProvider";
+
+const passages = [
+  "The derivative measures the instantaneous rate of change of a function. It is defined as the limit of difference quotients.",
+  "Integrals accumulate quantities such as areas under curves.",
+];
+
+const answer =
+  "The derivative gives the instantaneous rate of change of a function [1]. Newton and Leibniz argued bitterly about priority in the seventeenth century. Any questions?";
+
+// Provider answering every completion with a fixed reply
+const replyingWith = (reply: string) => {
+  const requests: CompletionRequest[] = [];
+  const provider: LLMProvider = {
+    ...getLLMProvider({ llmProvider: "mock" }),
+    async complete(request) {
+      requests.push(request);
+      return reply;
+    },
+  };
+  return { provider, requests };
+};
+
+describe("Groundedness Tests", () => {
+  afterEach(() => {
+    delete process.env.GROUNDEDNESS_CHECK;
+    delete process.env.GROUNDEDNESS_THRESHOLD;
+  });
+
+  test("splits sentences with their ranges", () => {
+    const text = "First one [1]. Second?\nThird line";
+
+    expect(
+      splitSentences(text).map(({ start, end }) => text.slice(start, end)),
+    ).toEqual(["First one [1].", "Second?", "Third line"]);
+  });
+
+  test("flags sentences the passages don't support", async () => {
+    const result = await checkGroundedness(answer, passages);
+
+    // The closing question isn't a claim, so two sentences are checked
+    expect(result.sentences).toHaveLength(2);
+    expect(result.sentences.map((sentence) => sentence.supported)).toEqual([
+      true,
+      false,
+    ]);
+    expect(result.score).toBe(0.5);
+
+    const [start, end] = [result.sentences[1].start, result.sentences[1].end];
+    expect(answer.slice(start, end)).toMatch(/^Newton.*century\.$/);
+  });
+
+  test("scores answers without passages as ungrounded", async () => {
+    const result = await checkGroundedness(answer, []);
+
+    expect(result.score).toBe(0);
+    expect(result.sentences.every((sentence) => !sentence.supported)).toBe(
+      true,
+    );
+  });
+
+  test("has nothing to check in short replies", async () => {
+    expect((await checkGroundedness("Hello! Happy to help.", [])).score).toBe(
+      null,
+    );
+  });
+
+  test("uses the LLM judge when configured", async () => {
+    process.env.GROUNDEDNESS_CHECK = "llm";
+    const { provider, requests } = replyingWith("[9, 7]");
+
+    const result = await checkGroundedness(answer, passages, provider);
+
+    expect(requests).toHaveLength(1);
+    expect(result.score).toBe(1);
+  });
+
+  test("falls back to word coverage when the LLM reply is unusable", async () => {
+    process.env.GROUNDEDNESS_CHECK = "llm";
+    const { provider } = replyingWith("Both look fine to me.");
+
+    const result = await checkGroundedness(answer, passages, provider);
+
+    expect(result.score).toBe(0.5);
+  });
+});
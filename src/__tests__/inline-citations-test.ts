@@ -0,0 +1,74 @@
+/**
+ * @jest-environment node
+ */
+import { describe, test, expect } from "@jest/globals";
+import {
+  resolveCitationMarkers,
+  splitCitationMarkers,
+  stripCitationMarkers,
+} from "../lib/inlineCitations";
+
+const sources = ["a", "b", "c"].map((id) => ({
+  documentId: `doc-${id}`,
+  sourceText: `Text ${id}`,
+  chunkId: `chunk-${id}`,
+}));
+
+describe("Inline Citation Tests", () => {
+  test("keeps only cited sources, renumbered in order of use", () => {
+    const { content, citations } = resolveCitationMarkers(
+      "Limits come first [3]. Derivatives build on them [1][3].",
+      sources,
+    );
+
+    expect(content).toBe(
+      "Limits come first [1]. Derivatives build on them [2][1].",
+    );
+    expect(citations).toEqual([
+      { ...sources[2], marker: 1, position: 18 },
+      { ...sources[0], marker: 2, position: 49 },
+    ]);
+  });
+
+  test("drops markers that point at no source", () => {
+    const { content, citations } = resolveCitationMarkers(
+      "See the notes [7]. And the slides [2, 9].",
+      sources,
+    );
+
+    expect(content).toBe("See the notes. And the slides [1].");
+    expect(citations.map((citation) => citation.chunkId)).toEqual(["chunk-b"]);
+  });
+
+  test("ignores indexes and links that look like markers", () => {
+    const answer = "Use x[1] or see [1](https://example.com).";
+
+    expect(resolveCitationMarkers(answer, sources)).toEqual({
+      content: answer,
+      citations: [],
+    });
+    expect(stripCitationMarkers("Defined in [1, 2], like x[1].")).toBe(
+      "Defined in, like x[1].",
+    );
+  });
+
+  test("places each citation at its marker, not text that looks like one", () => {
+    const { content, citations } = resolveCitationMarkers(
+      "Index x[1] from zero [2]. Then [9] go on [3].",
+      sources,
+    );
+
+    expect(content).toBe("Index x[1] from zero [1]. Then go on [2].");
+    expect(citations.map((citation) => citation.position)).toEqual([21, 37]);
+  });
+
+  test("splits an answer into text and markers", () => {
+    expect(splitCitationMarkers("A [1]. B [2, 3]")).toEqual([
+      { type: "text", text: "A " },
+      { type: "marker", marker: 1 },
+      { type: "text", text: ". B " },
+      { type: "marker", marker: 2 },
+      { type: "marker", marker: 3 },
+    ]);
+  });
+});
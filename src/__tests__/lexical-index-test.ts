@@ -0,0 +1,70 @@
+/**
+ * @jest-environment node
+ */
+import { describe, test, expect } from "@jest/globals";
+import {
+  buildLexicalIndex,
+  fuseRankings,
+  searchLexicalIndex,
+  tokenize,
+} from "../lib/lexicalIndex";
+
+const chunks = [
+  "Theorem 3.2 states that every bounded monotone sequence converges.",
+  "Theorem 3 introduces limits of sequences.",
+  "The learning rate alpha_t decays over time in CS229.",
+  "Gradient ∇f points in the direction of steepest ascent.",
+];
+
+describe("Lexical Index Tests", () => {
+  test("keeps theorem numbers, variable names and symbols whole", () => {
+    expect(tokenize("By Theorem 3.2, alpha_t → 0 as t ∈ ℕ.")).toEqual([
+      "by",
+      "theorem",
+      "3.2",
+      "alpha_t",
+      "→",
+      "0",
+      "as",
+      "t",
+      "∈",
+      "ℕ",
+    ]);
+  });
+
+  test("ranks exact identifier matches first", () => {
+    const index = buildLexicalIndex(chunks);
+
+    expect(
+      searchLexicalIndex(index, "What does theorem 3.2 say?", 2)[0],
+    ).toEqual(expect.objectContaining({ position: 0 }));
+    expect(searchLexicalIndex(index, "alpha_t", 5)).toEqual([
+      expect.objectContaining({ position: 2 }),
+    ]);
+    expect(searchLexicalIndex(index, "∇", 5)[0].position).toBe(3);
+  });
+
+  test("respects the position filter", () => {
+    const index = buildLexicalIndex(chunks);
+    const matches = searchLexicalIndex(index, "theorem", 5, (i) => i !== 0);
+
+    expect(matches.map((match) => match.position)).toEqual([1]);
+  });
+
+  test("fuses rankings by weighted reciprocal rank", () => {
+    const semantic = { ids: ["a", "b", "c"], weight: 0.5 };
+    const keyword = { ids: ["c", "d"], weight: 0.6 };
+
+    expect(fuseRankings([semantic, keyword]).map((item) => item.id)).toEqual([
+      "c",
+      "d",
+      "a",
+      "b",
+    ]);
+    expect(
+      fuseRankings([semantic, { ...keyword, weight: 0 }]).map(
+        (item) => item.id,
+      ),
+    ).toEqual(["a", "b", "c"]);
+  });
+});
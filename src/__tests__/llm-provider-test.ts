@@ -0,0 +1,44 @@
+/**
+ * @jest-environment node
+ */
+import { describe, test, expect } from "@jest/globals";
+import { getLLMProvider } from "../lib/llmProvider";
+
+describe("LLM Provider Tests", () => {
+  test("the test environment uses the mock provider", () => {
+    expect(getLLMProvider().name).toBe("mock");
+  });
+
+  test("a course can override the deployment provider", () => {
+    expect(getLLMProvider({ llmProvider: "local" }).name).toBe("local");
+    expect(getLLMProvider({ llmProvider: null }).name).toBe("mock");
+  });
+
+  test("mock completions and streams are deterministic", async () => {
+    const llm = getLLMProvider();
+    const request = {
+      messages: [
+        { role: "system" as const, content: "You are a course assistant." },
+        { role: "user" as const, content: "What is a derivative?" },
+      ],
+    };
+
+    const answer = await llm.complete(request);
+    expect(answer).toBe('This is a mock response to: "What is a derivative?"');
+
+    let streamed = "";
+    for await (const token of llm.stream(request)) {
+      streamed += token;
+    }
+    expect(streamed).toBe(answer);
+  });
+
+  test("mock titles are short", async () => {
+    const title = await getLLMProvider().generateTitle(
+      "Can you explain how the chain rule works for nested functions?",
+      "Calculus",
+    );
+
+    expect(title).toBe("Can you explain how the chain");
+  });
+});
@@ -0,0 +1,72 @@
+/**
+ * @jest-environment node
+ */
+import { describe, test, expect } from "@jest/globals";
+import {
+  getActiveBranch,
+  getBranchPath,
+  getLastSavedId,
+  selectBranchTo,
+} from "../lib/messageBranches";
+
+// q1 → a1, answered again as a2; q1 edited as q2 → a3
+const messages = [
+  { id: "q1", parentId: null, createdAt: "2025-04-01T10:00:00Z" },
+  { id: "a1", parentId: "q1", createdAt: "2025-04-01T10:00:05Z" },
+  { id: "a2", parentId: "q1", createdAt: "2025-04-01T10:01:00Z" },
+  { id: "q2", parentId: null, createdAt: "2025-04-01T10:02:00Z" },
+  { id: "a3", parentId: "q2", createdAt: "2025-04-01T10:02:05Z" },
+];
+
+const ids = (steps: ReturnType<typeof getActiveBranch>) =>
+  steps.map((step) => step.message.id);
+
+describe("Message Branch Tests", () => {
+  test("follows a message back to the start of the chat", () => {
+    expect(getBranchPath(messages, "a2").map((message) => message.id)).toEqual([
+      "q1",
+      "a2",
+    ]);
+    expect(getBranchPath(messages, null)).toEqual([]);
+  });
+
+  test("shows the newest version at each fork by default", () => {
+    const branch = getActiveBranch(messages);
+
+    expect(ids(branch)).toEqual(["q2", "a3"]);
+    expect(branch[0].siblings.map((message) => message.id)).toEqual([
+      "q1",
+      "q2",
+    ]);
+    expect(branch[0].index).toBe(1);
+  });
+
+  test("shows the selected versions and what follows them", () => {
+    expect(ids(getActiveBranch(messages, { root: "q1" }))).toEqual([
+      "q1",
+      "a2",
+    ]);
+    expect(ids(getActiveBranch(messages, { root: "q1", q1: "a1" }))).toEqual([
+      "q1",
+      "a1",
+    ]);
+  });
+
+  test("selects the versions leading to a linked message", () => {
+    const selection = selectBranchTo(messages, "a1");
+
+    expect(selection).toEqual({ root: "q1", q1: "a1" });
+    expect(ids(getActiveBranch(messages, selection))).toEqual(["q1", "a1"]);
+  });
+
+  test("continues a branch from its last saved message", () => {
+    const unsaved = [
+      ...messages,
+      { id: "temp-1", parentId: "a3", createdAt: "2025-04-01T10:03:00Z" },
+      { id: "temp-assistant-1", parentId: "temp-1" },
+    ];
+
+    expect(getLastSavedId(getActiveBranch(unsaved))).toBe("a3");
+    expect(getLastSavedId([])).toBeNull();
+  });
+});
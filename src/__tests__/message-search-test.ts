@@ -0,0 +1,147 @@
+/**
+ * @jest-environment node
+ */
+import { describe, test, expect, jest } from "@jest/globals";
+import fs from "fs";
+import path from "path";
+import {
+  buildMatchQuery,
+  checkMessageSearchIndex,
+  MESSAGE_SEARCH_TRIGGERS,
+  searchMessages,
+  splitHighlights,
+} from "../lib/messageSearch";
+
+// 250 messages matching "limits", best ranked first; only the 5 ranked lowest
+// were sent in March
+const MARCH = Date.UTC(2025, 2, 1);
+const mockMessages = Array.from({ length: 250 }, (_, i) => ({
+  id: `message-${i}`,
+  chatId: "chat-1",
+  role: "user",
+  content: "limits",
+  createdAt: new Date(i >= 245 ? MARCH + i : MARCH - 86400000),
+  chat: { type: "general", courseId: "course-1", course: { name: "Calculus" } },
+}));
+// Tables and triggers in the mock database
+const mockSchema = [
+  "MessageSearch",
+  "Message_search_insert",
+  "Message_search_update",
+  "Message_search_delete",
+  "Chat_search_title",
+];
+
+// Evaluates the date range and LIMIT of the FTS query over mockMessages
+jest.mock("@prisma/client", () => {
+  const actual =
+    jest.requireActual<typeof import("@prisma/client")>("@prisma/client");
+  const client = {
+    $queryRaw: async (strings: TemplateStringsArray, ...values: unknown[]) => {
+      const query = actual.Prisma.sql(strings, ...values);
+      if (query.sql.includes("sqlite_master")) {
+        return mockSchema.map((name) => ({ name }));
+      }
+
+      const parts = query.sql.split("?");
+      const valueAfter = (text: string) =>
+        query.values[parts.findIndex((part) => part.trimEnd().endsWith(text))];
+
+      const from = valueAfter('"Message"."createdAt" >=') as number | undefined;
+      const to = valueAfter('"Message"."createdAt" <=') as number | undefined;
+      return mockMessages
+        .filter((message) => from === undefined || +message.createdAt >= from)
+        .filter((message) => to === undefined || +message.createdAt <= to)
+        .slice(0, valueAfter("LIMIT") as number)
+        .map((message) => ({
+          messageId: message.id,
+          snippet: "\u0002limits\u0003",
+          chatTitle: "Limits",
+        }));
+    },
+    message: {
+      findMany: async ({ where }: { where: { id: { in: string[] } } }) =>
+        mockMessages.filter((message) => where.id.in.includes(message.id)),
+    },
+  };
+  return { ...actual, PrismaClient: jest.fn(() => client) };
+});
+
+describe("Message Search Tests", () => {
+  test("matches every word, the last one as a prefix", () => {
+    expect(buildMatchQuery("chain rule deriv")).toBe('"chain" "rule" "deriv"*');
+    expect(buildMatchQuery("  théorème ")).toBe('"théorème"*');
+  });
+
+  test("keeps FTS syntax in the query literal", () => {
+    expect(buildMatchQuery('limits NEAR "x" OR col:*')).toBe(
+      '"limits" "NEAR" "x" "OR" "col"*',
+    );
+    expect(buildMatchQuery('"*" -')).toBeNull();
+  });
+
+  test("splits highlighted snippets into parts", () => {
+    expect(
+      splitHighlights("…the \u0002chain\u0003 \u0002rule\u0003 says"),
+    ).toEqual([
+      { text: "…the ", match: false },
+      { text: "chain", match: true },
+      { text: " ", match: false },
+      { text: "rule", match: true },
+      { text: " says", match: false },
+    ]);
+    expect(splitHighlights("Limits")).toEqual([
+      { text: "Limits", match: false },
+    ]);
+  });
+
+  test("applies the date range before limiting the matches", async () => {
+    const results = await searchMessages("user-1", "limits", {
+      from: new Date(MARCH),
+      to: new Date(Date.UTC(2025, 3, 1)),
+    });
+
+    expect(results.map((result) => result.messageId)).toEqual([
+      "message-245",
+      "message-246",
+      "message-247",
+      "message-248",
+      "message-249",
+    ]);
+    expect(
+      await searchMessages("user-1", "limits", { limit: 50 }),
+    ).toHaveLength(50);
+  });
+
+  test("reports search triggers missing from the database", async () => {
+    expect(await checkMessageSearchIndex()).toEqual([]);
+
+    mockSchema.splice(mockSchema.indexOf("Chat_search_title"), 1);
+    expect(await checkMessageSearchIndex()).toEqual(["Chat_search_title"]);
+  });
+
+  test("recreates the search triggers in migrations that rebuild their tables", () => {
+    const migrations = path.join(__dirname, "../../prisma/migrations");
+    const later = fs
+      .readdirSync(migrations)
+      .filter(
+        (name) =>
+          /^\d+_/.test(name) && name > "20250423100000_add_message_search",
+      )
+      .map((name) =>
+        fs.readFileSync(path.join(migrations, name, "migration.sql"), "utf8"),
+      );
+
+    for (const sql of later) {
+      for (const table of ["Message", "Chat"]) {
+        if (!sql.includes(`DROP TABLE "${table}"`)) continue;
+        for (const trigger of MESSAGE_SEARCH_TRIGGERS) {
+          if (trigger.startsWith(`${table}_`)) {
+            expect(sql).toContain(`CREATE TRIGGER "${trigger}"`);
+          }
+        }
+      }
+    }
+    expect(later.length).toBeGreaterThan(0);
+  });
+});
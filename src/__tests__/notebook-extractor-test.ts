@@ -0,0 +1,118 @@
+/**
+ * @jest-environment node
+ */
+import { describe, test, expect } from "@jest/globals";
+import { extractNotebookText } from "../lib/notebookExtractor";
+import { chunkExtractedText } from "../lib/chunker";
+import { formatCitationLocation } from "../lib/citationFormat";
+
+const notebook = (cells: object[]) =>
+  Buffer.from(
+    JSON.stringify({
+      cells,
+      metadata: { language_info: { name: "python" } },
+      nbformat: 4,
+      nbformat_minor: 5,
+    }),
+  );
+
+const markdown = (source: string | string[]) => ({
+  cell_type: "markdown",
+  metadata: {},
+  source,
+});
+
+const code = (source: string | string[], outputs: object[] = []) => ({
+  cell_type: "code",
+  execution_count: 1,
+  metadata: {},
+  source,
+  outputs,
+});
+
+describe("Notebook Extractor Tests", () => {
+  const cells = [
+    markdown(["# Gradient descent\n", "\n", "![loss](attachment:loss.png)"]),
+    code(""),
+    code(
+      ["import numpy as np\n", "print(np.pi)"],
+      [{ output_type: "stream", name: "stdout", text: ["3.14159\n"] }],
+    ),
+    code("plot(loss)", [
+      {
+        output_type: "display_data",
+        data: { "image/png": "iVBORw0...", "text/plain": "<Figure>" },
+        metadata: {},
+      },
+    ]),
+    code("1 / 0", [
+      {
+        output_type: "error",
+        ename: "ZeroDivisionError",
+        evalue: "division by zero",
+        traceback: ["\u001b[0;31m---------------------------------------"],
+      },
+    ]),
+  ];
+
+  test("reads markdown and code cells, numbered by position", () => {
+    expect(extractNotebookText(notebook(cells)).cells).toEqual([
+      { cellNumber: 1, text: "# Gradient descent" },
+      {
+        cellNumber: 3,
+        text: "```python\nimport numpy as np\nprint(np.pi)\n```",
+      },
+      { cellNumber: 4, text: "```python\nplot(loss)\n```" },
+      { cellNumber: 5, text: "```python\n1 / 0\n```" },
+    ]);
+  });
+
+  test("adds text outputs when asked, leaving out images", () => {
+    const extracted = extractNotebookText(notebook(cells), {
+      includeOutputs: true,
+    });
+
+    expect(extracted.cells!.map((cell) => cell.text).slice(1)).toEqual([
+      "```python\nimport numpy as np\nprint(np.pi)\n```\n\nOutput:\n```\n3.14159\n```",
+      "```python\nplot(loss)\n```",
+      "```python\n1 / 0\n```\n\nOutput:\n```\nZeroDivisionError: division by zero\n```",
+    ]);
+  });
+
+  test("chunks along cell boundaries and cites cells", async () => {
+    const paragraph = (word: string) => `${word} `.repeat(60).trim();
+    const extracted = extractNotebookText(
+      notebook([
+        markdown("# Setup"),
+        code("def f():\n" + "    x = 1\n".repeat(40)),
+        markdown(`${paragraph("first")}\n\n${paragraph("second")}`),
+        code("f()"),
+      ]),
+    );
+
+    const chunks = await chunkExtractedText(extracted);
+
+    // The two-paragraph cell moves to a new chunk whole, rather than being
+    // split between chunks
+    expect(
+      chunks.map((chunk) => [chunk.cellStart, chunk.cellEnd, chunk.pageStart]),
+    ).toEqual([
+      [1, 2, null],
+      [3, 4, null],
+    ]);
+    expect(chunks[1].text).toMatch(/^first first/);
+    expect(formatCitationLocation(chunks[0])).toBe("cells 1-2 · Setup");
+    expect(formatCitationLocation({ cellStart: 12, cellEnd: 12 })).toBe(
+      "cell 12",
+    );
+  });
+
+  test("rejects files that aren't notebooks", () => {
+    expect(() => extractNotebookText(Buffer.from("{not json"))).toThrow(
+      "not a Jupyter notebook",
+    );
+    expect(() =>
+      extractNotebookText(Buffer.from(JSON.stringify({ worksheets: [] }))),
+    ).toThrow("supported format");
+  });
+});
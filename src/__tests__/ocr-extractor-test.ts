@@ -0,0 +1,53 @@
+/**
+ * @jest-environment node
+ */
+import { describe, test, expect } from "@jest/globals";
+import { parseTesseractTsv, summarizeOcrConfidence } from "../lib/ocrExtractor";
+
+const HEADER =
+  "level\tpage_num\tblock_num\tpar_num\tline_num\tword_num\tleft\ttop\twidth\theight\tconf\ttext";
+
+// One TSV row of a recognized word
+const word = (
+  block: number,
+  paragraph: number,
+  line: number,
+  conf: number,
+  text: string,
+) => `5\t1\t${block}\t${paragraph}\t${line}\t1\t0\t0\t10\t10\t${conf}\t${text}`;
+
+describe("OCR Extractor Tests", () => {
+  test("rebuilds lines and paragraphs from Tesseract output", () => {
+    const tsv = [
+      HEADER,
+      "1\t1\t0\t0\t0\t0\t0\t0\t800\t600\t-1\t",
+      word(1, 1, 1, 96, "Chain"),
+      word(1, 1, 1, 94, "rule"),
+      word(1, 1, 2, 90, "(f∘g)'"),
+      word(1, 1, 2, 80, "="),
+      "4\t1\t2\t1\t1\t0\t0\t0\t100\t10\t-1\t",
+      word(2, 1, 1, 70, "Homework"),
+      word(2, 1, 1, 95, " "),
+      "",
+    ].join("\n");
+
+    expect(parseTesseractTsv(tsv)).toEqual({
+      text: "Chain rule\n(f∘g)' =\n\nHomework",
+      confidence: 0.86,
+    });
+  });
+
+  test("scores empty pages as unreadable", () => {
+    expect(parseTesseractTsv(HEADER)).toEqual({ text: "", confidence: 0 });
+  });
+
+  test("stores confidence only for pages read by OCR", () => {
+    expect(
+      summarizeOcrConfidence([
+        { pageNumber: 1, text: "Typed page" },
+        { pageNumber: 2, text: "Scanned page", confidence: 0.91 },
+      ]),
+    ).toBe('{"2":0.91}');
+    expect(summarizeOcrConfidence([{ pageNumber: 1, text: "" }])).toBeNull();
+  });
+});
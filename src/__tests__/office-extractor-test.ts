@@ -0,0 +1,211 @@
+/**
+ * @jest-environment node
+ */
+import { describe, test, expect } from "@jest/globals";
+import { deflateRawSync } from "zlib";
+import { extractOfficeText } from "../lib/officeExtractor";
+import { chunkExtractedText } from "../lib/chunker";
+
+const W =
+  'xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"';
+const P =
+  'xmlns:p="http://schemas.openxmlformats.org/presentationml/2006/main" xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"';
+const REL =
+  "http://schemas.openxmlformats.org/officeDocument/2006/relationships";
+
+/**
+ * Build a ZIP archive of deflated files (CRCs are left out; they aren't checked)
+ */
+function zip(files: Record<string, string>): Buffer {
+  const locals: Buffer[] = [];
+  const entries: Buffer[] = [];
+  let offset = 0;
+
+  for (const [name, content] of Object.entries(files)) {
+    const nameBytes = Buffer.from(name);
+    const data = deflateRawSync(Buffer.from(content));
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(8, 8);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(content.length, 22);
+    local.writeUInt16LE(nameBytes.length, 26);
+    locals.push(local, nameBytes, data);
+
+    const entry = Buffer.alloc(46);
+    entry.writeUInt32LE(0x02014b50, 0);
+    entry.writeUInt16LE(8, 10);
+    entry.writeUInt32LE(data.length, 20);
+    entry.writeUInt32LE(content.length, 24);
+    entry.writeUInt16LE(nameBytes.length, 28);
+    entry.writeUInt32LE(offset, 42);
+    entries.push(entry, nameBytes);
+
+    offset += local.length + nameBytes.length + data.length;
+  }
+
+  const directory = Buffer.concat(entries);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(Object.keys(files).length, 8);
+  end.writeUInt16LE(Object.keys(files).length, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...locals, directory, end]);
+}
+
+const paragraph = (text: string, properties = "") =>
+  `<w:p><w:pPr>${properties}</w:pPr><w:r><w:t xml:space="preserve">${text}</w:t></w:r></w:p>`;
+
+describe("Office Extractor Tests", () => {
+  test("reads Word headings, lists and tables, page by page", async () => {
+    const docx = zip({
+      "word/document.xml": `<w:document ${W}><w:body>
+        ${paragraph("Problem Set 3", '<w:pStyle w:val="Title"/>')}
+        ${paragraph("1. Limits", '<w:pStyle w:val="Heading1"/>')}
+        ${paragraph("Evaluate each limit.")}
+        ${paragraph("Use L'Hôpital's rule", '<w:numPr><w:ilvl w:val="0"/><w:numId w:val="1"/></w:numPr>')}
+        <w:tbl>
+          <w:tr><w:tc>${paragraph("Function")}</w:tc><w:tc>${paragraph("Limit")}</w:tc></w:tr>
+          <w:tr><w:tc>${paragraph("sin x / x")}</w:tc><w:tc>${paragraph("1")}</w:tc></w:tr>
+        </w:tbl>
+        <w:p><w:r><w:lastRenderedPageBreak/><w:t>2. Derivatives</w:t></w:r></w:p>
+      </w:body></w:document>`,
+      "word/styles.xml": `<w:styles ${W}>
+        <w:style w:type="paragraph" w:styleId="Title"><w:name w:val="Title"/></w:style>
+        <w:style w:type="paragraph" w:styleId="Heading1"><w:name w:val="heading 1"/></w:style>
+      </w:styles>`,
+    });
+
+    const extracted = extractOfficeText("docx", docx);
+
+    expect(extracted.pages).toHaveLength(2);
+    expect(extracted.pages![0].text).toBe(
+      [
+        "# Problem Set 3",
+        "# 1. Limits",
+        "Evaluate each limit.",
+        "- Use L'Hôpital's rule",
+        "| Function | Limit |\n| --- | --- |\n| sin x / x | 1 |",
+      ].join("\n\n"),
+    );
+    expect(extracted.pages![1]).toEqual({
+      pageNumber: 2,
+      text: "2. Derivatives",
+    });
+
+    const chunks = await chunkExtractedText(extracted);
+    expect(chunks[0].sectionHeading).toBe("Problem Set 3");
+    expect(chunks[chunks.length - 1].pageEnd).toBe(2);
+  });
+
+  test("reads slides in order with their titles, tables and speaker notes", () => {
+    const slide = (title: string, body: string) =>
+      `<p:sld ${P}><p:cSld><p:spTree>
+        <p:sp><p:nvSpPr><p:nvPr><p:ph type="title"/></p:nvPr></p:nvSpPr>
+          <p:txBody><a:p><a:r><a:t>${title}</a:t></a:r></a:p></p:txBody></p:sp>
+        ${body}
+      </p:spTree></p:cSld></p:sld>`;
+
+    const pptx = zip({
+      "ppt/presentation.xml": `<p:presentation ${P}><p:sldIdLst>
+        <p:sldId id="256" r:id="rId3"/><p:sldId id="257" r:id="rId2"/>
+      </p:sldIdLst></p:presentation>`,
+      "ppt/_rels/presentation.xml.rels": `<Relationships>
+        <Relationship Id="rId2" Type="${REL}/slide" Target="slides/slide1.xml"/>
+        <Relationship Id="rId3" Type="${REL}/slide" Target="slides/slide2.xml"/>
+      </Relationships>`,
+      "ppt/slides/slide2.xml": slide(
+        "Limits",
+        `<p:sp><p:nvSpPr><p:nvPr><p:ph idx="1"/></p:nvPr></p:nvSpPr><p:txBody>
+          <a:p><a:r><a:t>Squeeze theorem</a:t></a:r></a:p>
+          <a:p><a:pPr lvl="1"/><a:r><a:t>Bound from both sides</a:t></a:r></a:p>
+        </p:txBody></p:sp>
+        <p:sp><p:nvSpPr><p:nvPr><p:ph type="sldNum"/></p:nvPr></p:nvSpPr>
+          <p:txBody><a:p><a:r><a:t>1</a:t></a:r></a:p></p:txBody></p:sp>`,
+      ),
+      "ppt/slides/_rels/slide2.xml.rels": `<Relationships>
+        <Relationship Id="rId1" Type="${REL}/notesSlide" Target="../notesSlides/notesSlide1.xml"/>
+      </Relationships>`,
+      "ppt/notesSlides/notesSlide1.xml": `<p:notes ${P}><p:cSld><p:spTree>
+        <p:sp><p:nvSpPr><p:nvPr><p:ph type="body"/></p:nvPr></p:nvSpPr>
+          <p:txBody><a:p><a:r><a:t>Draw the graph first.</a:t></a:r></a:p></p:txBody></p:sp>
+      </p:spTree></p:cSld></p:notes>`,
+      "ppt/slides/slide1.xml": slide(
+        "Summary",
+        `<p:graphicFrame><a:graphic><a:graphicData><a:tbl>
+          <a:tr><a:tc><a:txBody><a:p><a:r><a:t>Rule</a:t></a:r></a:p></a:txBody></a:tc></a:tr>
+          <a:tr><a:tc><a:txBody><a:p><a:r><a:t>Chain</a:t></a:r></a:p></a:txBody></a:tc></a:tr>
+        </a:tbl></a:graphicData></a:graphic></p:graphicFrame>`,
+      ),
+    });
+
+    expect(extractOfficeText("pptx", pptx).pages).toEqual([
+      {
+        pageNumber: 1,
+        text: "# Limits\n\nSqueeze theorem\n  Bound from both sides\n\nSpeaker notes:\nDraw the graph first.",
+      },
+      {
+        pageNumber: 2,
+        text: "# Summary\n\n| Rule |\n| --- |\n| Chain |",
+      },
+    ]);
+  });
+
+  test("reads each sheet as a table, keeping cells in their columns", () => {
+    const xlsx = zip({
+      "xl/workbook.xml": `<workbook xmlns:r="${REL}"><sheets>
+        <sheet name="Grades" sheetId="1" r:id="rId1"/>
+        <sheet name="Empty" sheetId="2" r:id="rId2"/>
+      </sheets></workbook>`,
+      "xl/_rels/workbook.xml.rels": `<Relationships>
+        <Relationship Id="rId1" Type="${REL}/worksheet" Target="worksheets/sheet1.xml"/>
+        <Relationship Id="rId2" Type="${REL}/worksheet" Target="/xl/worksheets/sheet2.xml"/>
+      </Relationships>`,
+      "xl/sharedStrings.xml": `<sst><si><t>Student</t></si><si><r><t>Sco</t></r><r><t>re</t></r></si></sst>`,
+      "xl/worksheets/sheet1.xml": `<worksheet><sheetData>
+        <row r="1"><c r="A1" t="s"><v>0</v></c><c r="B1" t="s"><v>1</v></c></row>
+        <row r="2"/>
+        <row r="3"><c r="A3" t="inlineStr"><is><t>Ada</t></is></c><c r="C3"><v>92.5</v></c></row>
+      </sheetData></worksheet>`,
+      "xl/worksheets/sheet2.xml": "<worksheet><sheetData/></worksheet>",
+    });
+
+    const extracted = extractOfficeText("xlsx", xlsx);
+
+    expect(extracted.pages).toEqual([
+      {
+        pageNumber: 1,
+        text: "# Grades\n\n| Student | Score |  |\n| --- | --- | --- |\n| Ada |  | 92.5 |",
+      },
+      { pageNumber: 2, text: "" },
+    ]);
+    expect(extracted.text).toBe(extracted.pages![0].text);
+  });
+
+  test("rejects files that aren't Office documents", () => {
+    expect(() =>
+      extractOfficeText("docx", Buffer.from("%PDF-1.4 not a zip")),
+    ).toThrow("not an Office document");
+  });
+
+  test("rejects parts that inflate past the size limit", () => {
+    const docx = zip({ "word/document.xml": `<w:document ${W}/>` });
+    // Record a 5 GB part in the central directory
+    const entry = docx.lastIndexOf(Buffer.from([0x50, 0x4b, 0x01, 0x02]));
+    docx.writeUInt32LE(0xffffffff, entry + 24);
+
+    expect(() => extractOfficeText("docx", docx)).toThrow(
+      "word/document.xml is over 64 MB uncompressed",
+    );
+
+    // A recorded size can be forged; inflating stops at the limit anyway
+    const bomb = zip({ "word/document.xml": " ".repeat(65 * 1024 * 1024) });
+    const bombEntry = bomb.lastIndexOf(Buffer.from([0x50, 0x4b, 0x01, 0x02]));
+    bomb.writeUInt32LE(1024, bombEntry + 24);
+
+    expect(() => extractOfficeText("docx", bomb)).toThrow("too large to read");
+  });
+});
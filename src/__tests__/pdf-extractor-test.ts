@@ -0,0 +1,33 @@
+/**
+ * @jest-environment node
+ */
+import { describe, test, expect } from "@jest/globals";
+import fs from "fs";
+import path from "path";
+import { extractPdfPages, findEmptyPages } from "../lib/pdfExtractor";
+
+describe("PDF Extractor Tests", () => {
+  test("extracts text page by page without calling OpenAI", async () => {
+    const buffer = fs.readFileSync(
+      path.join(__dirname, "../../uploads/test.pdf"),
+    );
+
+    const pages = await extractPdfPages(buffer);
+
+    expect(pages).toHaveLength(2);
+    expect(pages[0].pageNumber).toBe(1);
+    expect(pages[0].text).toContain("Test PDF Document");
+    expect(pages[1].pageNumber).toBe(2);
+    expect(pages[1].text).toContain("Second Page");
+  });
+
+  test("reports pages without a text layer", () => {
+    const pages = [
+      { pageNumber: 1, text: "Lecture 1" },
+      { pageNumber: 2, text: "  \n " },
+      { pageNumber: 3, text: "" },
+    ];
+
+    expect(findEmptyPages(pages)).toEqual([2, 3]);
+  });
+});
@@ -0,0 +1,89 @@
+/**
+ * @jest-environment node
+ */
+import { describe, test, expect, afterEach } from "@jest/globals";
+import { getSearchQueries, rewriteQuery } from "../lib/queryRewriter";
+import {
+  CompletionRequest,
+  getLLMProvider,
+  LLMProvider,
+} from "../lib/llmProvider";
+
+// Provider answering every completion with a fixed reply
+const replyingWith = (...replies: string[]) => {
+  const requests: CompletionRequest[] = [];
+  const provider: LLMProvider = {
+    ...getLLMProvider({ llmProvider: "mock" }),
+    async complete(request) {
+      requests.push(request);
+      return replies[requests.length - 1] ?? "";
+    },
+  };
+  return { provider, requests };
+};
+
+const history = [
+  {
+    role: "user" as const,
+    content: "What are the two main sorting algorithms?",
+  },
+  { role: "assistant" as const, content: "Quicksort and mergesort." },
+];
+
+describe("Query Rewriter Tests", () => {
+  afterEach(() => {
+    delete process.env.QUERY_SUBQUERIES;
+    delete process.env.QUERY_HYDE;
+  });
+
+  test("leaves a first message alone without calling the model", async () => {
+    const { provider, requests } = replyingWith();
+    const rewritten = await rewriteQuery("What is quicksort?", [], provider);
+
+    expect(rewritten.query).toBe("What is quicksort?");
+    expect(requests).toHaveLength(0);
+  });
+
+  test("resolves follow-ups using the conversation", async () => {
+    const { provider, requests } = replyingWith(
+      '{"query": "mergesort time complexity", "subQueries": []}',
+    );
+    const rewritten = await rewriteQuery(
+      "what about the second one?",
+      history,
+      provider,
+    );
+
+    expect(rewritten.query).toBe("mergesort time complexity");
+    expect(requests[0].messages[1].content).toContain(
+      "Quicksort and mergesort.",
+    );
+    expect(getSearchQueries(rewritten)).toEqual(["mergesort time complexity"]);
+  });
+
+  test("falls back to the raw message on an unusable reply", async () => {
+    const rewritten = await rewriteQuery(
+      "what about the second one?",
+      history,
+      getLLMProvider({ llmProvider: "mock" }),
+    );
+
+    expect(rewritten.query).toBe("what about the second one?");
+  });
+
+  test("adds sub-queries and a hypothetical answer when enabled", async () => {
+    process.env.QUERY_SUBQUERIES = "1";
+    process.env.QUERY_HYDE = "true";
+    const { provider } = replyingWith(
+      '{"query": "quicksort vs mergesort", "subQueries": ["quicksort pivot", "mergesort merge step"]}',
+      "Quicksort partitions around a pivot.",
+    );
+    const rewritten = await rewriteQuery("compare them", history, provider);
+
+    expect(getSearchQueries(rewritten)).toEqual([
+      "quicksort vs mergesort",
+      "quicksort pivot",
+      "Quicksort partitions around a pivot.",
+    ]);
+  });
+});
@@ -0,0 +1,81 @@
+/**
+ * @jest-environment node
+ */
+import { describe, test, expect } from "@jest/globals";
+import { dedupeResults, rerankResults, selectWithMmr } from "../lib/reranker";
+import { getLLMProvider } from "../lib/llmProvider";
+import { SearchResult } from "../lib/semanticSearch";
+
+const result = (
+  chunkId: string,
+  documentId: string,
+  charStart: number,
+  embedding: number[],
+  score: number,
+): SearchResult => ({
+  chunkId,
+  documentId,
+  chunk: `Chunk ${chunkId}`,
+  similarity: 0,
+  score,
+  chunkIndex: 0,
+  charStart,
+  charEnd: charStart + 1000,
+  pageStart: null,
+  pageEnd: null,
+  cellStart: null,
+  cellEnd: null,
+  timeStart: null,
+  timeEnd: null,
+  sectionHeading: null,
+  embedding,
+});
+
+describe("Reranker Tests", () => {
+  test("drops chunks overlapping a better-ranked chunk of the same document", () => {
+    const results = [
+      result("a", "doc1", 0, [1, 0], 0.9),
+      result("b", "doc1", 200, [1, 0], 0.8),
+      result("c", "doc2", 200, [1, 0], 0.7),
+      result("d", "doc1", 1000, [1, 0], 0.6),
+    ];
+
+    expect(dedupeResults(results).map((r) => r.chunkId)).toEqual([
+      "a",
+      "c",
+      "d",
+    ]);
+  });
+
+  test("MMR prefers a different passage over a near copy", () => {
+    const results = [
+      result("a", "doc1", 0, [1, 0], 0),
+      result("b", "doc1", 2000, [0.99, 0.1], 0),
+      result("c", "doc2", 0, [0, 1], 0),
+    ];
+
+    expect(
+      selectWithMmr(results, [1, 0.95, 0.8], 2, 0.7).map((r) => r.chunkId),
+    ).toEqual(["a", "c"]);
+    expect(
+      selectWithMmr(results, [1, 0.95, 0.8], 2, 1).map((r) => r.chunkId),
+    ).toEqual(["a", "b"]);
+  });
+
+  test("keeps the search order when the LLM reply can't be parsed", async () => {
+    process.env.RERANKER = "llm";
+    const results = [
+      result("a", "doc1", 0, [1, 0], 0.9),
+      result("b", "doc2", 0, [0, 1], 0.5),
+    ];
+
+    // The mock provider never answers with scores
+    const reranked = await rerankResults("limits", results, {
+      limit: 1,
+      llm: getLLMProvider({ llmProvider: "mock" }),
+    });
+    delete process.env.RERANKER;
+
+    expect(reranked.map((r) => r.chunkId)).toEqual(["a"]);
+  });
+});
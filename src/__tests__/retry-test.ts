@@ -0,0 +1,60 @@
+/**
+ * @jest-environment node
+ */
+import { describe, test, expect } from "@jest/globals";
+import { isRateLimitError, withRetry } from "../lib/retry";
+
+const rateLimited = () => Object.assign(new Error("429"), { status: 429 });
+
+describe("Retry Tests", () => {
+  test("recognizes rate limit errors", () => {
+    expect(isRateLimitError(rateLimited())).toBe(true);
+    expect(isRateLimitError({ response: { status: 429 } })).toBe(true);
+    expect(isRateLimitError(new Error("Rate limit reached"))).toBe(true);
+    expect(isRateLimitError(new Error("Invalid API key"))).toBe(false);
+    expect(isRateLimitError(undefined)).toBe(false);
+  });
+
+  test("retries rate-limited calls until they succeed", async () => {
+    let calls = 0;
+    const result = await withRetry(
+      async () => {
+        calls++;
+        if (calls < 3) throw rateLimited();
+        return "embedded";
+      },
+      { baseDelayMs: 1 },
+    );
+
+    expect(result).toBe("embedded");
+    expect(calls).toBe(3);
+  });
+
+  test("gives up after the configured retries", async () => {
+    let calls = 0;
+    await expect(
+      withRetry(
+        async () => {
+          calls++;
+          throw rateLimited();
+        },
+        { retries: 2, baseDelayMs: 1 },
+      ),
+    ).rejects.toThrow("429");
+    expect(calls).toBe(3);
+  });
+
+  test("does not retry other errors", async () => {
+    let calls = 0;
+    await expect(
+      withRetry(
+        async () => {
+          calls++;
+          throw new Error("Invalid API key");
+        },
+        { baseDelayMs: 1 },
+      ),
+    ).rejects.toThrow("Invalid API key");
+    expect(calls).toBe(1);
+  });
+});
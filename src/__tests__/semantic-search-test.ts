@@ -0,0 +1,68 @@
+/**
+ * @jest-environment node
+ */
+import { describe, test, expect, jest } from "@jest/globals";
+import { semanticSearch } from "../lib/semanticSearch";
+
+// Nearest chunks from the course index, most similar first
+const mockVectorMatches = [
+  { id: "chunk-1", similarity: 0.9 },
+  { id: "chunk-2", similarity: 0.3 },
+  { id: "chunk-3", similarity: 0.7 },
+  { id: "chunk-4", similarity: 0.6 },
+];
+
+jest.mock("../lib/vectorIndex", () => ({
+  searchVectorIndex: async () => mockVectorMatches,
+  searchKeywordIndex: async () => [],
+}));
+
+jest.mock("@prisma/client", () => ({
+  PrismaClient: jest.fn(() => ({
+    document: { findMany: async () => [{ id: "document-1" }] },
+    course: {
+      findUnique: async () => ({ embeddingModel: null, lexicalWeight: 0 }),
+    },
+    vectorStore: {
+      findMany: async ({ where }: { where: { id: { in: string[] } } }) =>
+        where.id.in.map((id) => ({
+          id,
+          documentId: "document-1",
+          chunk: `Text of ${id}`,
+          embedding: "[1, 0]",
+          chunkIndex: 0,
+          charStart: null,
+          charEnd: null,
+          pageStart: null,
+          pageEnd: null,
+          cellStart: null,
+          cellEnd: null,
+          timeStart: null,
+          timeEnd: null,
+          sectionHeading: null,
+        })),
+    },
+  })),
+}));
+
+describe("Semantic Search Tests", () => {
+  test("returns the best chunks up to the limit", async () => {
+    const results = await semanticSearch("limits", "course-1", 2);
+
+    expect(results.map((result) => result.chunkId)).toEqual([
+      "chunk-1",
+      "chunk-2",
+    ]);
+  });
+
+  test("replaces chunks below the similarity threshold with the next best", async () => {
+    const results = await semanticSearch("limits", "course-1", 2, {
+      minSimilarity: 0.5,
+    });
+
+    expect(results.map((result) => result.chunkId)).toEqual([
+      "chunk-1",
+      "chunk-3",
+    ]);
+  });
+});
@@ -0,0 +1,44 @@
+/**
+ * @jest-environment node
+ */
+import { describe, test, expect } from "@jest/globals";
+import {
+  formatServerSentEvent,
+  readServerSentEvents,
+  ServerSentEvent,
+} from "../lib/sse";
+
+describe("Server-Sent Events Tests", () => {
+  test("events survive being split across network chunks", async () => {
+    const payload =
+      formatServerSentEvent("token", { content: "Hel" }) +
+      formatServerSentEvent("token", { content: "lo" }) +
+      formatServerSentEvent("done", { id: "msg-1", content: "Hello" });
+
+    // Cut the payload at awkward points to mimic a real stream
+    const encoder = new TextEncoder();
+    const body = new ReadableStream({
+      start(controller) {
+        for (let i = 0; i < payload.length; i += 7) {
+          controller.enqueue(encoder.encode(payload.slice(i, i + 7)));
+        }
+        controller.close();
+      },
+    });
+
+    const events: ServerSentEvent[] = [];
+    await readServerSentEvents(new Response(body), (event) =>
+      events.push(event),
+    );
+
+    expect(events.map((event) => event.event)).toEqual([
+      "token",
+      "token",
+      "done",
+    ]);
+    expect(JSON.parse(events[2].data)).toEqual({
+      id: "msg-1",
+      content: "Hello",
+    });
+  });
+});
@@ -0,0 +1,84 @@
+/**
+ * @jest-environment node
+ */
+import { describe, test, expect } from "@jest/globals";
+import { extractTextFile } from "../lib/textExtractor";
+
+const read = (type: "md" | "html" | "tex" | "txt", source: string) =>
+  extractTextFile(type, Buffer.from(source)).text;
+
+describe("Text Extractor Tests", () => {
+  test("turns underlined Markdown headings into # headings", () => {
+    expect(
+      read(
+        "md",
+        "Limits\r\n======\r\n\r\nIntro\r\n\r\nSqueeze\r\n-------\r\n\r\n```\r\nnot\r\n---\r\n```",
+      ),
+    ).toBe("# Limits\n\nIntro\n\n## Squeeze\n\n```\nnot\n---\n```");
+  });
+
+  test("keeps the structure of HTML pages", () => {
+    const html = `<html><head><title>Notes</title><script>alert(1)</script></head>
+      <body><nav><a href="/">Home</a></nav>
+        <h1>Week 2</h1>
+        <p>The <em>chain</em> rule:
+          <math display="block"><semantics><mrow></mrow>
+            <annotation encoding="application/x-tex">(f \\circ g)' = f'(g) g'</annotation>
+          </semantics></math></p>
+        <ul><li>Practice<ul><li>Problem 1</li></ul></li></ul>
+        <table><tr><th>Rule</th></tr><tr><td>Product</td></tr></table>
+        <pre>def f(x):
+
+    return x</pre>
+      </body></html>`;
+
+    expect(read("html", html)).toBe(
+      [
+        "Home",
+        "# Week 2",
+        "The chain rule: $$ (f \\circ g)' = f'(g) g' $$",
+        "- Practice",
+        "  - Problem 1",
+        "| Rule |\n| --- |\n| Product |",
+        "```\ndef f(x):\n\n    return x\n```",
+      ].join("\n\n"),
+    );
+  });
+
+  test("turns LaTeX sections into headings and keeps math as written", () => {
+    const tex = String.raw`\documentclass{article}
+\title{Calculus Notes}
+\begin{document}
+\maketitle
+\section{Limits} % first topic
+A limit, at 50\% effort:
+\begin{equation}
+  \lim_{x \to 0} \frac{\sin x}{x} = 1
+\end{equation}
+\subsection*{Squeeze theorem}
+Bound it.
+\end{document}`;
+
+    expect(read("tex", tex)).toBe(
+      [
+        "# Calculus Notes",
+        "## Limits",
+        String.raw`A limit, at 50\% effort:
+\begin{equation}
+  \lim_{x \to 0} \frac{\sin x}{x} = 1
+\end{equation}`,
+        "### Squeeze theorem",
+        "Bound it.",
+      ].join("\n\n"),
+    );
+  });
+
+  test("marks text for chunking by section", () => {
+    const extracted = extractTextFile(
+      "txt",
+      Buffer.from("\uFEFFPlain notes\n"),
+    );
+
+    expect(extracted).toEqual({ text: "Plain notes", structured: true });
+  });
+});
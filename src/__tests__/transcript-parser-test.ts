@@ -0,0 +1,93 @@
+/**
+ * @jest-environment node
+ */
+import { describe, test, expect } from "@jest/globals";
+import {
+  extractTranscriptText,
+  findCueAt,
+  formatTimestamp,
+  parseCaptions,
+} from "../lib/transcriptParser";
+import { chunkExtractedText } from "../lib/chunker";
+import { formatCitationSource } from "../lib/citationFormat";
+
+describe("Transcript Parser Tests", () => {
+  test("reads WebVTT cues without headers, notes or tags", () => {
+    const vtt = `WEBVTT - Lecture 7
+
+NOTE recorded in room 101
+
+STYLE
+::cue { color: white }
+
+intro
+00:00:01.000 --> 00:00:04.500 align:start
+<v Prof. Lee>Welcome back &amp; <i>good</i> morning.
+
+23:41.250 --> 23:44.000
+<c.yellow>The chain</c> rule <00:23:42.000>says`;
+
+    expect(parseCaptions(vtt)).toEqual([
+      { start: 1, end: 4.5, text: "Welcome back & good morning." },
+      { start: 1421.25, end: 1424, text: "The chain rule says" },
+    ]);
+  });
+
+  test("reads SRT cues and drops text repeated by rolling captions", () => {
+    const srt = [
+      "1\r\n00:00:00,000 --> 00:00:02,000\r\n{\\an8}Today we cover\r\nlimits",
+      "2\r\n00:00:02,000 --> 00:00:04,000\r\nlimits\r\nand continuity",
+      "3\r\n00:00:04,000 --> 00:00:04,010\r\nand continuity",
+    ].join("\r\n\r\n");
+
+    expect(parseCaptions(srt)).toEqual([
+      { start: 0, end: 2, text: "Today we cover limits" },
+      { start: 2, end: 4, text: "and continuity" },
+    ]);
+  });
+
+  test("formats and finds moments in the recording", () => {
+    expect(formatTimestamp(1421.9)).toBe("23:41");
+    expect(formatTimestamp(5)).toBe("0:05");
+    expect(formatTimestamp(3723)).toBe("1:02:03");
+
+    const cues = parseCaptions(
+      "00:10.000 --> 00:20.000\nA\n\n00:20.000 --> 00:30.000\nB",
+    );
+    expect(findCueAt(cues, 25)).toBe(1);
+    expect(findCueAt(cues, 0)).toBe(0);
+  });
+
+  test("chunks transcripts into time windows with timestamps", async () => {
+    // A cue every 10 seconds for 3 minutes
+    const vtt = Array.from({ length: 18 }, (_, i) => {
+      const start = formatTimestamp(i * 10);
+      const end = formatTimestamp(i * 10 + 10);
+      return `${start}.000 --> ${end}.000\nSentence ${i + 1}.`;
+    }).join("\n\n");
+
+    const extracted = extractTranscriptText(Buffer.from(`WEBVTT\n\n${vtt}`));
+    const chunks = await chunkExtractedText(extracted);
+
+    expect(
+      chunks.map((chunk) => [chunk.timeStart, chunk.timeEnd, chunk.pageStart]),
+    ).toEqual([
+      [0, 60, null],
+      [50, 110, null],
+      [100, 160, null],
+      [150, 180, null],
+    ]);
+    // Each chunk repeats the last cue of the one before
+    expect(chunks[1].text.split("\n")[0]).toBe("Sentence 6.");
+    expect(extracted.text.slice(chunks[1].charStart, chunks[1].charEnd)).toBe(
+      chunks[1].text,
+    );
+
+    expect(formatCitationSource("Lecture 7", { timeStart: 1421.25 })).toBe(
+      '"Lecture 7" @ 23:41',
+    );
+    expect(formatCitationSource("Lecture 2", { pageStart: 4 })).toBe(
+      '"Lecture 2" (p. 4)',
+    );
+  });
+});
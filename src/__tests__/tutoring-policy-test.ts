@@ -0,0 +1,60 @@
+/**
+ * @jest-environment node
+ */
+import { describe, test, expect } from "@jest/globals";
+import {
+  buildTutoringInstructions,
+  decideHintLevel,
+  getTutoringStrictness,
+} from "../lib/tutoringPolicy";
+
+describe("Tutoring Policy Tests", () => {
+  test("starts an assignment chat with a nudge", () => {
+    expect(decideHintLevel(0, "How do I start problem 2?", "standard")).toEqual(
+      { strictness: "standard", hintLevel: 1, solutionRequested: false },
+    );
+  });
+
+  test("moves up a level only when the student asks for more help", () => {
+    expect(
+      decideHintLevel(1, "I tried factoring, is that right?", "standard")
+        .hintLevel,
+    ).toBe(1);
+    expect(
+      decideHintLevel(1, "I'm still stuck after trying that", "standard")
+        .hintLevel,
+    ).toBe(2);
+  });
+
+  test("never goes past the course's strictness", () => {
+    expect(decideHintLevel(2, "Another hint please", "strict").hintLevel).toBe(
+      2,
+    );
+    expect(
+      decideHintLevel(3, "Another hint please", "standard").hintLevel,
+    ).toBe(3);
+    expect(decideHintLevel(3, "Another hint please", "relaxed").hintLevel).toBe(
+      4,
+    );
+  });
+
+  test("notices requests for the solution", () => {
+    const turn = decideHintLevel(0, "Just give me the answer to 3b", "strict");
+
+    expect(turn.solutionRequested).toBe(true);
+    expect(
+      buildTutoringInstructions(turn, {
+        name: "Problem Set 3",
+        documentTitle: "PSet 3.pdf",
+      }),
+    ).toMatch(
+      /"Problem Set 3"[\s\S]*"PSet 3.pdf" is the assignment itself[\s\S]*Hint level 1 of 2 \(nudge\)[\s\S]*asked for the solution/,
+    );
+  });
+
+  test("defaults unknown strictness to standard", () => {
+    expect(getTutoringStrictness(null)).toBe("standard");
+    expect(getTutoringStrictness("lenient")).toBe("standard");
+    expect(getTutoringStrictness("strict")).toBe("strict");
+  });
+});
@@ -0,0 +1,119 @@
+/**
+ * @jest-environment node
+ */
+import {
+  describe,
+  test,
+  expect,
+  beforeAll,
+  afterAll,
+  jest,
+} from "@jest/globals";
+import { PrismaClient } from "@prisma/client";
+import { getEmbeddingProvider } from "../lib/embeddingProvider";
+import {
+  markVectorIndexStale,
+  refreshVectorIndex,
+  searchVectorIndex,
+} from "../lib/vectorIndex";
+import {
+  createTestUser,
+  createTestCourse,
+  createTestDocument,
+  cleanupTestData,
+  disconnectPrisma,
+} from "../lib/test-utils";
+
+const prisma = new PrismaClient();
+const embeddings = getEmbeddingProvider("hash:hash-64");
+const chunks = Array.from(
+  { length: 40 },
+  (_, i) => `Lecture ${i} covers topic number ${i * 7} in detail`,
+);
+
+describe("Vector Index Tests", () => {
+  let courseId: string;
+
+  beforeAll(async () => {
+    // Cluster even this small course so the IVF path is exercised
+    process.env.VECTOR_INDEX_MIN_VECTORS = "10";
+
+    const testUser = await createTestUser();
+    const testCourse = await createTestCourse(testUser.id);
+    const testDocument = await createTestDocument(testCourse.id);
+    courseId = testCourse.id;
+
+    const vectors = await embeddings.embedDocuments(chunks);
+    await prisma.vectorStore.createMany({
+      data: chunks.map((chunk, i) => ({
+        documentId: testDocument.id,
+        chunk,
+        embedding: JSON.stringify(vectors[i]),
+        embeddingModel: embeddings.model,
+        embeddingDimension: vectors[i].length,
+        chunkIndex: i,
+      })),
+    });
+  });
+
+  afterAll(async () => {
+    delete process.env.VECTOR_INDEX_MIN_VECTORS;
+    await cleanupTestData();
+    await disconnectPrisma();
+    await prisma.$disconnect();
+  });
+
+  test("clusters the course and stores each vector's cluster", async () => {
+    await refreshVectorIndex(courseId, embeddings.model);
+
+    const index = await prisma.vectorIndex.findFirst({ where: { courseId } });
+    const unassigned = await prisma.vectorStore.count({
+      where: { document: { courseId }, clusterId: null },
+    });
+
+    expect(JSON.parse(index?.centroids || "[]")).toHaveLength(6);
+    expect(index?.trainedCount).toBe(40);
+    expect(unassigned).toBe(0);
+  });
+
+  test("finds the chunk matching the query", async () => {
+    const query = await embeddings.embedQuery(chunks[12]);
+    const matches = await searchVectorIndex(
+      courseId,
+      embeddings.model,
+      query,
+      3,
+    );
+
+    expect(matches.length).toBeGreaterThan(0);
+    expect(matches[0].similarity).toBeCloseTo(1);
+
+    const top = await prisma.vectorStore.findUnique({
+      where: { id: matches[0].id },
+    });
+    expect(top?.chunk).toBe(chunks[12]);
+  });
+
+  test("loads a stale index once for concurrent searches", async () => {
+    const query = await embeddings.embedQuery(chunks[3]);
+    await markVectorIndexStale(courseId);
+    const log = jest.spyOn(console, "log");
+
+    const results = await Promise.all(
+      [1, 2, 3].map(() =>
+        searchVectorIndex(courseId, embeddings.model, query, 1),
+      ),
+    );
+    const loads = log.mock.calls.filter((args) =>
+      String(args[0]).startsWith("Loaded vector index"),
+    );
+    log.mockRestore();
+
+    expect(loads).toHaveLength(1);
+    expect(results.map((matches) => matches[0].id)).toEqual([
+      results[0][0].id,
+      results[0][0].id,
+      results[0][0].id,
+    ]);
+  });
+});
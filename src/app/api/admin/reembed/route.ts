@@ -0,0 +1,89 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import { authOptions } from "../../auth/[...nextauth]/route";
+import { isAdmin } from "@/lib/admin";
+import {
+  getEmbeddingJob,
+  listEmbeddingJobs,
+  startReembedding,
+} from "@/lib/embeddingJobs";
+
+// GET /api/admin/reembed - Report progress of re-embedding jobs
+// (?jobId= for one job, ?courseId= for a course's jobs)
+export async function GET(req: Request) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session || !session.user) {
+      return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+    }
+
+    if (!isAdmin(session)) {
+      return NextResponse.json({ error: "Not authorized" }, { status: 403 });
+    }
+
+    const { searchParams } = new URL(req.url);
+    const jobId = searchParams.get("jobId");
+
+    if (jobId) {
+      const job = await getEmbeddingJob(jobId);
+      if (!job) {
+        return NextResponse.json({ error: "Job not found" }, { status: 404 });
+      }
+      return NextResponse.json(job);
+    }
+
+    const jobs = await listEmbeddingJobs(
+      searchParams.get("courseId") || undefined,
+    );
+    return NextResponse.json(jobs);
+  } catch (error) {
+    console.error("Error fetching re-embedding jobs:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch re-embedding jobs" },
+      { status: 500 },
+    );
+  }
+}
+
+// POST /api/admin/reembed - Re-embed a course, or the whole install, with a new model.
+// Unfinished jobs for the same target are resumed rather than restarted.
+export async function POST(req: Request) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session || !session.user) {
+      return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+    }
+
+    if (!isAdmin(session)) {
+      return NextResponse.json({ error: "Not authorized" }, { status: 403 });
+    }
+
+    const { courseId, model } = await req.json().catch(() => ({}));
+
+    if (
+      (courseId !== undefined && typeof courseId !== "string") ||
+      (model !== undefined && typeof model !== "string")
+    ) {
+      return NextResponse.json(
+        { error: "courseId and model must be strings" },
+        { status: 400 },
+      );
+    }
+
+    const jobs = await startReembedding({ courseId, model });
+
+    if (courseId && jobs.length === 0) {
+      return NextResponse.json({ error: "Course not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(jobs, { status: 202 });
+  } catch (error) {
+    console.error("Error starting re-embedding:", error);
+    return NextResponse.json(
+      { error: "Failed to start re-embedding" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,94 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import { PrismaClient } from "@prisma/client";
+import { authOptions } from "../../../auth/[...nextauth]/route";
+import {
+  buildChatExport,
+  CHAT_EXPORT_FORMATS,
+  ChatExportFormat,
+  getExportFileName,
+  renderChatMarkdown,
+  renderChatPdf,
+} from "@/lib/chatExport";
+
+const prisma = new PrismaClient();
+
+// GET /api/chat/[id]/export?format=md|pdf|json - Download a chat
+export async function GET(req: Request, context: { params: { id: string } }) {
+  try {
+    const params = await context.params;
+    const id = params.id;
+    const session = await getServerSession(authOptions);
+
+    if (!session || !session.user) {
+      return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+    }
+
+    const format = (new URL(req.url).searchParams.get("format") ||
+      "md") as ChatExportFormat;
+    if (!CHAT_EXPORT_FORMATS.includes(format)) {
+      return NextResponse.json(
+        { error: `Unsupported export format: ${format}` },
+        { status: 400 },
+      );
+    }
+
+    // Verify the chat exists and belongs to the user
+    const chat = await prisma.chat.findFirst({
+      where: {
+        id,
+        userId: session.user.id,
+      },
+      include: {
+        course: {
+          select: {
+            id: true,
+            name: true,
+          },
+        },
+        messages: {
+          orderBy: { createdAt: "asc" },
+          include: {
+            citations: { orderBy: { marker: "asc" } },
+          },
+        },
+      },
+    });
+
+    if (!chat) {
+      return NextResponse.json({ error: "Chat not found" }, { status: 404 });
+    }
+
+    const data = buildChatExport(chat);
+    const fileName = getExportFileName(chat.title, format);
+    console.log(
+      `Exporting chat ${id} with ${chat.messages.length} messages as ${format}`,
+    );
+
+    const body =
+      format === "json"
+        ? JSON.stringify(data, null, 2)
+        : format === "pdf"
+          ? await renderChatPdf(data)
+          : renderChatMarkdown(data);
+
+    return new Response(body, {
+      headers: {
+        "Content-Type": {
+          md: "text/markdown; charset=utf-8",
+          json: "application/json; charset=utf-8",
+          pdf: "application/pdf",
+        }[format],
+        "Content-Disposition": `attachment; filename="${fileName}"`,
+      },
+    });
+  } catch (error) {
+    console.error("Failed to export chat:", error);
+    return NextResponse.json(
+      { error: "Failed to export chat" },
+      { status: 500 },
+    );
+  } finally {
+    await prisma.$disconnect();
+  }
+}
@@ -18,11 +18,15 @@ interface MessageWithCitations {
   content: string;
   role: string;
   chatId: string;
+  parentId: string | null;
+  searchQueries: string | null;
+  groundedness: number | null;
+  unsupportedRanges: string | null;
   createdAt: Date;
   citations: Citation[];
 }
 
-// GET /api/chat/[id]/messages - Get all messages for a chat
+// GET /api/chat/[id]/messages - Get all messages for a chat, on every branch
 export async function GET(req: Request, context: { params: { id: string } }) {
   try {
     const params = await context.params;
@@ -54,11 +58,22 @@ export async function GET(req: Request, context: { params: { id: string } }) {
         createdAt: "asc",
       },
       include: {
-        citations: true,
+        citations: { orderBy: { marker: "asc" } },
       },
     });
 
-    return NextResponse.json(messages);
+    // Stored as JSON text since SQLite doesn't support array types
+    return NextResponse.json(
+      messages.map((message: MessageWithCitations) => ({
+        ...message,
+        searchQueries: message.searchQueries
+          ? JSON.parse(message.searchQueries)
+          : null,
+        unsupportedRanges: message.unsupportedRanges
+          ? JSON.parse(message.unsupportedRanges)
+          : null,
+      })),
+    );
   } catch (error) {
     console.error("Failed to fetch messages:", error);
     return NextResponse.json(
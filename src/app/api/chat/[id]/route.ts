@@ -3,19 +3,67 @@ import { getServerSession } from "next-auth/next";
 import { PrismaClient } from "@prisma/client";
 import { OpenAIEmbeddings } from "@langchain/openai";
 import { authOptions } from "../../auth/[...nextauth]/route";
-import { AIChatOptions } from "@/types/types";
-import { semanticSearch } from "@/lib/semanticSearch";
+import { AIChatOptions, Citation } from "@/types/types";
+import { mergeSearchResults, semanticSearch } from "@/lib/semanticSearch";
+import { getSearchQueries, rewriteQuery } from "@/lib/queryRewriter";
+import { rerankResults } from "@/lib/reranker";
+import { formatCitationSource } from "@/lib/citationFormat";
+import { formatServerSentEvent } from "@/lib/sse";
+import {
+  resolveCitationMarkers,
+  stripCitationMarkers,
+} from "@/lib/inlineCitations";
+import { checkGroundedness } from "@/lib/groundedness";
+import { parseDocumentScope } from "@/lib/chatScope";
+import { getBranchPath } from "@/lib/messageBranches";
+import {
+  buildTutoringInstructions,
+  getTutoringStrictness,
+  planTutoringTurn,
+  recordTutoringTurn,
+  TutoringTurn,
+} from "@/lib/tutoringPolicy";
+import {
+  buildCourseInstructions,
+  resolveCourseSettings,
+} from "@/lib/courseSettings";
+import {
+  CompletionRequest,
+  getLLMProvider,
+  LLMProvider,
+} from "@/lib/llmProvider";
+import { assembleChatContext, HistoryMessage } from "@/lib/contextBuilder";
 import axios from "axios";
-import OpenAI from "openai";
-import { ChatOpenAI } from "@langchain/openai";
 
 const prisma = new PrismaClient();
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
+
+// Retrieved passages that reached the prompt, each with the citation it becomes
+interface AnswerSources {
+  citations: Citation[];
+  passages: string[];
+}
+
+interface FinalizedAnswer {
+  content: string;
+  citations: Citation[];
+  groundedness: number | null;
+  unsupportedRanges: [number, number][];
+}
+
+// Chunks retrieved as candidates; the course settings pick how many reach
+// the prompt
+const RETRIEVAL_CANDIDATES = 20;
+// Used for any options a request leaves out
+const DEFAULT_CHAT_OPTIONS: AIChatOptions = {
+  enableWebSearch: false,
+  enableCitations: true,
+};
 
 // POST /api/chat/[id] - Send a message to the chat
 export async function POST(req: Request, context: { params: { id: string } }) {
+  // A streamed answer is saved after the response returns; the stream
+  // disconnects once it is done
+  let streaming = false;
   try {
     const params = await context.params;
     const id = params.id;
@@ -25,15 +73,39 @@ export async function POST(req: Request, context: { params: { id: string } }) {
       return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
     }
 
-    const { message, options } = await req.json();
-
-    if (!message) {
+    const {
+      message: text,
+      options: requestedOptions,
+      stream = false,
+      parentId: requestedParentId,
+      regenerate = false,
+    } = await req.json();
+    const options: AIChatOptions = {
+      ...DEFAULT_CHAT_OPTIONS,
+      ...requestedOptions,
+    };
+
+    if (!text && !regenerate) {
       return NextResponse.json(
         { error: "Message is required" },
         { status: 400 },
       );
     }
 
+    const { lexicalWeight } = options;
+    if (
+      lexicalWeight !== undefined &&
+      lexicalWeight !== null &&
+      (typeof lexicalWeight !== "number" ||
+        lexicalWeight < 0 ||
+        lexicalWeight > 1)
+    ) {
+      return NextResponse.json(
+        { error: "Keyword search weight must be a number between 0 and 1" },
+        { status: 400 },
+      );
+    }
+
     // Validate chat exists and belongs to the user
     const chat = await prisma.chat.findFirst({
       where: {
@@ -41,7 +113,9 @@ export async function POST(req: Request, context: { params: { id: string } }) {
         userId: session.user.id,
       },
       include: {
-        course: true,
+        course: { include: { settings: true } },
+        documents: { select: { id: true } },
+        assignmentDocument: { select: { title: true } },
       },
     });
 
@@ -49,57 +123,84 @@ export async function POST(req: Request, context: { params: { id: string } }) {
       return NextResponse.json({ error: "Chat not found" }, { status: 404 });
     }
 
-    // Save user message to database
-    const userMessage = await prisma.message.create({
-      data: {
-        content: message,
-        role: "user",
-        chatId: id,
-      },
+    // New messages continue the given branch, by default the latest message.
+    // An edited question is sent with the original's parent, and a
+    // regenerated answer with the question it answers.
+    const chatMessages = await prisma.message.findMany({
+      where: { chatId: id },
+      orderBy: { createdAt: "asc" },
     });
+    const parentId: string | null =
+      requestedParentId === undefined
+        ? (chatMessages[chatMessages.length - 1]?.id ?? null)
+        : requestedParentId;
+    const parent = chatMessages.find((msg) => msg.id === parentId);
 
-    // Get recent chat history for context
-    const chatHistory = await prisma.message.findMany({
-      where: {
-        chatId: id,
-      },
-      orderBy: {
-        createdAt: "asc",
-      },
-      take: 10, // Limit to 10 most recent messages
-    });
+    if (parentId && !parent) {
+      return NextResponse.json(
+        { error: "parentId must be a message in this chat" },
+        { status: 400 },
+      );
+    }
+    if (regenerate && parent?.role !== "user") {
+      return NextResponse.json(
+        { error: "Regenerating needs the question to answer as parentId" },
+        { status: 400 },
+      );
+    }
+    const message: string = regenerate ? parent!.content : text;
+
+    // Assignment chats tutor rather than solve, within the course's strictness
+    const tutoring =
+      chat.type === "assignment"
+        ? await planTutoringTurn(
+            chat.id,
+            message,
+            getTutoringStrictness(chat.course.tutoringStrictness),
+          )
+        : null;
+
+    // Save user message to database, or answer the existing one again
+    const userMessage = regenerate
+      ? parent!
+      : await prisma.message.create({
+          data: {
+            content: message,
+            role: "user",
+            chatId: id,
+            parentId,
+          },
+        });
+
+    // The turns before this question on its branch. The chat's summary covers
+    // those up to summarizedUntil, so it only applies if they're on this branch.
+    const branch = getBranchPath(chatMessages, userMessage.parentId);
+    const summarizedIndex = chat.summarizedUntil
+      ? branch.findIndex(
+          (msg) => msg.createdAt.getTime() === chat.summarizedUntil!.getTime(),
+        )
+      : -1;
+    const summary = summarizedIndex >= 0 ? chat.summary : null;
+
+    // Get the turns not yet folded into the summary, oldest first; the context
+    // builder decides how many of them fit
+    const chatHistory: HistoryMessage[] = branch
+      .slice(summarizedIndex + 1)
+      .map((msg) => ({
+        role: msg.role === "user" ? ("user" as const) : ("assistant" as const),
+        content: msg.content,
+        createdAt: msg.createdAt,
+      }));
+
+    // Pick the model provider, model and persona configured for this course
+    const settings = resolveCourseSettings(chat.course.settings);
+    const llm = getLLMProvider(chat.course, { model: settings.model });
 
     // Check if this is the first message in a general chat
-    if (chat.type === "general" && chatHistory.length === 1) {
+    if (chat.type === "general" && branch.length === 0 && !regenerate) {
       // Update the chat title based on the first message
       try {
-        const chatModel = new ChatOpenAI({
-          openAIApiKey: process.env.OPENAI_API_KEY,
-          modelName: "gpt-3.5-turbo",
-          temperature: 0.7,
-        });
-
-        const response = await chatModel.invoke([
-          [
-            "system",
-            `You are a helpful assistant that generates concise, descriptive titles for chat conversations.
-            The title should be 3-6 words and reflect the topic or question being discussed.`,
-          ],
-          [
-            "user",
-            `Generate a short, descriptive title for a chat about "${chat.course.name}" that starts with this message: "${message}"`,
-          ],
-        ]);
-
-        let title = response.content.toString().trim();
-
-        // Remove quotes if present
-        title = title.replace(/^["'](.*)["']$/, "$1");
-
-        // Truncate if too long
-        if (title.length > 50) {
-          title = title.substring(0, 47) + "...";
-        }
+        const title = await llm.generateTitle(message, chat.course.name);
 
         // Update chat title
         await prisma.chat.update({
@@ -112,184 +213,201 @@ export async function POST(req: Request, context: { params: { id: string } }) {
       }
     }
 
-    // Initialize OpenAI chat model
-    let assistantContent = "";
-    let citations: Array<{ documentId: string; sourceText: string }> = [];
+    let answer: FinalizedAnswer;
+    let searchQueries: string[] = [message];
 
     try {
-      // Prepare the context and system message
-      let systemMessage = `You are an AI course assistant for "${chat.course.name}".
+      // Prepare the system instructions; sources and history are fitted later
+      let instructions = `You are an AI course assistant for "${chat.course.name}".
 Your job is to help the student understand course materials and answer their questions.
 Be helpful, clear, and educational in your responses. Always respond based on the provided course materials when available.
 - When course materials contain information relevant to the query, base your answer primarily on that information.
 - Be specific about what the documents say rather than giving generic information.
 - When asked about an author's perspective or a paper's content, focus on the exact information from the provided document sections.`;
+      instructions += buildCourseInstructions(settings);
+
+      if (tutoring) {
+        console.log(
+          `Assignment chat ${chat.id}: hint level ${tutoring.hintLevel} (${tutoring.strictness})${tutoring.solutionRequested ? ", solution requested" : ""}`,
+        );
+        instructions += buildTutoringInstructions(tutoring, {
+          name: chat.assignmentName,
+          documentTitle: chat.assignmentDocument?.title ?? null,
+        });
+      }
 
-      // Perform semantic search to find relevant document chunks
-      const searchResults = await semanticSearch(message, chat.course.id, 5);
+      // Rewrite follow-ups into a standalone query using the earlier turns
+      const rewritten = await rewriteQuery(message, chatHistory, llm);
+      searchQueries = getSearchQueries(rewritten);
+
+      // Search for candidate chunks, then narrow them to a diverse, relevant few
+      const candidates = mergeSearchResults(
+        await Promise.all(
+          searchQueries.map((query) =>
+            semanticSearch(query, chat.course.id, RETRIEVAL_CANDIDATES, {
+              lexicalWeight: options.lexicalWeight,
+              documentIds: chat.documents.map((document) => document.id),
+              minSimilarity: settings.similarityThreshold,
+            }),
+          ),
+        ),
+      );
+      const searchResults = await rerankResults(rewritten.query, candidates, {
+        limit: settings.retrievalTopK,
+        llm,
+      });
       console.log(
         `Found ${searchResults.length} relevant documents for query: "${message}"`,
       );
 
-      // Add relevant document chunks to the context
-      if (searchResults.length > 0) {
-        const documentContexts = await Promise.all(
-          searchResults.map(async (result) => {
-            const document = await prisma.document.findUnique({
-              where: { id: result.documentId },
-              select: { title: true, id: true },
-            });
-
-            console.log(
-              `Adding document "${document?.title}" with similarity ${result.similarity}`,
-            );
-
-            // Check if the chunk contains actual content or just a placeholder
-            const hasPlaceholder =
-              result.chunk.includes("Content of") &&
-              result.chunk.includes("would be processed here");
-            const cleanContent = hasPlaceholder
-              ? `[The system found this document relevant, but actual content is not available. This may indicate the document wasn't properly processed.]`
-              : result.chunk;
-
-            return {
-              title: document?.title || "Unknown Document",
-              id: document?.id || "",
-              content: cleanContent,
-              similarity: result.similarity,
-            };
-          }),
-        );
-
-        // Add document contexts to system message
-        systemMessage +=
-          "\n\nThe following are relevant sections from course materials:\n\n";
-
-        documentContexts.forEach((doc, index) => {
-          systemMessage += `Document ${index + 1}: "${doc.title}"\n${doc.content}\n\n`;
+      const documentContexts = await Promise.all(
+        searchResults.map(async (result) => {
+          const document = await prisma.document.findUnique({
+            where: { id: result.documentId },
+            select: { title: true, id: true },
+          });
+
+          console.log(
+            `Adding document "${document?.title}" with similarity ${result.similarity}`,
+          );
+
+          // Check if the chunk contains actual content or just a placeholder
+          const hasPlaceholder =
+            result.chunk.includes("Content of") &&
+            result.chunk.includes("would be processed here");
+          const cleanContent = hasPlaceholder
+            ? `[The system found this document relevant, but actual content is not available. This may indicate the document wasn't properly processed.]`
+            : result.chunk;
+
+          const title = document?.title || "Unknown Document";
+
+          return {
+            title,
+            source: formatCitationSource(title, result),
+            id: document?.id || "",
+            content: cleanContent,
+            similarity: result.similarity,
+            chunkId: result.chunkId,
+            pageStart: result.pageStart,
+            pageEnd: result.pageEnd,
+            cellStart: result.cellStart,
+            cellEnd: result.cellEnd,
+            timeStart: result.timeStart,
+            timeEnd: result.timeEnd,
+            sectionHeading: result.sectionHeading,
+          };
+        }),
+      );
 
-          // Store document info for citations
-          if (options.enableCitations) {
-            citations.push({
-              documentId: doc.id,
-              sourceText: `From "${doc.title}":\n${doc.content}`,
-            });
-          }
-        });
-      } else {
+      if (documentContexts.length === 0) {
         console.log(
           "No relevant documents found for this query. Using general knowledge.",
         );
-        systemMessage +=
+        instructions +=
           "\n\nNo specific course materials were found for this query. I will answer based on general knowledge.";
       }
 
-      // Convert chat history to the format expected by the OpenAI API
-      const formattedMessages = [
-        { role: "system" as const, content: systemMessage },
-        ...chatHistory.map((msg) => ({
-          role:
-            msg.role === "user" ? ("user" as const) : ("assistant" as const),
-          content: msg.content,
-        })),
-      ];
-
-      // If web search is enabled, add that to system message
+      // If web search is enabled, add that to the instructions
       if (options.enableWebSearch) {
         try {
           const webResults = await performWebSearch(message);
           if (webResults) {
-            formattedMessages[0].content += `\n\nWeb search results related to the query:\n${webResults}`;
+            instructions += `\n\nWeb search results related to the query:\n${webResults}`;
           }
         } catch (error) {
           console.error("Error performing web search:", error);
         }
       }
 
-      // If citations are enabled, add instruction to add citations
-      if (options.enableCitations && citations.length > 0) {
-        formattedMessages[0].content +=
-          " Explicitly include information from the provided document sections. When referencing document content, be specific about what each document says on the topic.";
+      // If citations are enabled, ask for numbered markers we can resolve
+      if (options.enableCitations && documentContexts.length > 0) {
+        instructions +=
+          "\n\nThe course material sections below are numbered. Right after each statement that uses one, cite it by number in square brackets, e.g. [1] or [2][3]. Only cite numbers that appear below, and don't add a list of sources at the end.";
       }
 
-      // Add the current user message to the formatted messages
-      formattedMessages.push({
-        role: "user" as const,
-        content: message,
-      });
-
-      // Call the OpenAI API directly
-      const response = await openai.chat.completions.create({
-        model: "gpt-3.5-turbo",
-        messages: formattedMessages,
-        temperature: 0.7,
-        max_tokens: 1000,
+      // Fit sources and history into the model's context window, summarizing
+      // older turns when the conversation has outgrown it
+      const context = await assembleChatContext(chat.id, {
+        llm,
+        instructions,
+        sources: documentContexts.map((doc, index) => ({
+          label: `[${index + 1}] ${doc.source}${doc.id === chat.assignmentDocumentId ? " (the assignment)" : ""}`,
+          content: doc.content,
+        })),
+        summary,
+        history: chatHistory,
+        message,
       });
+      console.log(
+        `Built context of ${context.tokens} tokens with ${context.includedSources} of ${documentContexts.length} documents`,
+      );
 
-      assistantContent = response.choices[0].message.content || "";
-
-      // Process citations if enabled and found in the response
-      if (options.enableCitations && citations.length > 0) {
-        // Remove any citations we're finding in the actual database
-        // This is because we'll create proper citations in the database
-        assistantContent = assistantContent.replace(/\[.*?\]/g, "");
-
-        // Process citations for PDF documents
-        const updatedCitations = await Promise.all(
-          citations.map(async (citation) => {
-            // Get document details to identify if it's a PDF
-            const document = await prisma.document.findUnique({
-              where: { id: citation.documentId },
-              select: { type: true, processed: true, title: true },
-            });
-
-            // For PDF documents, improve the citation format
-            if (document?.type === "pdf") {
-              return {
-                documentId: citation.documentId,
-                sourceText: citation.sourceText.includes(
-                  "system found this document relevant, but actual content is not available",
-                )
-                  ? `From "${document.title}":\n${citation.sourceText}`
-                  : citation.sourceText,
-              };
-            }
-
-            return citation;
-          }),
+      // Only sources the model actually saw can back or be cited in the
+      // answer; its markers then pick which of them are kept
+      const included = documentContexts.slice(0, context.includedSources);
+      const sources: AnswerSources = {
+        citations: included.map((doc) => ({
+          documentId: doc.id,
+          sourceText: `From ${doc.source}:\n${doc.content}`,
+          chunkId: doc.chunkId,
+          pageStart: doc.pageStart,
+          pageEnd: doc.pageEnd,
+          cellStart: doc.cellStart,
+          cellEnd: doc.cellEnd,
+          timeStart: doc.timeStart,
+          timeEnd: doc.timeEnd,
+          sectionHeading: doc.sectionHeading,
+        })),
+        passages: included.map((doc) => doc.content),
+      };
+
+      // Stream tokens to the client as they are generated
+      if (stream) {
+        streaming = true;
+        return streamAssistantResponse(
+          req,
+          chat,
+          userMessage.id,
+          llm,
+          { messages: context.messages, temperature: settings.temperature },
+          sources,
+          searchQueries,
+          options,
+          tutoring,
         );
-
-        // Use updated citations
-        citations = updatedCitations;
       }
+
+      // Generate the full answer in one call
+      const response = await llm.complete({
+        messages: context.messages,
+        temperature: settings.temperature,
+      });
+
+      answer = await finalizeAnswer(response, sources, llm, options);
     } catch (error) {
-      console.error("Error calling OpenAI:", error);
-      assistantContent =
-        "I'm sorry, I encountered an error while processing your request. Please try again later.";
+      console.error(`Error calling ${llm.name} model:`, error);
+      answer = getErrorAnswer();
     }
 
     // Save assistant message to database
-    const assistantMessage = await prisma.message.create({
-      data: {
-        content: assistantContent,
-        role: "assistant",
-        chatId: id,
-        citations: {
-          create: citations.map((citation) => ({
-            documentId: citation.documentId,
-            sourceText: citation.sourceText,
-          })),
-        },
-      },
-      include: {
-        citations: true,
-      },
-    });
+    const assistantMessage = await saveAssistantMessage(
+      id,
+      userMessage.id,
+      answer,
+      searchQueries,
+    );
+    if (tutoring) {
+      await recordTutoringTurn(chat, assistantMessage.id, tutoring);
+    }
 
     return NextResponse.json({
       id: assistantMessage.id,
+      parentId: assistantMessage.parentId,
       content: assistantMessage.content,
       citations: assistantMessage.citations,
+      searchQueries,
+      groundedness: answer.groundedness,
+      unsupportedRanges: answer.unsupportedRanges,
     });
   } catch (error) {
     console.error("Failed to process chat message:", error);
@@ -298,10 +416,233 @@ Be helpful, clear, and educational in your responses. Always respond based on th
       { status: 500 },
     );
   } finally {
-    await prisma.$disconnect();
+    if (!streaming) await prisma.$disconnect();
   }
 }
 
+/**
+ * Stream the completion to the client as Server-Sent Events.
+ *
+ * Emits `token` events while generating and a final `done` event with the
+ * saved message. If the client disconnects (the stop button), generation is
+ * cancelled and whatever was produced so far is still saved.
+ */
+function streamAssistantResponse(
+  req: Request,
+  chat: {
+    id: string;
+    courseId: string;
+    userId: string;
+    assignmentName: string | null;
+  },
+  parentId: string,
+  llm: LLMProvider,
+  request: CompletionRequest,
+  sources: AnswerSources,
+  searchQueries: string[],
+  options: AIChatOptions,
+  tutoring: TutoringTurn | null,
+): Response {
+  const encoder = new TextEncoder();
+  const abortController = new AbortController();
+  req.signal.addEventListener("abort", () => abortController.abort());
+
+  const body = new ReadableStream({
+    async start(controller) {
+      const send = (event: string, data: unknown) => {
+        if (abortController.signal.aborted) return;
+        controller.enqueue(encoder.encode(formatServerSentEvent(event, data)));
+      };
+
+      let content = "";
+      try {
+        const tokens = llm.stream({
+          ...request,
+          signal: abortController.signal,
+        });
+
+        for await (const token of tokens) {
+          content += token;
+          send("token", { content: token });
+        }
+      } catch (error) {
+        if (abortController.signal.aborted) {
+          console.log(`Generation stopped by client for chat ${chat.id}`);
+        } else {
+          console.error(`Error streaming from ${llm.name} model:`, error);
+          send("error", { error: "Failed to generate a response" });
+        }
+      }
+
+      try {
+        const answer = content
+          ? await finalizeAnswer(content, sources, llm, options)
+          : getErrorAnswer();
+        const assistantMessage = await saveAssistantMessage(
+          chat.id,
+          parentId,
+          answer,
+          searchQueries,
+        );
+        if (tutoring) {
+          await recordTutoringTurn(chat, assistantMessage.id, tutoring);
+        }
+
+        send("done", {
+          id: assistantMessage.id,
+          parentId: assistantMessage.parentId,
+          content: assistantMessage.content,
+          citations: assistantMessage.citations,
+          searchQueries,
+          groundedness: answer.groundedness,
+          unsupportedRanges: answer.unsupportedRanges,
+          stopped: abortController.signal.aborted,
+        });
+      } catch (error) {
+        console.error("Failed to save streamed message:", error);
+        send("error", { error: "Failed to save the response" });
+      } finally {
+        if (!abortController.signal.aborted) controller.close();
+        await prisma.$disconnect();
+      }
+    },
+    cancel() {
+      abortController.abort();
+    },
+  });
+
+  return new Response(body, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  });
+}
+
+/**
+ * Keep only the sources the answer cites, matched through its [n] markers,
+ * and check how well the course materials back what it says
+ */
+async function finalizeAnswer(
+  content: string,
+  sources: AnswerSources,
+  llm: LLMProvider,
+  options: AIChatOptions,
+): Promise<FinalizedAnswer> {
+  const resolved =
+    options.enableCitations && sources.citations.length > 0
+      ? resolveCitationMarkers(content, sources.citations)
+      : { content: stripCitationMarkers(content), citations: [] };
+  console.log(
+    `Answer cited ${resolved.citations.length} of ${sources.citations.length} sources`,
+  );
+
+  // Process citations for PDF documents
+  const updatedCitations = await Promise.all(
+    resolved.citations.map(async (citation) => {
+      // Get document details to identify if it's a PDF
+      const document = await prisma.document.findUnique({
+        where: { id: citation.documentId },
+        select: { type: true, processed: true, title: true },
+      });
+
+      // For PDF documents, improve the citation format
+      if (document?.type === "pdf") {
+        return {
+          ...citation,
+          sourceText: citation.sourceText.includes(
+            "system found this document relevant, but actual content is not available",
+          )
+            ? `From "${document.title}":\n${citation.sourceText}`
+            : citation.sourceText,
+        };
+      }
+
+      return citation;
+    }),
+  );
+
+  const grounding = await checkGroundedness(
+    resolved.content,
+    sources.passages,
+    llm,
+  );
+  const unsupported = grounding.sentences.filter(
+    (sentence) => !sentence.supported,
+  );
+  if (grounding.score !== null) {
+    console.log(
+      `Answer groundedness ${grounding.score.toFixed(2)}, ${unsupported.length} unsupported sentences`,
+    );
+  }
+
+  return {
+    content: resolved.content,
+    citations: updatedCitations,
+    groundedness: grounding.score,
+    unsupportedRanges: unsupported.map((sentence) => [
+      sentence.start,
+      sentence.end,
+    ]),
+  };
+}
+
+/**
+ * The reply saved when no answer could be generated
+ */
+function getErrorAnswer(): FinalizedAnswer {
+  return {
+    content:
+      "I'm sorry, I encountered an error while processing your request. Please try again later.",
+    citations: [],
+    groundedness: null,
+    unsupportedRanges: [],
+  };
+}
+
+/**
+ * Save an assistant message answering `parentId` along with its citations,
+ * groundedness and the queries that retrieved its sources
+ */
+async function saveAssistantMessage(
+  chatId: string,
+  parentId: string,
+  answer: FinalizedAnswer,
+  searchQueries: string[],
+) {
+  return prisma.message.create({
+    data: {
+      content: answer.content,
+      role: "assistant",
+      searchQueries: JSON.stringify(searchQueries),
+      groundedness: answer.groundedness,
+      unsupportedRanges: JSON.stringify(answer.unsupportedRanges),
+      chatId,
+      parentId,
+      citations: {
+        create: answer.citations.map((citation) => ({
+          documentId: citation.documentId,
+          sourceText: citation.sourceText,
+          chunkId: citation.chunkId,
+          pageStart: citation.pageStart,
+          pageEnd: citation.pageEnd,
+          cellStart: citation.cellStart,
+          cellEnd: citation.cellEnd,
+          timeStart: citation.timeStart,
+          timeEnd: citation.timeEnd,
+          sectionHeading: citation.sectionHeading,
+          marker: citation.marker,
+          position: citation.position,
+        })),
+      },
+    },
+    include: {
+      citations: { orderBy: { marker: "asc" } },
+    },
+  });
+}
+
 /**
  * Perform a web search for additional information
  * Uses Google's Programmable Search API
@@ -394,6 +735,12 @@ export async function GET(req: Request, context: { params: { id: string } }) {
             name: true,
           },
         },
+        documents: {
+          select: {
+            id: true,
+            title: true,
+          },
+        },
       },
     });
 
@@ -413,6 +760,73 @@ export async function GET(req: Request, context: { params: { id: string } }) {
   }
 }
 
+// PATCH /api/chat/[id] - Change which documents a chat searches
+export async function PATCH(req: Request, context: { params: { id: string } }) {
+  try {
+    const params = await context.params;
+    const id = params.id;
+    const session = await getServerSession(authOptions);
+
+    if (!session || !session.user) {
+      return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+    }
+
+    // Verify the chat exists and belongs to the user
+    const chat = await prisma.chat.findFirst({
+      where: {
+        id,
+        userId: session.user.id,
+      },
+    });
+
+    if (!chat) {
+      return NextResponse.json({ error: "Chat not found" }, { status: 404 });
+    }
+
+    const { documentIds } = await req.json();
+    const scope = await parseDocumentScope(chat.courseId, documentIds);
+
+    if (!scope) {
+      return NextResponse.json(
+        { error: "documentIds must be a list of documents in this course" },
+        { status: 400 },
+      );
+    }
+
+    // An empty list puts the whole course back in scope
+    const updatedChat = await prisma.chat.update({
+      where: { id },
+      data: {
+        documents: { set: scope.map((documentId) => ({ id: documentId })) },
+      },
+      include: {
+        course: {
+          select: {
+            id: true,
+            name: true,
+          },
+        },
+        documents: {
+          select: {
+            id: true,
+            title: true,
+          },
+        },
+      },
+    });
+
+    return NextResponse.json(updatedChat);
+  } catch (error) {
+    console.error("Failed to update chat:", error);
+    return NextResponse.json(
+      { error: "Failed to update chat" },
+      { status: 500 },
+    );
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
 // DELETE /api/chat/[id] - Delete a chat
 export async function DELETE(
   req: Request,
@@ -0,0 +1,146 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import { PrismaClient } from "@prisma/client";
+import { authOptions } from "../../../../auth/[...nextauth]/route";
+import { ChatExportMessage, parseChatExport } from "@/lib/chatExport";
+
+const prisma = new PrismaClient();
+
+// POST /api/courses/[id]/chat/import - Create a chat from a JSON export
+export async function POST(req: Request, context: { params: { id: string } }) {
+  try {
+    const params = await context.params;
+    const id = params.id;
+    const session = await getServerSession(authOptions);
+
+    if (!session || !session.user) {
+      return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+    }
+
+    // Verify the course exists and belongs to the user
+    const course = await prisma.course.findFirst({
+      where: {
+        id,
+        userId: session.user.id,
+      },
+      include: {
+        documents: { select: { id: true } },
+      },
+    });
+
+    if (!course) {
+      return NextResponse.json({ error: "Course not found" }, { status: 404 });
+    }
+
+    const body = await req.json().catch(() => undefined);
+    if (body === undefined) {
+      return NextResponse.json({ error: "Invalid JSON" }, { status: 400 });
+    }
+
+    const data = parseChatExport(body);
+    if (!data) {
+      return NextResponse.json(
+        { error: "Not a chat export this version can read" },
+        { status: 400 },
+      );
+    }
+
+    // Citations can only point at this course's documents; others are dropped
+    const courseDocuments = new Set(course.documents.map((doc) => doc.id));
+    let droppedCitations = 0;
+    const newIds = new Map<string, string>();
+
+    // Create the chat and its messages together, so a failure partway through
+    // doesn't leave a half-imported chat. Long chats take a while.
+    const chat = await prisma.$transaction(
+      async (tx) => {
+        const chat = await tx.chat.create({
+          data: {
+            title: data.chat.title,
+            type: data.chat.type === "assignment" ? "assignment" : "general",
+            assignmentName: data.chat.assignmentName,
+            courseId: id,
+            userId: session.user.id,
+          },
+        });
+
+        // Create parents before their children, mapping exported ids to new ones
+        let pending: ChatExportMessage[] = data.messages;
+        while (pending.length > 0) {
+          const ready = pending.filter(
+            (message) => !message.parentId || newIds.has(message.parentId),
+          );
+          // Whatever is left is a cycle, which can't be a conversation
+          if (ready.length === 0) break;
+
+          for (const message of ready) {
+            const citations = message.citations.filter((citation) =>
+              courseDocuments.has(citation.documentId),
+            );
+            droppedCitations += message.citations.length - citations.length;
+
+            const created = await tx.message.create({
+              data: {
+                content: message.content,
+                role: message.role,
+                chatId: chat.id,
+                parentId: message.parentId
+                  ? newIds.get(message.parentId)
+                  : null,
+                createdAt: new Date(message.createdAt),
+                searchQueries: message.searchQueries
+                  ? JSON.stringify(message.searchQueries)
+                  : null,
+                groundedness: message.groundedness,
+                unsupportedRanges: message.unsupportedRanges
+                  ? JSON.stringify(message.unsupportedRanges)
+                  : null,
+                citations: {
+                  create: citations.map((citation) => ({
+                    documentId: citation.documentId,
+                    sourceText: citation.sourceText,
+                    pageStart: citation.pageStart,
+                    pageEnd: citation.pageEnd,
+                    cellStart: citation.cellStart ?? null,
+                    cellEnd: citation.cellEnd ?? null,
+                    timeStart: citation.timeStart ?? null,
+                    timeEnd: citation.timeEnd ?? null,
+                    sectionHeading: citation.sectionHeading,
+                    marker: citation.marker,
+                  })),
+                },
+              },
+            });
+            newIds.set(message.id, created.id);
+          }
+          pending = pending.filter((message) => !newIds.has(message.id));
+        }
+
+        return chat;
+      },
+      { timeout: 60000 },
+    );
+
+    console.log(
+      `Imported ${newIds.size} of ${data.messages.length} messages into chat ${chat.id}, dropping ${droppedCitations} citations of documents outside the course`,
+    );
+
+    return NextResponse.json(
+      {
+        ...chat,
+        importedMessages: newIds.size,
+        skippedMessages: data.messages.length - newIds.size,
+        droppedCitations,
+      },
+      { status: 201 },
+    );
+  } catch (error) {
+    console.error("Failed to import chat:", error);
+    return NextResponse.json(
+      { error: "Failed to import chat" },
+      { status: 500 },
+    );
+  } finally {
+    await prisma.$disconnect();
+  }
+}
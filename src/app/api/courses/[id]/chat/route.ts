@@ -1,56 +1,48 @@
 import { NextResponse } from "next/server";
 import { getServerSession } from "next-auth/next";
 import { PrismaClient } from "@prisma/client";
-import { ChatOpenAI } from "@langchain/openai";
 import { authOptions } from "../../../auth/[...nextauth]/route";
-import OpenAI from "openai";
+import { getLLMProvider, LLMProvider } from "@/lib/llmProvider";
+import {
+  buildCourseInstructions,
+  resolveCourseSettings,
+} from "@/lib/courseSettings";
+import { parseDocumentScope } from "@/lib/chatScope";
+import {
+  buildTutoringInstructions,
+  decideHintLevel,
+  getTutoringStrictness,
+  recordTutoringTurn,
+} from "@/lib/tutoringPolicy";
 
 const prisma = new PrismaClient();
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
 
 // Generate a title for a chat based on the first message
 async function generateChatTitle(
+  llm: LLMProvider,
   message: string,
   courseName: string,
 ): Promise<string> {
   try {
-    const chatModel = new ChatOpenAI({
-      openAIApiKey: process.env.OPENAI_API_KEY,
-      modelName: "gpt-3.5-turbo",
-      temperature: 0.7,
-    });
-
-    const response = await chatModel.invoke([
-      [
-        "system",
-        `You are a helpful assistant that generates concise, descriptive titles for chat conversations.
-        The title should be 3-6 words and reflect the topic or question being discussed.`,
-      ],
-      [
-        "user",
-        `Generate a short, descriptive title for a chat about "${courseName}" that starts with this message: "${message}"`,
-      ],
-    ]);
-
-    let title = response.content.toString().trim();
-
-    // Remove quotes if present
-    title = title.replace(/^["'](.*)["']$/, "$1");
-
-    // Truncate if too long
-    if (title.length > 50) {
-      title = title.substring(0, 47) + "...";
-    }
-
-    return title;
+    return await llm.generateTitle(message, courseName);
   } catch (error) {
     console.error("Error generating chat title:", error);
     return `Chat about ${courseName}`;
   }
 }
 
+// Give a chat that's reused instead of created the documents the request
+// asked for; without documentIds in the request it keeps its own
+async function rescopeChat(chatId: string, scope: string[] | null) {
+  if (!scope) return;
+  await prisma.chat.update({
+    where: { id: chatId },
+    data: {
+      documents: { set: scope.map((documentId) => ({ id: documentId })) },
+    },
+  });
+}
+
 // POST /api/courses/[id]/chat - Create a new chat for a course
 export async function POST(req: Request, context: { params: { id: string } }) {
   try {
@@ -69,6 +61,8 @@ export async function POST(req: Request, context: { params: { id: string } }) {
       assignmentName = null,
       firstMessage = null,
       forceNew = false,
+      documentIds = [],
+      assignmentDocumentId = null,
     } = body;
 
     // Verify the course exists and belongs to the user
@@ -77,12 +71,37 @@ export async function POST(req: Request, context: { params: { id: string } }) {
         id: id,
         userId: session.user.id,
       },
+      include: { settings: true },
     });
 
     if (!course) {
       return NextResponse.json({ error: "Course not found" }, { status: 404 });
     }
 
+    // Documents the chat will search; none means the whole course
+    const scope = await parseDocumentScope(id, documentIds);
+    if (!scope) {
+      return NextResponse.json(
+        { error: "documentIds must be a list of documents in this course" },
+        { status: 400 },
+      );
+    }
+
+    const requestedScope = body.documentIds === undefined ? null : scope;
+
+    // The assignment the tutor must not solve, if one was picked
+    if (
+      assignmentDocumentId !== null &&
+      !(await parseDocumentScope(id, [assignmentDocumentId]))
+    ) {
+      return NextResponse.json(
+        { error: "assignmentDocumentId must be a document in this course" },
+        { status: 400 },
+      );
+    }
+
+    const settings = resolveCourseSettings(course.settings);
+    const llm = getLLMProvider(course, { model: settings.model });
     let chatTitle = title;
     let chat;
 
@@ -105,6 +124,7 @@ export async function POST(req: Request, context: { params: { id: string } }) {
       });
 
       if (existingChat) {
+        await rescopeChat(existingChat.id, requestedScope);
         return NextResponse.json(existingChat);
       }
     }
@@ -127,6 +147,7 @@ export async function POST(req: Request, context: { params: { id: string } }) {
       });
 
       if (existingChat) {
+        await rescopeChat(existingChat.id, requestedScope);
         return NextResponse.json(existingChat);
       }
     }
@@ -135,13 +156,14 @@ export async function POST(req: Request, context: { params: { id: string } }) {
       if (type === "general") {
         // Use a temporary title for general chats until the first message is sent
         if (firstMessage) {
-          chatTitle = await generateChatTitle(firstMessage, course.name);
+          chatTitle = await generateChatTitle(llm, firstMessage, course.name);
         } else {
           chatTitle = `General Chat - ${course.name}`;
         }
       } else if (firstMessage) {
         // For assignment chats, generate title from first message if available
         chatTitle = await generateChatTitle(
+          llm,
           firstMessage,
           assignmentName ? `${course.name} (${assignmentName})` : course.name,
         );
@@ -163,8 +185,13 @@ export async function POST(req: Request, context: { params: { id: string } }) {
         title: chatTitle,
         type,
         assignmentName: type === "assignment" ? assignmentName : null,
+        assignmentDocumentId:
+          type === "assignment" ? assignmentDocumentId : null,
         courseId: id,
         userId: session.user.id,
+        documents: {
+          connect: scope.map((documentId) => ({ id: documentId })),
+        },
       },
       include: {
         course: {
@@ -172,6 +199,11 @@ export async function POST(req: Request, context: { params: { id: string } }) {
             name: true,
           },
         },
+        assignmentDocument: {
+          select: {
+            title: true,
+          },
+        },
         _count: {
           select: {
             messages: true,
@@ -192,29 +224,47 @@ export async function POST(req: Request, context: { params: { id: string } }) {
 
       // Automatically generate an AI response to the first message
       try {
-        const systemMessage = `You are a helpful assistant for a course titled "${chat.course.name}".
+        let systemMessage = `You are a helpful assistant for a course titled "${chat.course.name}".
           Provide relevant information and assistance related to the course content and topics.`;
+        systemMessage += buildCourseInstructions(settings);
 
-        // Call the OpenAI API
-        const response = await openai.chat.completions.create({
-          model: "gpt-3.5-turbo",
+        // Assignment chats tutor rather than solve from the first message on
+        const tutoring =
+          chat.type === "assignment"
+            ? decideHintLevel(
+                0,
+                firstMessage,
+                getTutoringStrictness(course.tutoringStrictness),
+              )
+            : null;
+        if (tutoring) {
+          systemMessage += buildTutoringInstructions(tutoring, {
+            name: chat.assignmentName,
+            documentTitle: chat.assignmentDocument?.title ?? null,
+          });
+        }
+
+        // Call the course's model provider
+        const assistantContent = await llm.complete({
           messages: [
             { role: "system", content: systemMessage },
             { role: "user", content: firstMessage },
           ],
-          temperature: 0.7,
-          max_tokens: 1000,
+          temperature: settings.temperature,
         });
 
         // Save the AI response
-        const assistantContent = response.choices[0].message.content || "";
-        await prisma.message.create({
+        const assistantMessage = await prisma.message.create({
           data: {
             content: assistantContent,
             role: "assistant",
             chatId: chat.id,
+            parentId: userMsg.id,
           },
         });
+        if (tutoring) {
+          await recordTutoringTurn(chat, assistantMessage.id, tutoring);
+        }
       } catch (error) {
         console.error("Failed to generate AI response:", error);
         // Continue even if AI response fails - user can retry later
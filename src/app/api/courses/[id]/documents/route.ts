@@ -78,7 +78,7 @@ export async function POST(req: Request, context: { params: { id: string } }) {
       // This might be a form submission from another part of the app
       // Return a more helpful error message
       return NextResponse.json(
-        { error: "Use the PDF upload endpoint for file uploads" },
+        { error: "Use /api/courses/[id]/upload for file uploads" },
         { status: 400 },
       );
     }
@@ -2,6 +2,9 @@ import { NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { PrismaClient } from '@prisma/client';
 import { authOptions } from '../../auth/[...nextauth]/route';
+import { LLM_PROVIDER_NAMES } from '@/lib/llmProvider';
+import { TUTORING_STRICTNESS_LEVELS } from '@/lib/tutoringPolicy';
+import { parseCourseSettings } from '@/lib/courseSettings';
 
 const prisma = new PrismaClient();
 
@@ -29,6 +32,7 @@ export async function GET(
         userId: session.user.id,
       },
       include: {
+        settings: true,
         _count: {
           select: {
             chats: true,
@@ -71,7 +75,7 @@ export async function PATCH(
       return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
     }
 
-    const { name, description } = await req.json();
+    const { name, description, llmProvider, lexicalWeight, tutoringStrictness, settings } = await req.json();
 
     if (!name) {
       return NextResponse.json(
@@ -80,6 +84,40 @@ export async function PATCH(
       );
     }
 
+    if (llmProvider && !LLM_PROVIDER_NAMES.includes(llmProvider)) {
+      return NextResponse.json(
+        { error: `Unsupported model provider: ${llmProvider}` },
+        { status: 400 }
+      );
+    }
+
+    if (
+      lexicalWeight !== undefined &&
+      lexicalWeight !== null &&
+      (typeof lexicalWeight !== 'number' || lexicalWeight < 0 || lexicalWeight > 1)
+    ) {
+      return NextResponse.json(
+        { error: 'Keyword search weight must be a number between 0 and 1' },
+        { status: 400 }
+      );
+    }
+
+    if (tutoringStrictness && !TUTORING_STRICTNESS_LEVELS.includes(tutoringStrictness)) {
+      return NextResponse.json(
+        { error: `Unsupported tutoring strictness: ${tutoringStrictness}` },
+        { status: 400 }
+      );
+    }
+
+    // Persona, model and retrieval settings; left alone when not sent
+    const parsedSettings = settings !== undefined ? parseCourseSettings(settings) : null;
+    if (parsedSettings && 'error' in parsedSettings) {
+      return NextResponse.json(
+        { error: parsedSettings.error },
+        { status: 400 }
+      );
+    }
+
     // Check if the course exists and belongs to the user
     const existingCourse = await prisma.course.findUnique({
       where: {
@@ -108,6 +146,21 @@ export async function PATCH(
       data: {
         name,
         description,
+        // Leave the provider alone when the client does not send it
+        ...(llmProvider !== undefined && { llmProvider: llmProvider || null }),
+        ...(lexicalWeight !== undefined && { lexicalWeight }),
+        ...(tutoringStrictness !== undefined && { tutoringStrictness: tutoringStrictness || null }),
+        ...(parsedSettings && {
+          settings: {
+            upsert: {
+              create: parsedSettings.settings,
+              update: parsedSettings.settings,
+            },
+          },
+        }),
+      },
+      include: {
+        settings: true,
       },
     });
 
@@ -0,0 +1,67 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import { PrismaClient } from "@prisma/client";
+import { authOptions } from "../../../auth/[...nextauth]/route";
+
+const prisma = new PrismaClient();
+
+// GET /api/courses/[id]/tutoring-events - Audit trail of hints given in the
+// course's assignment chats, newest first, optionally for one chat (?chatId=)
+export async function GET(req: Request, context: { params: { id: string } }) {
+  try {
+    const params = await context.params;
+    const id = params.id;
+    const session = await getServerSession(authOptions);
+
+    if (!session || !session.user) {
+      return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+    }
+
+    // Verify the course exists and belongs to the user
+    const course = await prisma.course.findFirst({
+      where: {
+        id: id,
+        userId: session.user.id,
+      },
+    });
+
+    if (!course) {
+      return NextResponse.json({ error: "Course not found" }, { status: 404 });
+    }
+
+    const chatId = new URL(req.url).searchParams.get("chatId");
+    const events = await prisma.tutoringEvent.findMany({
+      where: {
+        courseId: id,
+        ...(chatId && { chatId }),
+      },
+      orderBy: {
+        createdAt: "desc",
+      },
+    });
+
+    // Totals per hint level, for a quick overview
+    const hintLevels: Record<number, number> = {};
+    for (const event of events) {
+      hintLevels[event.hintLevel] = (hintLevels[event.hintLevel] || 0) + 1;
+    }
+
+    return NextResponse.json({
+      events,
+      summary: {
+        hints: events.length,
+        hintLevels,
+        solutionRequests: events.filter((event) => event.solutionRequested)
+          .length,
+      },
+    });
+  } catch (error) {
+    console.error("Failed to fetch tutoring events:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch tutoring events" },
+      { status: 500 },
+    );
+  } finally {
+    await prisma.$disconnect();
+  }
+}
@@ -4,10 +4,15 @@ import { PrismaClient } from "@prisma/client";
 import { authOptions } from "../../../auth/[...nextauth]/route";
 import { processDocument } from "@/lib/documentProcessor";
 import { cancelAllActiveRuns } from "@/lib/assistantService";
+import {
+  detectFileType,
+  FILE_DOCUMENT_TYPES,
+  UPLOAD_TYPES_DESCRIPTION,
+} from "@/lib/documentTypes";
 
 const prisma = new PrismaClient();
 
-// POST /api/courses/[id]/upload - Upload a PDF file for a course
+// POST /api/courses/[id]/upload - Upload a PDF, Office, text or notebook file for a course
 export async function POST(req: Request, context: { params: { id: string } }) {
   try {
     // Ensure we always return JSON even in error cases
@@ -53,12 +58,15 @@ export async function POST(req: Request, context: { params: { id: string } }) {
 
       const file = formData.get("file") as File | null;
       let title = formData.get("title") as string | null;
+      // Notebooks only: whether to index the outputs of code cells
+      const includeOutputs = formData.get("includeOutputs") === "true";
 
       console.log("FormData entries:", {
         file: file
           ? { name: file.name, type: file.type, size: file.size }
           : null,
         title: title,
+        includeOutputs,
       });
 
       // Validate inputs
@@ -74,13 +82,15 @@ export async function POST(req: Request, context: { params: { id: string } }) {
       // Trim the title
       title = title.trim();
 
-      // Validate file type - more comprehensive check
-      if (
-        !file.type.includes("pdf") &&
-        !file.name.toLowerCase().endsWith(".pdf")
-      ) {
-        return handleError("Only PDF files are supported", 400);
+      // Validate file type by extension, or MIME type when there is none
+      const type = detectFileType(file.name, file.type);
+      if (!type) {
+        return handleError(
+          `Unsupported file type. Upload one of: ${UPLOAD_TYPES_DESCRIPTION}`,
+          400,
+        );
       }
+      const { label } = FILE_DOCUMENT_TYPES[type];
 
       // Process the file
       try {
@@ -91,7 +101,7 @@ export async function POST(req: Request, context: { params: { id: string } }) {
         // Ensure we have a valid buffer
         if (!buffer || buffer.length === 0) {
           return handleError(
-            "Invalid PDF file: Empty file or conversion failed",
+            `Invalid ${label}: Empty file or conversion failed`,
             400,
           );
         }
@@ -100,24 +110,25 @@ export async function POST(req: Request, context: { params: { id: string } }) {
         const document = await prisma.document.create({
           data: {
             title,
-            type: "pdf",
-            content: "[PDF content being processed with OpenAI Assistant API]",
+            type,
+            content: `[${label} content being processed]`,
             fileName: file.name,
             fileSize: file.size,
+            includeOutputs: type === "ipynb" && includeOutputs,
             processed: false,
             courseId: id,
           },
         });
 
         console.log(
-          `Created PDF document: ${document.id} - ${document.title} (with OpenAI Assistant API)`,
+          `Created ${type} document: ${document.id} - ${document.title}`,
         );
 
         // Process the document asynchronously (don't wait for it to complete)
         setTimeout(async () => {
           try {
             console.log(
-              `Starting to process PDF document ${document.id} with OpenAI Assistant API`,
+              `Starting to process ${type} document ${document.id}`,
             );
 
             try {
@@ -134,11 +145,11 @@ export async function POST(req: Request, context: { params: { id: string } }) {
               });
 
               console.log(
-                `PDF document ${document.id} processed successfully with OpenAI Assistant API`,
+                `${type} document ${document.id} processed successfully`,
               );
             } catch (processingError) {
               console.error(
-                `Error processing PDF document ${document.id}:`,
+                `Error processing ${type} document ${document.id}:`,
                 processingError,
               );
 
@@ -146,7 +157,7 @@ export async function POST(req: Request, context: { params: { id: string } }) {
               const errorMessage =
                 processingError instanceof Error
                   ? processingError.message
-                  : "Unknown error during PDF processing";
+                  : `Unknown error during ${type} processing`;
 
               // Save the extracted text we have if possible, otherwise store error
               let errorContent = `[PROCESSING ERROR: ${errorMessage}]`;
@@ -156,20 +167,17 @@ export async function POST(req: Request, context: { params: { id: string } }) {
                 errorMessage.includes("worker") ||
                 errorMessage.includes("GlobalWorkerOptions")
               ) {
-                errorContent =
-                  "PDF processing encountered a configuration issue with the PDF.js library. The system administrator has been notified and is working to fix this issue.";
+                errorContent = `Processing the ${label} encountered a configuration issue on the server. The system administrator has been notified and is working to fix this issue.`;
               } else if (
                 errorMessage.includes("rate limit") ||
                 errorMessage.includes("quota")
               ) {
-                errorContent =
-                  "PDF processing has been rate-limited by our AI provider. Please try again later.";
+                errorContent = `Processing the ${label} has been rate-limited by our AI provider. Please try again later.`;
               } else if (
                 errorMessage.includes("format") ||
                 errorMessage.includes("invalid")
               ) {
-                errorContent =
-                  "The PDF file appears to be corrupted or in an unsupported format. Please check the file and try uploading again.";
+                errorContent = `The ${label} appears to be corrupted or in an unsupported format. Please check the file and try uploading again.`;
               }
 
               await prisma.document.update({
@@ -194,10 +202,10 @@ export async function POST(req: Request, context: { params: { id: string } }) {
         return NextResponse.json({
           id: document.id,
           title: document.title,
-          message: `PDF uploaded successfully (OCR processing enabled)`,
+          message: `${label} uploaded successfully`,
         });
       } catch (error) {
-        return handleError("Failed to process PDF file", 500);
+        return handleError(`Failed to process ${label}`, 500);
       }
     } catch (error) {
       return handleError("Failed to upload document", 500);
@@ -220,7 +228,7 @@ export async function POST(req: Request, context: { params: { id: string } }) {
 
 // Add error handler to cleanup OpenAI threads
 process.on("SIGINT", async () => {
-  console.log("Shutting down, cleaning up active PDF processing runs...");
+  console.log("Shutting down, cleaning up active document processing runs...");
   try {
     await cancelAllActiveRuns();
     console.log("Cleanup complete");
@@ -3,13 +3,13 @@ import { getServerSession } from "next-auth/next";
 import { PrismaClient } from "@prisma/client";
 import { authOptions } from "../../../auth/[...nextauth]/route";
 import fs from "fs";
-import path from "path";
-import os from "os";
 import axios from "axios";
+import { getStoredFilePath } from "@/lib/fileStorage";
+import { FILE_DOCUMENT_TYPES, isFileDocumentType } from "@/lib/documentTypes";
 
 const prisma = new PrismaClient();
 
-// GET /api/documents/[id]/file - Get the file for a document (for PDFs)
+// GET /api/documents/[id]/file - Get the file for a document (for uploaded files)
 export async function GET(req: Request, context: { params: { id: string } }) {
   try {
     const { id } = await context.params;
@@ -42,28 +42,29 @@ export async function GET(req: Request, context: { params: { id: string } }) {
       );
     }
 
-    // If the document is a PDF, we'll try to serve it
-    if (document.type === "pdf") {
-      // For PDFs with URLs already set, redirect to that URL
+    // If the document is an uploaded file, we'll try to serve it
+    if (isFileDocumentType(document.type)) {
+      const { label, extensions, mimeType } =
+        FILE_DOCUMENT_TYPES[document.type];
+
+      // For files with URLs already set, redirect to that URL
       if (document.url) {
         return NextResponse.redirect(document.url);
       }
 
       // Check if we have a local file stored for this document
-      const tempDir = os.tmpdir();
-      const pdfFilePath = path.join(
-        tempDir,
-        `${document.id}-${document.fileName || "document.pdf"}`,
-      );
+      const storedFilePath = getStoredFilePath(document);
 
-      // If the file exists in the temp directory, serve it
-      if (fs.existsSync(pdfFilePath)) {
-        const fileBuffer = fs.readFileSync(pdfFilePath);
+      // If the file exists in the temp directory, serve it. Only PDFs open
+      // in the browser; uploaded HTML must not run on our origin.
+      if (fs.existsSync(storedFilePath)) {
+        const fileBuffer = fs.readFileSync(storedFilePath);
         const headers = new Headers();
-        headers.set("Content-Type", "application/pdf");
+        headers.set("Content-Type", mimeType);
+        headers.set("X-Content-Type-Options", "nosniff");
         headers.set(
           "Content-Disposition",
-          `inline; filename="${document.fileName || "document.pdf"}"`,
+          `${document.type === "pdf" ? "inline" : "attachment"}; filename="${document.fileName || `document${extensions[0]}`}"`,
         );
 
         return new NextResponse(fileBuffer, {
@@ -75,9 +76,8 @@ export async function GET(req: Request, context: { params: { id: string } }) {
       // If we don't have a local file, return an error
       return NextResponse.json(
         {
-          error: "PDF file unavailable",
-          message:
-            "The PDF file is not available for direct download. Please contact support if this issue persists.",
+          error: `${label} file unavailable`,
+          message: `The ${label} file is not available for direct download. Please contact support if this issue persists.`,
         },
         {
           status: 404,
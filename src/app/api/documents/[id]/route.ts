@@ -2,6 +2,7 @@ import { NextResponse } from "next/server";
 import { getServerSession } from "next-auth/next";
 import { PrismaClient } from "@prisma/client";
 import { authOptions } from "../../auth/[...nextauth]/route";
+import { markVectorIndexStale } from "@/lib/vectorIndex";
 
 const prisma = new PrismaClient();
 
@@ -98,6 +99,8 @@ export async function DELETE(
       where: { id },
     });
 
+    await markVectorIndexStale(document.courseId);
+
     return NextResponse.json({
       success: true,
       message: "Document deleted successfully",
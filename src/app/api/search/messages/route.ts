@@ -0,0 +1,91 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import { authOptions } from "../../auth/[...nextauth]/route";
+import {
+  MAX_SEARCH_LIMIT,
+  MessageSearchFilters,
+  searchMessages,
+} from "@/lib/messageSearch";
+
+const ROLES = ["user", "assistant"];
+const CHAT_TYPES = ["general", "assignment"];
+
+// GET /api/search/messages?q=&courseId=&role=&type=&from=&to=&limit=
+// Full-text search over the user's messages and chat titles
+export async function GET(req: Request) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session || !session.user) {
+      return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+    }
+
+    const params = new URL(req.url).searchParams;
+    const query = params.get("q")?.trim() || "";
+    if (!query) {
+      return NextResponse.json({ error: "Query is required" }, { status: 400 });
+    }
+
+    const role = params.get("role");
+    if (role && !ROLES.includes(role)) {
+      return NextResponse.json(
+        { error: `Unsupported role: ${role}` },
+        { status: 400 },
+      );
+    }
+
+    const type = params.get("type");
+    if (type && !CHAT_TYPES.includes(type)) {
+      return NextResponse.json(
+        { error: `Unsupported chat type: ${type}` },
+        { status: 400 },
+      );
+    }
+
+    const from = parseDate(params.get("from"), false);
+    const to = parseDate(params.get("to"), true);
+    if (from === null || to === null) {
+      return NextResponse.json(
+        { error: "Dates must be in YYYY-MM-DD or ISO 8601 format" },
+        { status: 400 },
+      );
+    }
+
+    const limit = Number(params.get("limit") || 20);
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_SEARCH_LIMIT) {
+      return NextResponse.json(
+        { error: `Limit must be between 1 and ${MAX_SEARCH_LIMIT}` },
+        { status: 400 },
+      );
+    }
+
+    const results = await searchMessages(session.user.id, query, {
+      courseId: params.get("courseId") || undefined,
+      role: (role || undefined) as MessageSearchFilters["role"],
+      chatType: (type || undefined) as MessageSearchFilters["chatType"],
+      from,
+      to,
+      limit,
+    });
+
+    return NextResponse.json({ query, results });
+  } catch (error) {
+    console.error("Failed to search messages:", error);
+    return NextResponse.json(
+      { error: "Failed to search messages" },
+      { status: 500 },
+    );
+  }
+}
+
+// Undefined when absent, null when invalid. A bare date covers the whole day,
+// so `to=2025-04-20` includes messages sent on the 20th.
+function parseDate(value: string | null, endOfDay: boolean) {
+  if (!value) return undefined;
+
+  const isDay = /^\d{4}-\d{2}-\d{2}$/.test(value);
+  const date = new Date(
+    isDay ? `${value}T${endOfDay ? "23:59:59.999" : "00:00:00.000"}Z` : value,
+  );
+  return Number.isNaN(date.getTime()) ? null : date;
+}
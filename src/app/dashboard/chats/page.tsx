@@ -4,6 +4,7 @@ import { useState, useEffect } from "react";
 import { useSession } from "next-auth/react";
 import { useRouter } from "next/navigation";
 import Link from "next/link";
+import MessageSearch from "@/components/MessageSearch";
 
 interface Chat {
   id: string;
@@ -98,6 +99,8 @@ export default function ChatsPage() {
         </p>
       </div>
 
+      <MessageSearch />
+
       {error && (
         <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md mb-6">
           {error}
@@ -3,12 +3,40 @@
 import { useState, useEffect, useRef } from "react";
 import { useParams, useRouter } from "next/navigation";
 import { useSession } from "next-auth/react";
+import Link from "next/link";
+import {
+  formatCitationLocation,
+  getCitationHref,
+  getTranscriptHref,
+} from "@/lib/citationFormat";
+import { formatTimestamp } from "@/lib/transcriptParser";
+import { readServerSentEvents } from "@/lib/sse";
+import CitedContent, { getSourceElementId } from "@/components/CitedContent";
+import GroundednessBadge from "@/components/GroundednessBadge";
+import DocumentScopePicker from "@/components/DocumentScopePicker";
+import BranchNavigator from "@/components/BranchNavigator";
+import {
+  BranchSelection,
+  getActiveBranch,
+  getForkKey,
+  getLastSavedId,
+  isSavedMessage,
+  selectBranchTo,
+} from "@/lib/messageBranches";
+
+// How often to look for the messages of an unfinished turn, and how far apart
+const RELOAD_ATTEMPTS = 3;
+const RELOAD_DELAY_MS = 500;
 
 interface Message {
   id: string;
   content: string;
   role: "user" | "assistant";
+  parentId?: string | null;
   citations?: Citation[];
+  searchQueries?: string[] | null;
+  groundedness?: number | null;
+  unsupportedRanges?: [number, number][] | null;
   createdAt: string;
 }
 
@@ -16,6 +44,16 @@ interface Citation {
   id: string;
   documentId: string;
   sourceText: string;
+  chunkId?: string | null;
+  pageStart?: number | null;
+  pageEnd?: number | null;
+  cellStart?: number | null;
+  cellEnd?: number | null;
+  timeStart?: number | null;
+  timeEnd?: number | null;
+  sectionHeading?: string | null;
+  marker?: number | null;
+  position?: number | null;
 }
 
 interface Chat {
@@ -26,6 +64,10 @@ interface Chat {
     id: string;
     name: string;
   };
+  documents: {
+    id: string;
+    title: string;
+  }[];
 }
 
 export default function ChatPage() {
@@ -36,11 +78,17 @@ export default function ChatPage() {
   const router = useRouter();
   const { data: session, status } = useSession();
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
   const shouldCleanupChat = useRef(false); // Default false since we're loading an existing chat
   const hasInteracted = useRef(false);
+  const linkedMessageId = useRef<string | null>(null); // Scroll here once loaded
 
   const [chat, setChat] = useState<Chat | null>(null);
-  const [messages, setMessages] = useState<Message[]>([]);
+  const [messages, setMessages] = useState<Message[]>([]); // Every branch
+  const [branchSelection, setBranchSelection] = useState<BranchSelection>({});
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editText, setEditText] = useState("");
+  const [highlightedId, setHighlightedId] = useState<string | null>(null);
   const [newMessage, setNewMessage] = useState("");
   const [loading, setLoading] = useState(true);
   const [sending, setSending] = useState(false);
@@ -49,6 +97,7 @@ export default function ChatPage() {
   // Chat options
   const [enableCitations, setEnableCitations] = useState(true);
   const [enableWebSearch, setEnableWebSearch] = useState(false);
+  const [showScope, setShowScope] = useState(false);
 
   // Fetch chat and messages
   useEffect(() => {
@@ -74,6 +123,18 @@ export default function ChatPage() {
         })
         .then((data) => {
           setMessages(data);
+          // Opened from search: show the branch with the linked message
+          const linked = new URLSearchParams(window.location.search).get(
+            "message",
+          );
+          if (
+            linked &&
+            data.some((message: Message) => message.id === linked)
+          ) {
+            linkedMessageId.current = linked;
+            setBranchSelection(selectBranchTo(data, linked));
+            setHighlightedId(linked);
+          }
           // If we loaded the chat and there are no messages, enable cleanup
           if (data.length === 0) {
             shouldCleanupChat.current = true;
@@ -84,7 +145,6 @@ export default function ChatPage() {
             shouldCleanupChat.current = false;
           }
           setLoading(false);
-          scrollToBottom();
         })
         .catch((err) => {
           console.error("Error fetching chat data:", err);
@@ -108,8 +168,15 @@ export default function ChatPage() {
     };
   }, [chatIdValue, router, status]);
 
-  // Scroll to bottom when messages change
+  // Scroll to bottom when messages change, or to the message linked to
   useEffect(() => {
+    if (linkedMessageId.current) {
+      document
+        .getElementById(`message-${linkedMessageId.current}`)
+        ?.scrollIntoView({ block: "center" });
+      linkedMessageId.current = null;
+      return;
+    }
     scrollToBottom();
   }, [messages]);
 
@@ -117,10 +184,61 @@ export default function ChatPage() {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
   };
 
+  // Replace the last message (the assistant answer being streamed)
+  const updateLastMessage = (update: (message: Message) => Message) => {
+    setMessages((prev) => [
+      ...prev.slice(0, -1),
+      update(prev[prev.length - 1]),
+    ]);
+  };
+
+  // The messages shown: the selected version at each fork
+  const branch = getActiveBranch(messages, branchSelection);
+
   const sendMessage = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!newMessage.trim() || sending) return;
 
+    setNewMessage("");
+    await submitTurn({
+      content: newMessage,
+      parentId: getLastSavedId(branch),
+    });
+  };
+
+  // Send an edited question as a new version alongside the original
+  const sendEdit = async (message: Message) => {
+    if (!editText.trim() || sending) return;
+
+    setEditingId(null);
+    await submitTurn({ content: editText, parentId: message.parentId ?? null });
+  };
+
+  // Answer a question again as a new version of the answer
+  const regenerate = async (message: Message) => {
+    if (!message.parentId || sending) return;
+
+    await submitTurn({ parentId: message.parentId, regenerate: true });
+  };
+
+  // Show a different version of a message, and the branch that follows it
+  const selectVersion = (siblings: Message[], index: number) => {
+    const message = siblings[index];
+    setBranchSelection((prev) => ({
+      ...prev,
+      [getForkKey(message)]: message.id,
+    }));
+  };
+
+  /**
+   * Send a question after `parentId`, or with `regenerate` answer the question
+   * `parentId` again. Either way the new messages start a branch that is shown.
+   */
+  const submitTurn = async (turn: {
+    content?: string;
+    parentId: string | null;
+    regenerate?: boolean;
+  }) => {
     // Mark that user has interacted with the chat
     hasInteracted.current = true;
     shouldCleanupChat.current = false;
@@ -128,16 +246,40 @@ export default function ChatPage() {
     setSending(true);
     setError("");
 
-    const userMessage = {
-      id: "temp-" + Date.now(),
-      content: newMessage,
-      role: "user" as const,
+    const savedCount = messages.filter(isSavedMessage).length;
+    const userMessage: Message | null = turn.regenerate
+      ? null
+      : {
+          id: "temp-" + Date.now(),
+          content: turn.content || "",
+          role: "user",
+          parentId: turn.parentId,
+          createdAt: new Date().toISOString(),
+        };
+    const assistantMessage: Message = {
+      id: "temp-assistant-" + Date.now(),
+      content: "",
+      role: "assistant",
+      parentId: userMessage ? userMessage.id : turn.parentId,
       createdAt: new Date().toISOString(),
     };
 
-    // Add user message immediately to the UI
-    setMessages((prev) => [...prev, userMessage]);
-    setNewMessage("");
+    // Add user message and an empty assistant message to stream into, and
+    // show them in place of the versions they sit beside
+    setMessages((prev) => [
+      ...prev,
+      ...(userMessage ? [userMessage] : []),
+      assistantMessage,
+    ]);
+    setBranchSelection((prev) => {
+      const next = { ...prev };
+      delete next[getForkKey(userMessage || assistantMessage)];
+      return next;
+    });
+
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+    let saved = false; // Whether the saved messages came back
 
     try {
       // Send message to API
@@ -147,40 +289,128 @@ export default function ChatPage() {
           "Content-Type": "application/json",
         },
         body: JSON.stringify({
-          message: userMessage.content,
+          message: userMessage?.content,
+          parentId: turn.parentId,
+          regenerate: turn.regenerate,
           options: {
             enableCitations,
             enableWebSearch,
           },
+          stream: true,
         }),
+        signal: abortController.signal,
       });
 
       if (!response.ok) {
         throw new Error("Failed to send message");
       }
 
-      const aiResponse = await response.json();
+      // Render tokens as they arrive, then swap in the saved message
+      await readServerSentEvents(response, (event) => {
+        const data = JSON.parse(event.data);
 
-      // Add AI response to messages
-      setMessages((prev) => [
-        ...prev,
-        {
-          id: aiResponse.id,
-          content: aiResponse.content,
-          role: "assistant",
-          citations: aiResponse.citations,
-          createdAt: new Date().toISOString(),
-        },
-      ]);
+        if (event.event === "token") {
+          updateLastMessage((message) => ({
+            ...message,
+            content: message.content + data.content,
+          }));
+        } else if (event.event === "done") {
+          saved = true;
+          // Swap in the saved ids, the question's from the answer's parent
+          setMessages((prev) =>
+            prev.map((message) =>
+              message.id === userMessage?.id
+                ? { ...message, id: data.parentId }
+                : message.id === assistantMessage.id
+                  ? {
+                      ...message,
+                      id: data.id,
+                      parentId: data.parentId,
+                      content: data.content,
+                      citations: data.citations,
+                      searchQueries: data.searchQueries,
+                      groundedness: data.groundedness,
+                      unsupportedRanges: data.unsupportedRanges,
+                    }
+                  : message,
+            ),
+          );
+        } else if (event.event === "error") {
+          setError(data.error);
+        }
+      });
     } catch (err) {
-      console.error("Error sending message:", err);
-      setError("Failed to send message. Please try again.");
+      // Stopping is no error; the server saves the partial answer
+      if (!abortController.signal.aborted) {
+        console.error("Error sending message:", err);
+        setError("Failed to send message. Please try again.");
+      }
     } finally {
+      // Show what the server kept of an unfinished turn instead of the
+      // temporary messages, waiting for a stopped answer to be saved
+      if (!saved) {
+        await reloadMessages(
+          abortController.signal.aborted
+            ? savedCount + (userMessage ? 2 : 1)
+            : savedCount,
+        );
+      }
+      abortControllerRef.current = null;
       setSending(false);
       scrollToBottom();
     }
   };
 
+  /**
+   * Load the saved messages, trying again a few times until there are
+   * `expected` of them. Without them, drop the messages that aren't saved.
+   */
+  const reloadMessages = async (expected: number) => {
+    try {
+      for (let attempt = 1; ; attempt++) {
+        const response = await fetch(`/api/chat/${chatIdValue}/messages`);
+        if (!response.ok) {
+          throw new Error("Failed to fetch messages");
+        }
+        const data: Message[] = await response.json();
+
+        if (data.length >= expected || attempt === RELOAD_ATTEMPTS) {
+          setMessages(data);
+          return;
+        }
+        await new Promise((resolve) => setTimeout(resolve, RELOAD_DELAY_MS));
+      }
+    } catch (err) {
+      console.error("Error reloading messages:", err);
+      setMessages((prev) => prev.filter(isSavedMessage));
+    }
+  };
+
+  // Save which documents the chat searches
+  const updateScope = async (documentIds: string[]) => {
+    try {
+      const response = await fetch(`/api/chat/${chatIdValue}`, {
+        method: "PATCH",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ documentIds }),
+      });
+
+      if (!response.ok) {
+        throw new Error("Failed to update chat materials");
+      }
+      setChat(await response.json());
+    } catch (err) {
+      console.error("Error updating chat materials:", err);
+      setError("Failed to update the chat's materials. Please try again.");
+    }
+  };
+
+  const stopGeneration = () => {
+    abortControllerRef.current?.abort();
+  };
+
   if (status === "loading" || loading) {
     return (
       <div className="flex items-center justify-center h-screen">
@@ -205,6 +435,30 @@ export default function ChatPage() {
             )}
           </div>
           <div className="flex space-x-2">
+            <select
+              value=""
+              onChange={(e) => {
+                // Downloads as an attachment, so the page stays open
+                if (e.target.value) {
+                  window.location.href = `/api/chat/${chatIdValue}/export?format=${e.target.value}`;
+                }
+              }}
+              aria-label="Export chat"
+              className="px-3 py-1 text-sm rounded-md bg-gray-100 text-gray-800"
+            >
+              <option value="">Export</option>
+              <option value="md">Markdown</option>
+              <option value="pdf">PDF</option>
+              <option value="json">JSON</option>
+            </select>
+            <button
+              onClick={() => setShowScope(!showScope)}
+              className="px-3 py-1 text-sm rounded-md bg-gray-100 text-gray-800"
+            >
+              {chat?.documents.length
+                ? `Materials: ${chat.documents.length} selected`
+                : "Materials: All"}
+            </button>
             <button
               onClick={() => setEnableCitations(!enableCitations)}
               className={`px-3 py-1 text-sm rounded-md ${
@@ -227,6 +481,15 @@ export default function ChatPage() {
             </button>
           </div>
         </div>
+        {showScope && chat && courseId && (
+          <div className="mt-3 pt-3 border-t border-gray-200">
+            <DocumentScopePicker
+              courseId={courseId}
+              selected={chat.documents.map((document) => document.id)}
+              onChange={updateScope}
+            />
+          </div>
+        )}
       </div>
 
       {/* Messages area */}
@@ -237,7 +500,7 @@ export default function ChatPage() {
           </div>
         )}
 
-        {messages.length === 0 ? (
+        {branch.length === 0 ? (
           <div className="text-center py-8">
             <h3 className="text-lg font-medium text-gray-900">
               No messages yet
@@ -249,16 +512,67 @@ export default function ChatPage() {
           </div>
         ) : (
           <div className="space-y-4">
-            {messages.map((message) => (
+            {branch.map(({ message, siblings, index: version }) => (
               <div
                 key={message.id}
+                id={`message-${message.id}`}
                 className={`p-4 rounded-lg max-w-3xl ${
                   message.role === "user"
                     ? "bg-indigo-100 ml-auto"
                     : "bg-white border border-gray-200"
-                }`}
+                } ${highlightedId === message.id ? "ring-2 ring-yellow-400" : ""}`}
               >
-                <div className="text-gray-900">{message.content}</div>
+                {editingId === message.id ? (
+                  <div>
+                    <textarea
+                      value={editText}
+                      onChange={(e) => setEditText(e.target.value)}
+                      rows={3}
+                      className="w-full border border-gray-300 rounded-md py-2 px-3 text-gray-900 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                    />
+                    <div className="flex justify-end space-x-2 mt-2">
+                      <button
+                        type="button"
+                        onClick={() => setEditingId(null)}
+                        className="px-3 py-1 text-sm rounded-md bg-white border border-gray-300 text-gray-700 hover:bg-gray-50"
+                      >
+                        Cancel
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => sendEdit(message)}
+                        disabled={!editText.trim() || sending}
+                        className="px-3 py-1 text-sm rounded-md bg-indigo-600 text-white hover:bg-indigo-700 disabled:opacity-50"
+                      >
+                        Send
+                      </button>
+                    </div>
+                  </div>
+                ) : (
+                  <div className="text-gray-900 whitespace-pre-wrap">
+                    {(message.content && (
+                      <CitedContent
+                        content={message.content}
+                        citations={message.citations}
+                        sourceIdPrefix={`source-${message.id}`}
+                        unsupportedRanges={message.unsupportedRanges}
+                      />
+                    )) ||
+                      (sending && (
+                        <span className="text-gray-400">Thinking...</span>
+                      ))}
+                  </div>
+                )}
+
+                {message.groundedness != null && (
+                  <GroundednessBadge score={message.groundedness} />
+                )}
+
+                {message.searchQueries && message.searchQueries.length > 0 && (
+                  <p className="mt-2 text-xs text-gray-500">
+                    Searched for: {message.searchQueries.join(" · ")}
+                  </p>
+                )}
 
                 {message.citations && message.citations.length > 0 && (
                   <div className="mt-3 pt-2 border-t border-gray-200">
@@ -271,12 +585,21 @@ export default function ChatPage() {
                         return (
                           <details
                             key={citation.id}
+                            id={getSourceElementId(
+                              `source-${message.id}`,
+                              citation.marker ?? index + 1,
+                            )}
                             className="text-xs bg-gray-50 rounded"
                           >
                             <summary className="p-2 cursor-pointer hover:bg-gray-100 flex items-center">
                               <span className="font-medium">
-                                Source {index + 1}
+                                [{citation.marker ?? index + 1}]
                               </span>
+                              {formatCitationLocation(citation) && (
+                                <span className="ml-1 text-gray-500">
+                                  · {formatCitationLocation(citation)}
+                                </span>
+                              )}
                               <svg
                                 xmlns="http://www.w3.org/2000/svg"
                                 className="h-3 w-3 ml-1"
@@ -518,6 +841,25 @@ export default function ChatPage() {
                               )}
 
                               <p className="text-right mt-1 text-gray-500">
+                                {citation.pageStart && (
+                                  <a
+                                    href={getCitationHref(citation)}
+                                    target="_blank"
+                                    rel="noopener noreferrer"
+                                    className="mr-2 text-blue-600 hover:underline"
+                                  >
+                                    Open page {citation.pageStart}
+                                  </a>
+                                )}
+                                {courseId && citation.timeStart != null && (
+                                  <Link
+                                    href={getTranscriptHref(courseId, citation)}
+                                    className="mr-2 text-blue-600 hover:underline"
+                                  >
+                                    Open at{" "}
+                                    {formatTimestamp(citation.timeStart)}
+                                  </Link>
+                                )}
                                 Document ID: {citation.documentId}
                               </p>
                             </div>
@@ -528,7 +870,29 @@ export default function ChatPage() {
                   </div>
                 )}
 
-                <div className="text-right mt-1">
+                <div className="flex justify-end items-center space-x-3 mt-1">
+                  <BranchNavigator
+                    index={version}
+                    count={siblings.length}
+                    onSelect={(index) => selectVersion(siblings, index)}
+                    disabled={sending}
+                  />
+                  {!sending && isSavedMessage(message) && (
+                    <button
+                      type="button"
+                      onClick={() => {
+                        if (message.role === "user") {
+                          setEditingId(message.id);
+                          setEditText(message.content);
+                        } else {
+                          regenerate(message);
+                        }
+                      }}
+                      className="text-xs text-gray-500 hover:text-gray-800"
+                    >
+                      {message.role === "user" ? "Edit" : "Regenerate"}
+                    </button>
+                  )}
                   <span className="text-xs text-gray-500">
                     {new Date(message.createdAt).toLocaleTimeString()}
                   </span>
@@ -551,13 +915,23 @@ export default function ChatPage() {
             className="flex-1 border border-gray-300 rounded-md py-2 px-3 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
             disabled={sending}
           />
-          <button
-            type="submit"
-            disabled={!newMessage.trim() || sending}
-            className="bg-indigo-600 text-white px-4 py-2 rounded-md hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-indigo-500 disabled:opacity-50"
-          >
-            {sending ? "Sending..." : "Send"}
-          </button>
+          {sending ? (
+            <button
+              type="button"
+              onClick={stopGeneration}
+              className="bg-gray-600 text-white px-4 py-2 rounded-md hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-gray-500"
+            >
+              Stop
+            </button>
+          ) : (
+            <button
+              type="submit"
+              disabled={!newMessage.trim()}
+              className="bg-indigo-600 text-white px-4 py-2 rounded-md hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-indigo-500 disabled:opacity-50"
+            >
+              Send
+            </button>
+          )}
         </form>
       </div>
     </div>
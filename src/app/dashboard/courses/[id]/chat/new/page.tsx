@@ -4,6 +4,7 @@ import { useState, useEffect } from "react";
 import { useRouter, useParams, useSearchParams } from "next/navigation";
 import Link from "next/link";
 import { useSession } from "next-auth/react";
+import DocumentScopePicker from "@/components/DocumentScopePicker";
 
 interface Course {
   id: string;
@@ -11,6 +12,11 @@ interface Course {
   description?: string;
 }
 
+interface CourseDocument {
+  id: string;
+  title: string;
+}
+
 export default function NewChat() {
   const params = useParams();
   const courseId = Array.isArray(params.id) ? params.id[0] : params.id;
@@ -23,6 +29,9 @@ export default function NewChat() {
   const [course, setCourse] = useState<Course | null>(null);
   const [assignmentName, setAssignmentName] = useState("");
   const [firstMessage, setFirstMessage] = useState("");
+  const [documentIds, setDocumentIds] = useState<string[]>([]);
+  const [documents, setDocuments] = useState<CourseDocument[]>([]);
+  const [assignmentDocumentId, setAssignmentDocumentId] = useState("");
   const [creating, setCreating] = useState(false);
   const [error, setError] = useState("");
 
@@ -47,6 +56,14 @@ export default function NewChat() {
           console.error("Failed to fetch course:", err);
           setError("Failed to fetch course");
         });
+
+      // Fetch documents to pick the assignment from
+      fetch(`/api/courses/${courseId}/documents`)
+        .then((res) => res.json())
+        .then((data) => {
+          if (Array.isArray(data)) setDocuments(data);
+        })
+        .catch((err) => console.error("Failed to fetch documents:", err));
     }
   }, [courseId, router, status]);
 
@@ -58,6 +75,7 @@ export default function NewChat() {
     try {
       const payload: any = {
         type: "assignment",
+        documentIds,
       };
 
       // Include assignment name
@@ -69,6 +87,11 @@ export default function NewChat() {
         return;
       }
 
+      // Link the assignment document so the tutor knows not to solve it
+      if (assignmentDocumentId) {
+        payload.assignmentDocumentId = assignmentDocumentId;
+      }
+
       // Include first message if provided
       if (firstMessage.trim()) {
         payload.firstMessage = firstMessage;
@@ -150,6 +173,32 @@ export default function NewChat() {
             />
           </div>
 
+          <div className="mb-4">
+            <label
+              htmlFor="assignmentDocument"
+              className="block text-gray-700 text-sm font-medium mb-1"
+            >
+              Assignment Document (Optional)
+            </label>
+            <select
+              id="assignmentDocument"
+              value={assignmentDocumentId}
+              onChange={(e) => setAssignmentDocumentId(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+            >
+              <option value="">None</option>
+              {documents.map((document) => (
+                <option key={document.id} value={document.id}>
+                  {document.title}
+                </option>
+              ))}
+            </select>
+            <p className="mt-1 text-xs text-gray-500">
+              The assistant will tutor you through this assignment with hints
+              rather than solving it.
+            </p>
+          </div>
+
           <div className="mb-4">
             <label
               htmlFor="firstMessage"
@@ -167,6 +216,19 @@ export default function NewChat() {
             />
           </div>
 
+          {courseId && (
+            <div className="mb-4">
+              <span className="block text-gray-700 text-sm font-medium mb-1">
+                Course Materials (Optional)
+              </span>
+              <DocumentScopePicker
+                courseId={courseId}
+                selected={documentIds}
+                onChange={setDocumentIds}
+              />
+            </div>
+          )}
+
           <div className="flex justify-between space-x-3 mt-6">
             <Link
               href={`/dashboard/courses/${courseId}/chats`}
@@ -4,6 +4,7 @@ import { useState, useEffect } from "react";
 import { useRouter, useParams } from "next/navigation";
 import Link from "next/link";
 import { useSession } from "next-auth/react";
+import MessageSearch from "@/components/MessageSearch";
 
 interface Chat {
   id: string;
@@ -204,6 +205,8 @@ export default function CourseChats() {
         </div>
       )}
 
+      {courseId && <MessageSearch courseId={courseId} />}
+
       {error && (
         <div className="mb-4 p-4 bg-red-50 text-red-700 rounded-md">
           {error}
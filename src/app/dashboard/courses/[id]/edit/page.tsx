@@ -12,6 +12,16 @@ export default function EditCoursePage() {
 
   const [name, setName] = useState("");
   const [description, setDescription] = useState("");
+  const [llmProvider, setLlmProvider] = useState("");
+  const [lexicalWeight, setLexicalWeight] = useState("");
+  const [tutoringStrictness, setTutoringStrictness] = useState("");
+  const [model, setModel] = useState("");
+  const [temperature, setTemperature] = useState("");
+  const [retrievalTopK, setRetrievalTopK] = useState("");
+  const [similarityThreshold, setSimilarityThreshold] = useState("");
+  const [tone, setTone] = useState("");
+  const [answerLanguage, setAnswerLanguage] = useState("");
+  const [customInstructions, setCustomInstructions] = useState("");
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [course, setCourse] = useState<any>(null);
@@ -31,6 +41,18 @@ export default function EditCoursePage() {
         setCourse(data);
         setName(data.name || "");
         setDescription(data.description || "");
+        setLlmProvider(data.llmProvider || "");
+        setLexicalWeight(data.lexicalWeight?.toString() ?? "");
+        setTutoringStrictness(data.tutoringStrictness || "");
+        setModel(data.settings?.model || "");
+        setTemperature(data.settings?.temperature?.toString() ?? "");
+        setRetrievalTopK(data.settings?.retrievalTopK?.toString() ?? "");
+        setSimilarityThreshold(
+          data.settings?.similarityThreshold?.toString() ?? "",
+        );
+        setTone(data.settings?.tone || "");
+        setAnswerLanguage(data.settings?.answerLanguage || "");
+        setCustomInstructions(data.settings?.customInstructions || "");
       } catch (err) {
         console.error("Error fetching course:", err);
         setError("Failed to load course. Please try again.");
@@ -54,6 +76,19 @@ export default function EditCoursePage() {
         body: JSON.stringify({
           name,
           description,
+          llmProvider,
+          lexicalWeight: lexicalWeight === "" ? null : Number(lexicalWeight),
+          tutoringStrictness,
+          settings: {
+            model,
+            temperature: temperature === "" ? null : Number(temperature),
+            retrievalTopK: retrievalTopK === "" ? null : Number(retrievalTopK),
+            similarityThreshold:
+              similarityThreshold === "" ? null : Number(similarityThreshold),
+            tone,
+            answerLanguage,
+            customInstructions,
+          },
         }),
       });
 
@@ -136,6 +171,244 @@ export default function EditCoursePage() {
             />
           </div>
 
+          <div>
+            <label
+              htmlFor="llmProvider"
+              className="block text-sm font-medium text-gray-700"
+            >
+              AI Model Provider
+            </label>
+            <select
+              id="llmProvider"
+              name="llmProvider"
+              value={llmProvider}
+              onChange={(e) => setLlmProvider(e.target.value)}
+              className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+            >
+              <option value="">Deployment default</option>
+              <option value="openai">OpenAI</option>
+              <option value="local">
+                Local model (OpenAI-compatible server)
+              </option>
+              <option value="mock">Mock (offline testing)</option>
+            </select>
+          </div>
+
+          <div>
+            <label
+              htmlFor="model"
+              className="block text-sm font-medium text-gray-700"
+            >
+              Model
+            </label>
+            <input
+              type="text"
+              id="model"
+              name="model"
+              value={model}
+              onChange={(e) => setModel(e.target.value)}
+              className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+              placeholder="Provider default"
+            />
+            <p className="mt-1 text-xs text-gray-500">
+              Model name as the provider knows it, e.g. gpt-4o-mini or llama3.
+            </p>
+          </div>
+
+          <div>
+            <label
+              htmlFor="temperature"
+              className="block text-sm font-medium text-gray-700"
+            >
+              Temperature
+            </label>
+            <input
+              type="number"
+              id="temperature"
+              name="temperature"
+              min="0"
+              max="2"
+              step="0.1"
+              value={temperature}
+              onChange={(e) => setTemperature(e.target.value)}
+              className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+              placeholder="Provider default"
+            />
+            <p className="mt-1 text-xs text-gray-500">
+              Lower values give more focused, repeatable answers; higher values
+              more varied ones. From 0 to 2.
+            </p>
+          </div>
+
+          <div>
+            <label
+              htmlFor="tone"
+              className="block text-sm font-medium text-gray-700"
+            >
+              Tone
+            </label>
+            <select
+              id="tone"
+              name="tone"
+              value={tone}
+              onChange={(e) => setTone(e.target.value)}
+              className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+            >
+              <option value="">Default</option>
+              <option value="friendly">Friendly</option>
+              <option value="formal">Formal</option>
+              <option value="concise">Concise</option>
+              <option value="socratic">Socratic - leads with questions</option>
+            </select>
+          </div>
+
+          <div>
+            <label
+              htmlFor="answerLanguage"
+              className="block text-sm font-medium text-gray-700"
+            >
+              Answer Language
+            </label>
+            <input
+              type="text"
+              id="answerLanguage"
+              name="answerLanguage"
+              value={answerLanguage}
+              onChange={(e) => setAnswerLanguage(e.target.value)}
+              className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+              placeholder="Same as the student's question"
+            />
+          </div>
+
+          <div>
+            <label
+              htmlFor="customInstructions"
+              className="block text-sm font-medium text-gray-700"
+            >
+              Custom Instructions
+            </label>
+            <textarea
+              id="customInstructions"
+              name="customInstructions"
+              rows={4}
+              maxLength={4000}
+              value={customInstructions}
+              onChange={(e) => setCustomInstructions(e.target.value)}
+              className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+              placeholder="e.g. Use the notation from the lecture notes. Point students to office hours for grading questions."
+            />
+            <p className="mt-1 text-xs text-gray-500">
+              Added to the assistant&apos;s instructions for every answer in
+              this course.
+            </p>
+          </div>
+
+          <div>
+            <label
+              htmlFor="lexicalWeight"
+              className="block text-sm font-medium text-gray-700"
+            >
+              Keyword Search Weight
+            </label>
+            <input
+              type="number"
+              id="lexicalWeight"
+              name="lexicalWeight"
+              min="0"
+              max="1"
+              step="0.1"
+              value={lexicalWeight}
+              onChange={(e) => setLexicalWeight(e.target.value)}
+              className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+              placeholder="Deployment default"
+            />
+            <p className="mt-1 text-xs text-gray-500">
+              How much exact keyword matches (theorem numbers, variable names,
+              course codes) count against meaning-based matches, from 0 to 1.
+            </p>
+          </div>
+
+          <div>
+            <label
+              htmlFor="retrievalTopK"
+              className="block text-sm font-medium text-gray-700"
+            >
+              Sources per Answer
+            </label>
+            <input
+              type="number"
+              id="retrievalTopK"
+              name="retrievalTopK"
+              min="1"
+              max="20"
+              step="1"
+              value={retrievalTopK}
+              onChange={(e) => setRetrievalTopK(e.target.value)}
+              className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+              placeholder="Deployment default"
+            />
+            <p className="mt-1 text-xs text-gray-500">
+              How many passages from the course materials the assistant reads
+              before answering, from 1 to 20.
+            </p>
+          </div>
+
+          <div>
+            <label
+              htmlFor="similarityThreshold"
+              className="block text-sm font-medium text-gray-700"
+            >
+              Minimum Similarity
+            </label>
+            <input
+              type="number"
+              id="similarityThreshold"
+              name="similarityThreshold"
+              min="0"
+              max="1"
+              step="0.05"
+              value={similarityThreshold}
+              onChange={(e) => setSimilarityThreshold(e.target.value)}
+              className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+              placeholder="Deployment default"
+            />
+            <p className="mt-1 text-xs text-gray-500">
+              Passages less similar to the question than this, from 0 to 1, are
+              left out.
+            </p>
+          </div>
+
+          <div>
+            <label
+              htmlFor="tutoringStrictness"
+              className="block text-sm font-medium text-gray-700"
+            >
+              Assignment Help Strictness
+            </label>
+            <select
+              id="tutoringStrictness"
+              name="tutoringStrictness"
+              value={tutoringStrictness}
+              onChange={(e) => setTutoringStrictness(e.target.value)}
+              className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+            >
+              <option value="">Default (standard)</option>
+              <option value="relaxed">
+                Relaxed - hints up to worked examples of similar problems
+              </option>
+              <option value="standard">
+                Standard - hints up to guidance on the next step
+              </option>
+              <option value="strict">
+                Strict - guiding questions and concepts only
+              </option>
+            </select>
+            <p className="mt-1 text-xs text-gray-500">
+              Assignment chats never give complete solutions. This sets how far
+              their hints may go; every hint is logged for review.
+            </p>
+          </div>
+
           <div className="flex justify-end">
             <Link
               href={`/dashboard/courses/${params.id}`}
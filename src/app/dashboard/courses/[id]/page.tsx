@@ -1,9 +1,11 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { useParams, useRouter } from "next/navigation";
 import Link from "next/link";
 import { CourseWithChatCount, DocumentModel } from "@/types/types";
+import { isFileDocumentType } from "@/lib/documentTypes";
+import DocumentPreview from "@/components/DocumentPreview";
 
 interface Document {
   id: string;
@@ -49,6 +51,12 @@ export default function CourseDetailPage() {
   const [selectedTextDocument, setSelectedTextDocument] =
     useState<Document | null>(null);
   const [loadingDocumentContent, setLoadingDocumentContent] = useState(false);
+  const [previewDocument, setPreviewDocument] = useState<{
+    document: Document;
+    time?: number;
+  } | null>(null);
+  // Transcript linked from a citation, e.g. ?document=...&t=1421
+  const linkedDocument = useRef<{ id: string; time?: number } | null>(null);
 
   const fetchCourse = async () => {
     try {
@@ -82,6 +90,28 @@ export default function CourseDetailPage() {
     }
   }, [params.id]);
 
+  useEffect(() => {
+    const search = new URLSearchParams(window.location.search);
+    const id = search.get("document");
+    if (id) {
+      const time = Number(search.get("t") ?? NaN);
+      linkedDocument.current = {
+        id,
+        time: Number.isFinite(time) ? time : undefined,
+      };
+    }
+  }, []);
+
+  // Open the linked transcript once the documents are loaded
+  useEffect(() => {
+    const linked = linkedDocument.current;
+    const doc = linked && documents.find((doc) => doc.id === linked.id);
+    if (linked && doc?.type === "transcript") {
+      linkedDocument.current = null;
+      setPreviewDocument({ document: doc, time: linked.time });
+    }
+  }, [documents]);
+
   // Fetch course chats when the chat modal is opened
   const fetchCourseChats = async () => {
     if (!params.id) return;
@@ -200,10 +230,13 @@ export default function CourseDetailPage() {
   };
 
   const handleDocumentClick = (doc: Document) => {
-    if (doc.type === "pdf") {
-      // For PDFs, create a file URL and open in new tab
+    if (doc.type === "transcript") {
+      // Transcripts open on their timeline
+      setPreviewDocument({ document: doc });
+    } else if (isFileDocumentType(doc.type)) {
+      // For uploaded files, create a file URL and open in new tab
       const fileUrl = `/api/documents/${doc.id}/file`;
-      console.log("Opening PDF document with ID:", doc.id);
+      console.log(`Opening ${doc.type} document with ID:`, doc.id);
 
       // First try to fetch to check if the document is available
       fetch(fileUrl)
@@ -215,16 +248,16 @@ export default function CourseDetailPage() {
             // If there's an error, parse the JSON response
             return response.json().then((errorData) => {
               throw new Error(
-                errorData.message || "Failed to load PDF document",
+                errorData.message || "Failed to load document file",
               );
             });
           }
         })
         .catch((error) => {
-          console.error("Error opening PDF:", error);
+          console.error("Error opening document file:", error);
           alert(
             error.message ||
-              "Failed to load PDF document. The file may not be available.",
+              "Failed to load document file. The file may not be available.",
           );
         });
     } else if (doc.type === "text") {
@@ -236,7 +269,7 @@ export default function CourseDetailPage() {
       console.log("Opening document with URL:", doc.url);
       window.open(doc.url, "_blank");
     } else {
-      console.error("Document has no URL and is not a PDF:", doc);
+      console.error("Document has no URL and is not a file:", doc);
       // Show an error message to the user
       alert(
         "This document cannot be opened. It may still be processing or the file is unavailable.",
@@ -457,6 +490,14 @@ export default function CourseDetailPage() {
         </div>
       )}
 
+      {previewDocument && (
+        <DocumentPreview
+          document={previewDocument.document}
+          initialTime={previewDocument.time}
+          onClose={() => setPreviewDocument(null)}
+        />
+      )}
+
       {/* Text Document Dialog */}
       {showTextDialog && selectedTextDocument && (
         <div className="fixed inset-0 z-10 overflow-y-auto">
@@ -554,7 +595,7 @@ export default function CourseDetailPage() {
                     <div className="flex items-center justify-between">
                       <div className="flex items-center">
                         <div className="flex-shrink-0 mr-3">
-                          {doc.type === "pdf" && (
+                          {isFileDocumentType(doc.type) && (
                             <svg
                               className="h-6 w-6 text-red-500"
                               fill="currentColor"
@@ -4,6 +4,7 @@ import { useState, useEffect } from "react";
 import { useParams, useRouter } from "next/navigation";
 import Link from "next/link";
 import type { Course } from "@prisma/client";
+import { detectFileType, UPLOAD_ACCEPT } from "@/lib/documentTypes";
 
 // Define a more specific type that includes what we get from the API
 interface CourseWithCounts {
@@ -28,6 +29,7 @@ export default function UploadDocumentPage() {
   const [url, setUrl] = useState("");
   const [content, setContent] = useState("");
   const [file, setFile] = useState<File | null>(null);
+  const [includeOutputs, setIncludeOutputs] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -95,19 +97,15 @@ export default function UploadDocumentPage() {
         throw new Error("File is required");
       }
 
-      // Handle PDF files specially
-      if (
-        type === "file" &&
-        file &&
-        (file.type === "application/pdf" ||
-          file.name.toLowerCase().endsWith(".pdf"))
-      ) {
-        // Create FormData for PDF upload
+      // Send PDF, Office and text files to the upload endpoint
+      if (type === "file" && file && detectFileType(file.name, file.type)) {
+        // Create FormData for the file upload
         const formData = new FormData();
         formData.append("file", file);
         formData.append("title", name.trim());
+        formData.append("includeOutputs", String(includeOutputs));
 
-        // Use the specialized PDF upload endpoint
+        // Use the specialized file upload endpoint
         const response = await fetch(`/api/courses/${params.id}/upload`, {
           method: "POST",
           body: formData,
@@ -116,7 +114,7 @@ export default function UploadDocumentPage() {
         // Handle response
         if (!response.ok) {
           const data = await response.json();
-          throw new Error(data.error || "Failed to upload PDF");
+          throw new Error(data.error || "Failed to upload file");
         }
 
         const data = await response.json();
@@ -138,7 +136,7 @@ export default function UploadDocumentPage() {
         return;
       }
 
-      // Process non-PDF files
+      // Process code and data files
       if (type === "file" && file) {
         // For a real implementation, we would upload the file to a storage service
         // and then process it as needed (extract text, etc.)
@@ -152,11 +150,7 @@ export default function UploadDocumentPage() {
 
         // Update document type based on file extension
         const fileExt = file.name.split(".").pop()?.toLowerCase();
-        if (
-          ["txt", "md", "html", "css", "js", "ts", "json"].includes(
-            fileExt || "",
-          )
-        ) {
+        if (["css", "js", "ts", "json"].includes(fileExt || "")) {
           // For text files, read and include content
           const fileContent = await file.text();
 
@@ -198,7 +192,7 @@ export default function UploadDocumentPage() {
           return;
         } else {
           throw new Error(
-            "Unsupported file type. Supported types: PDF, TXT, MD, HTML, CSS, JS, TS, JSON",
+            "Unsupported file type. Supported types: PDF, DOCX, PPTX, XLSX, MD, HTML, TEX, TXT, IPYNB, VTT, SRT, PNG, JPG, CSS, JS, TS, JSON",
           );
         }
       }
@@ -386,13 +380,14 @@ export default function UploadDocumentPage() {
                 id="file"
                 name="file"
                 type="file"
-                accept=".pdf,.txt,.md,.html,.css,.js,.ts,.json"
+                accept={`${UPLOAD_ACCEPT},.css,.js,.ts,.json`}
                 onChange={handleFileChange}
                 className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
               />
               <p className="mt-1 text-xs text-gray-500">
-                Supported file types: PDF, TXT, MD, HTML, CSS, JS, TS, JSON.
-                Maximum file size: 10MB.
+                Supported file types: PDF, DOCX, PPTX, XLSX, MD, HTML, TEX, TXT,
+                IPYNB, VTT, SRT, PNG, JPG, CSS, JS, TS, JSON. Maximum file size:
+                10MB.
               </p>
               {file && (
                 <p className="mt-2 text-sm text-gray-700">
@@ -400,6 +395,17 @@ export default function UploadDocumentPage() {
                   KB)
                 </p>
               )}
+              {file && detectFileType(file.name, file.type) === "ipynb" && (
+                <label className="mt-2 flex items-center text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={includeOutputs}
+                    onChange={(e) => setIncludeOutputs(e.target.checked)}
+                    className="mr-2"
+                  />
+                  Include cell outputs (images are always left out)
+                </label>
+              )}
             </div>
           )}
 
@@ -0,0 +1,47 @@
+"use client";
+
+interface BranchNavigatorProps {
+  index: number;
+  count: number;
+  onSelect: (index: number) => void;
+  disabled?: boolean;
+}
+
+/**
+ * `< 2/3 >` switcher between the versions of a message (edits of a question,
+ * or regenerated answers)
+ */
+export default function BranchNavigator({
+  index,
+  count,
+  onSelect,
+  disabled = false,
+}: BranchNavigatorProps) {
+  if (count < 2) return null;
+
+  return (
+    <span className="inline-flex items-center text-xs text-gray-500">
+      <button
+        type="button"
+        onClick={() => onSelect(index - 1)}
+        disabled={disabled || index === 0}
+        aria-label="Previous version"
+        className="px-1 hover:text-gray-800 disabled:opacity-40"
+      >
+        &lt;
+      </button>
+      <span>
+        {index + 1}/{count}
+      </span>
+      <button
+        type="button"
+        onClick={() => onSelect(index + 1)}
+        disabled={disabled || index === count - 1}
+        aria-label="Next version"
+        className="px-1 hover:text-gray-800 disabled:opacity-40"
+      >
+        &gt;
+      </button>
+    </span>
+  );
+}
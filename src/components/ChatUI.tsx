@@ -2,7 +2,29 @@
 
 import { useState, useRef, useEffect } from "react";
 import { useRouter } from "next/navigation";
+import Link from "next/link";
 import { ChatMessage, AIChatOptions, Citation } from "@/types/types";
+import {
+  formatCitationLocation,
+  getCitationHref,
+  getTranscriptHref,
+} from "@/lib/citationFormat";
+import { formatTimestamp } from "@/lib/transcriptParser";
+import { readServerSentEvents } from "@/lib/sse";
+import CitedContent, { getSourceElementId } from "./CitedContent";
+import GroundednessBadge from "./GroundednessBadge";
+import BranchNavigator from "./BranchNavigator";
+import {
+  BranchSelection,
+  getActiveBranch,
+  getForkKey,
+  getLastSavedId,
+  isSavedMessage,
+} from "@/lib/messageBranches";
+
+// How often to look for the messages of an unfinished turn, and how far apart
+const RELOAD_ATTEMPTS = 3;
+const RELOAD_DELAY_MS = 500;
 
 interface ChatUIProps {
   chatId: string;
@@ -17,7 +39,10 @@ export default function ChatUI({
   initialMessages = [],
   onSaveChat,
 }: ChatUIProps) {
-  const [messages, setMessages] = useState<ChatMessage[]>(initialMessages);
+  const [messages, setMessages] = useState<ChatMessage[]>(initialMessages); // Every branch
+  const [branchSelection, setBranchSelection] = useState<BranchSelection>({});
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editText, setEditText] = useState("");
   const [input, setInput] = useState("");
   const [isLoading, setIsLoading] = useState(false);
   const [options, setOptions] = useState<AIChatOptions>({
@@ -25,6 +50,7 @@ export default function ChatUI({
     enableCitations: true,
   });
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
   const router = useRouter();
   const hasInteracted = useRef(false);
 
@@ -71,20 +97,102 @@ export default function ChatUI({
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
   };
 
+  // Replace the last message (the assistant answer being streamed)
+  const updateLastMessage = (update: (message: ChatMessage) => ChatMessage) => {
+    setMessages((prev) => [
+      ...prev.slice(0, -1),
+      update(prev[prev.length - 1]),
+    ]);
+  };
+
+  // The messages shown: the selected version at each fork
+  const branch = getActiveBranch(
+    messages.filter((message): message is ChatMessage & { id: string } =>
+      Boolean(message.id),
+    ),
+    branchSelection,
+  );
+
   const handleSendMessage = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!input.trim() || isLoading) return;
 
-    const userMessage: ChatMessage = {
-      role: "user",
+    setInput("");
+    await submitTurn({
       content: input,
+      parentId: getLastSavedId(branch),
+    });
+  };
+
+  // Send an edited question as a new version alongside the original
+  const handleSendEdit = async (message: ChatMessage) => {
+    if (!editText.trim() || isLoading) return;
+
+    setEditingId(null);
+    await submitTurn({ content: editText, parentId: message.parentId ?? null });
+  };
+
+  // Answer a question again as a new version of the answer
+  const handleRegenerate = async (message: ChatMessage) => {
+    if (!message.parentId || isLoading) return;
+
+    await submitTurn({ parentId: message.parentId, regenerate: true });
+  };
+
+  // Show a different version of a message, and the branch that follows it
+  const selectVersion = (siblings: ChatMessage[], index: number) => {
+    const message = siblings[index];
+    setBranchSelection((prev) => ({
+      ...prev,
+      [getForkKey(message)]: message.id!,
+    }));
+  };
+
+  /**
+   * Send a question after `parentId`, or with `regenerate` answer the question
+   * `parentId` again. Either way the new messages start a branch that is shown.
+   */
+  const submitTurn = async (turn: {
+    content?: string;
+    parentId: string | null;
+    regenerate?: boolean;
+  }) => {
+    const savedCount = messages.filter(isSavedMessage).length;
+    const userMessage: ChatMessage | null = turn.regenerate
+      ? null
+      : {
+          id: "temp-" + Date.now(),
+          role: "user",
+          content: turn.content || "",
+          parentId: turn.parentId,
+          createdAt: new Date().toISOString(),
+        };
+    const assistantMessage: ChatMessage = {
+      id: "temp-assistant-" + Date.now(),
+      role: "assistant",
+      content: "",
+      parentId: userMessage ? userMessage.id : turn.parentId,
+      createdAt: new Date().toISOString(),
     };
 
-    // Add user message to the chat
-    setMessages((prev) => [...prev, userMessage]);
-    setInput("");
+    // Add user message and an empty assistant message to stream into, and
+    // show them in place of the versions they sit beside
+    setMessages((prev) => [
+      ...prev,
+      ...(userMessage ? [userMessage] : []),
+      assistantMessage,
+    ]);
+    setBranchSelection((prev) => {
+      const next = { ...prev };
+      delete next[getForkKey(userMessage || assistantMessage)];
+      return next;
+    });
     setIsLoading(true);
 
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+    let saved = false; // Whether the saved messages came back
+
     try {
       // Send message to API
       const response = await fetch(`/api/chat/${chatId}`, {
@@ -93,47 +201,110 @@ export default function ChatUI({
           "Content-Type": "application/json",
         },
         body: JSON.stringify({
-          message: input,
+          message: userMessage?.content,
+          parentId: turn.parentId,
+          regenerate: turn.regenerate,
           options,
+          stream: true,
         }),
+        signal: abortController.signal,
       });
 
       if (!response.ok) {
         throw new Error("Failed to send message");
       }
 
-      const data = await response.json();
+      // Render tokens as they arrive, then swap in the saved message
+      await readServerSentEvents(response, (event) => {
+        const data = JSON.parse(event.data);
 
-      // Add assistant message to the chat
-      setMessages((prev) => [
-        ...prev,
-        {
-          role: "assistant",
-          content: data.content,
-          citations: data.citations,
-        },
-      ]);
+        if (event.event === "token") {
+          updateLastMessage((message) => ({
+            ...message,
+            content: message.content + data.content,
+          }));
+        } else if (event.event === "done") {
+          saved = true;
+          // Swap in the saved ids, the question's from the answer's parent
+          setMessages((prev) =>
+            prev.map((message) =>
+              message.id === userMessage?.id
+                ? { ...message, id: data.parentId }
+                : message.id === assistantMessage.id
+                  ? {
+                      ...message,
+                      id: data.id,
+                      parentId: data.parentId,
+                      content: data.content,
+                      citations: data.citations,
+                      searchQueries: data.searchQueries,
+                      groundedness: data.groundedness,
+                      unsupportedRanges: data.unsupportedRanges,
+                    }
+                  : message,
+            ),
+          );
+        } else if (event.event === "error") {
+          console.error("Error while generating response:", data.error);
+        }
+      });
 
       // Call onSaveChat to update parent if needed
       if (onSaveChat) {
         onSaveChat();
       }
     } catch (error) {
-      console.error("Error sending message:", error);
-      // Add error message
-      setMessages((prev) => [
-        ...prev,
-        {
-          role: "assistant",
-          content:
-            "Sorry, I encountered an error while processing your request. Please try again.",
-        },
-      ]);
+      // Stopping is no error; the server saves the partial answer
+      if (!abortController.signal.aborted) {
+        console.error("Error sending message:", error);
+        alert(
+          "Sorry, I encountered an error while processing your request. Please try again.",
+        );
+      }
     } finally {
+      // Show what the server kept of an unfinished turn instead of the
+      // temporary messages, waiting for a stopped answer to be saved
+      if (!saved) {
+        await reloadMessages(
+          abortController.signal.aborted
+            ? savedCount + (userMessage ? 2 : 1)
+            : savedCount,
+        );
+      }
+      abortControllerRef.current = null;
       setIsLoading(false);
     }
   };
 
+  /**
+   * Load the saved messages, trying again a few times until there are
+   * `expected` of them. Without them, drop the messages that aren't saved.
+   */
+  const reloadMessages = async (expected: number) => {
+    try {
+      for (let attempt = 1; ; attempt++) {
+        const response = await fetch(`/api/chat/${chatId}/messages`);
+        if (!response.ok) {
+          throw new Error("Failed to fetch messages");
+        }
+        const data: ChatMessage[] = await response.json();
+
+        if (data.length >= expected || attempt === RELOAD_ATTEMPTS) {
+          setMessages(data);
+          return;
+        }
+        await new Promise((resolve) => setTimeout(resolve, RELOAD_DELAY_MS));
+      }
+    } catch (error) {
+      console.error("Error reloading messages:", error);
+      setMessages((prev) => prev.filter(isSavedMessage));
+    }
+  };
+
+  const handleStopGeneration = () => {
+    abortControllerRef.current?.abort();
+  };
+
   const toggleOption = (option: keyof AIChatOptions) => {
     setOptions((prev) => ({
       ...prev,
@@ -152,6 +323,22 @@ export default function ChatUI({
           </p>
         </div>
         <div className="flex space-x-4">
+          <select
+            value=""
+            onChange={(e) => {
+              // Downloads as an attachment, so the chat stays open
+              if (e.target.value) {
+                window.location.href = `/api/chat/${chatId}/export?format=${e.target.value}`;
+              }
+            }}
+            aria-label="Export chat"
+            className="px-3 py-1 text-xs rounded-full bg-gray-100 text-gray-800"
+          >
+            <option value="">Export</option>
+            <option value="md">Markdown</option>
+            <option value="pdf">PDF</option>
+            <option value="json">JSON</option>
+          </select>
           <button
             type="button"
             onClick={() => toggleOption("enableCitations")}
@@ -179,7 +366,7 @@ export default function ChatUI({
 
       {/* Chat messages */}
       <div className="flex-1 overflow-y-auto p-4 bg-gray-50 space-y-4">
-        {messages.length === 0 ? (
+        {branch.length === 0 ? (
           <div className="text-center text-gray-500 my-8">
             <p className="mb-2">No messages yet</p>
             <p className="text-sm">
@@ -187,9 +374,9 @@ export default function ChatUI({
             </p>
           </div>
         ) : (
-          messages.map((message, index) => (
+          branch.map(({ message, siblings, index: version }, index) => (
             <div
-              key={index}
+              key={message.id}
               className={`flex ${
                 message.role === "user" ? "justify-end" : "justify-start"
               }`}
@@ -201,7 +388,62 @@ export default function ChatUI({
                     : "bg-white border border-gray-200"
                 }`}
               >
-                <div className="whitespace-pre-wrap">{message.content}</div>
+                {editingId === message.id ? (
+                  <div>
+                    <textarea
+                      value={editText}
+                      onChange={(e) => setEditText(e.target.value)}
+                      rows={3}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                    <div className="flex justify-end space-x-2 mt-2">
+                      <button
+                        type="button"
+                        onClick={() => setEditingId(null)}
+                        className="px-3 py-1 text-sm rounded-md bg-white text-gray-700 hover:bg-gray-100"
+                      >
+                        Cancel
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => handleSendEdit(message)}
+                        disabled={!editText.trim() || isLoading}
+                        className="px-3 py-1 text-sm rounded-md bg-blue-800 text-white hover:bg-blue-900 disabled:opacity-50"
+                      >
+                        Send
+                      </button>
+                    </div>
+                  </div>
+                ) : (
+                  <div className="whitespace-pre-wrap">
+                    {(message.content && (
+                      <CitedContent
+                        content={message.content}
+                        citations={message.citations}
+                        sourceIdPrefix={`source-${index}`}
+                        unsupportedRanges={message.unsupportedRanges}
+                      />
+                    )) ||
+                      (isLoading && index === branch.length - 1 && (
+                        <span className="text-gray-400">Thinking...</span>
+                      ))}
+                  </div>
+                )}
+
+                {/* Show whether the answer is backed by the course materials */}
+                {message.role === "assistant" &&
+                  message.groundedness != null && (
+                    <GroundednessBadge score={message.groundedness} />
+                  )}
+
+                {/* Show what retrieval searched for, e.g. a rewritten follow-up */}
+                {message.role === "assistant" &&
+                  message.searchQueries &&
+                  message.searchQueries.length > 0 && (
+                    <p className="mt-2 text-xs text-gray-500">
+                      Searched for: {message.searchQueries.join(" · ")}
+                    </p>
+                  )}
 
                 {/* Display citations if they exist */}
                 {message.role === "assistant" &&
@@ -216,11 +458,22 @@ export default function ChatUI({
                           // Instead of replacing with generic placeholder, preserve the actual source text
                           return (
                             <li key={i} className="text-xs text-gray-600">
-                              <details className="bg-gray-50 rounded">
+                              <details
+                                id={getSourceElementId(
+                                  `source-${index}`,
+                                  citation.marker ?? i + 1,
+                                )}
+                                className="bg-gray-50 rounded"
+                              >
                                 <summary className="p-2 cursor-pointer hover:bg-gray-100 flex items-center">
                                   <span className="font-medium">
-                                    Source {i + 1}
+                                    [{citation.marker ?? i + 1}]
                                   </span>
+                                  {formatCitationLocation(citation) && (
+                                    <span className="ml-1 text-gray-500">
+                                      · {formatCitationLocation(citation)}
+                                    </span>
+                                  )}
                                   <svg
                                     xmlns="http://www.w3.org/2000/svg"
                                     className="h-3 w-3 ml-1"
@@ -374,6 +627,28 @@ export default function ChatUI({
                                   )}
 
                                   <p className="text-right mt-1 text-gray-500">
+                                    {citation.pageStart && (
+                                      <a
+                                        href={getCitationHref(citation)}
+                                        target="_blank"
+                                        rel="noopener noreferrer"
+                                        className="mr-2 text-blue-600 hover:underline"
+                                      >
+                                        Open page {citation.pageStart}
+                                      </a>
+                                    )}
+                                    {citation.timeStart != null && (
+                                      <Link
+                                        href={getTranscriptHref(
+                                          courseId,
+                                          citation,
+                                        )}
+                                        className="mr-2 text-blue-600 hover:underline"
+                                      >
+                                        Open at{" "}
+                                        {formatTimestamp(citation.timeStart)}
+                                      </Link>
+                                    )}
                                     Document ID: {citation.documentId}
                                   </p>
                                 </div>
@@ -384,6 +659,35 @@ export default function ChatUI({
                       </ul>
                     </div>
                   )}
+
+                <div className="flex justify-end items-center space-x-3 mt-1">
+                  <BranchNavigator
+                    index={version}
+                    count={siblings.length}
+                    onSelect={(index) => selectVersion(siblings, index)}
+                    disabled={isLoading}
+                  />
+                  {!isLoading && isSavedMessage(message) && (
+                    <button
+                      type="button"
+                      onClick={() => {
+                        if (message.role === "user") {
+                          setEditingId(message.id);
+                          setEditText(message.content);
+                        } else {
+                          handleRegenerate(message);
+                        }
+                      }}
+                      className={`text-xs ${
+                        message.role === "user"
+                          ? "text-blue-100 hover:text-white"
+                          : "text-gray-500 hover:text-gray-800"
+                      }`}
+                    >
+                      {message.role === "user" ? "Edit" : "Regenerate"}
+                    </button>
+                  )}
+                </div>
               </div>
             </div>
           ))
@@ -402,13 +706,23 @@ export default function ChatUI({
             disabled={isLoading}
             className="flex-1 px-4 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
           />
-          <button
-            type="submit"
-            disabled={isLoading || !input.trim()}
-            className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50"
-          >
-            {isLoading ? "Sending..." : "Send"}
-          </button>
+          {isLoading ? (
+            <button
+              type="button"
+              onClick={handleStopGeneration}
+              className="px-4 py-2 bg-gray-600 text-white rounded-md hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500"
+            >
+              Stop
+            </button>
+          ) : (
+            <button
+              type="submit"
+              disabled={!input.trim()}
+              className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50"
+            >
+              Send
+            </button>
+          )}
         </form>
       </div>
     </div>
@@ -0,0 +1,102 @@
+"use client";
+
+import { Citation } from "@/types/types";
+import { formatCitationLocation } from "@/lib/citationFormat";
+import { splitCitationMarkers } from "@/lib/inlineCitations";
+
+interface CitedContentProps {
+  content: string;
+  citations?: Pick<
+    Citation,
+    | "marker"
+    | "pageStart"
+    | "pageEnd"
+    | "cellStart"
+    | "cellEnd"
+    | "timeStart"
+    | "sectionHeading"
+  >[];
+  sourceIdPrefix: string; // Sources are rendered with ids `${prefix}-${marker}`
+  unsupportedRanges?: [number, number][] | null; // Sentences to mark as unsupported
+}
+
+/**
+ * Id of the element showing a message's cited source, for footnote links
+ */
+export function getSourceElementId(prefix: string, marker: number): string {
+  return `${prefix}-${marker}`;
+}
+
+/**
+ * Render an answer with its [n] markers as footnotes that open the cited
+ * passage. Markers without a saved citation (e.g. while streaming) stay text.
+ * Sentences the course materials don't back are underlined.
+ */
+export default function CitedContent({
+  content,
+  citations = [],
+  sourceIdPrefix,
+  unsupportedRanges,
+}: CitedContentProps) {
+  const openSource = (marker: number) => {
+    const element = document.getElementById(
+      getSourceElementId(sourceIdPrefix, marker),
+    );
+    if (element instanceof HTMLDetailsElement) element.open = true;
+    element?.scrollIntoView({ behavior: "smooth", block: "nearest" });
+  };
+
+  const renderText = (text: string) =>
+    splitCitationMarkers(text).map((part, i) => {
+      if (part.type === "text") return part.text;
+
+      const citation = citations.find(
+        (citation) => citation.marker === part.marker,
+      );
+      if (!citation) return `[${part.marker}]`;
+
+      return (
+        <sup key={i}>
+          <button
+            type="button"
+            onClick={() => openSource(part.marker)}
+            title={formatCitationLocation(citation) || undefined}
+            className="mx-0.5 text-blue-600 hover:underline font-medium"
+          >
+            [{part.marker}]
+          </button>
+        </sup>
+      );
+    });
+
+  // Alternate supported and unsupported stretches of the answer
+  const segments: { text: string; unsupported: boolean }[] = [];
+  let last = 0;
+  for (const [start, end] of [...(unsupportedRanges || [])].sort(
+    (a, b) => a[0] - b[0],
+  )) {
+    if (start < last || end > content.length) continue;
+    segments.push({ text: content.slice(last, start), unsupported: false });
+    segments.push({ text: content.slice(start, end), unsupported: true });
+    last = end;
+  }
+  segments.push({ text: content.slice(last), unsupported: false });
+
+  return (
+    <>
+      {segments.map((segment, i) =>
+        segment.unsupported ? (
+          <span
+            key={i}
+            title="Not supported by your course materials"
+            className="underline decoration-dotted decoration-amber-500"
+          >
+            {renderText(segment.text)}
+          </span>
+        ) : (
+          <span key={i}>{renderText(segment.text)}</span>
+        ),
+      )}
+    </>
+  );
+}
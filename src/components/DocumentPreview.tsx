@@ -1,4 +1,13 @@
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useRef } from "react";
+import { TranscriptCue } from "@/types/types";
+import {
+  findCueAt,
+  formatTimestamp,
+  parseCaptions,
+} from "@/lib/transcriptParser";
+
+// Roughly how many labelled marks the transcript timeline shows
+const TIMELINE_MARKS = 8;
 
 interface DocumentPreviewProps {
   document: {
@@ -8,14 +17,19 @@ interface DocumentPreviewProps {
     type: string;
     url?: string | null;
   };
+  initialTime?: number; // Transcripts: seconds into the recording to open at
   onClose: () => void;
 }
 
 export default function DocumentPreview({
   document,
+  initialTime,
   onClose,
 }: DocumentPreviewProps) {
   const [textContent, setTextContent] = useState<string | null>(null);
+  const [cues, setCues] = useState<TranscriptCue[] | null>(null);
+  const [activeCue, setActiveCue] = useState<number | null>(null);
+  const cueRefs = useRef<(HTMLLIElement | null)[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
@@ -48,6 +62,128 @@ export default function DocumentPreview({
     }
   }, [document]);
 
+  // Fetch and parse the caption file for transcripts
+  useEffect(() => {
+    if (document.type !== "transcript") return;
+    setIsLoading(true);
+    setError(null);
+
+    fetch(`/api/documents/${document.id}/file`)
+      .then((response) => {
+        if (!response.ok) {
+          throw new Error(
+            `Failed to fetch transcript: ${response.status} ${response.statusText}`,
+          );
+        }
+        return response.text();
+      })
+      .then((source) => {
+        setCues(parseCaptions(source));
+        setIsLoading(false);
+      })
+      .catch((err) => {
+        console.error("Error fetching transcript:", err);
+        setError("Failed to load the transcript.");
+        setIsLoading(false);
+      });
+  }, [document]);
+
+  // Open at the requested moment once the cues are in
+  useEffect(() => {
+    if (cues && cues.length > 0 && initialTime != null) {
+      jumpTo(findCueAt(cues, initialTime));
+    }
+  }, [cues, initialTime]);
+
+  const jumpTo = (index: number) => {
+    setActiveCue(index);
+    cueRefs.current[index]?.scrollIntoView({
+      behavior: "smooth",
+      block: "center",
+    });
+  };
+
+  const renderTranscript = (cues: TranscriptCue[]) => {
+    if (cues.length === 0) {
+      return (
+        <div className="h-full flex items-center justify-center">
+          <p className="text-gray-500">This transcript has no captions</p>
+        </div>
+      );
+    }
+
+    const duration = Math.max(cues[cues.length - 1].end, 1);
+    // Marks every 1, 2, 5, 10, ... minutes, whichever gives about TIMELINE_MARKS
+    const step =
+      [60, 120, 300, 600, 900, 1800, 3600].find(
+        (seconds) => duration / seconds <= TIMELINE_MARKS,
+      ) || 3600;
+    const marks = Array.from(
+      { length: Math.floor(duration / step) + 1 },
+      (_, i) => i * step,
+    );
+
+    const handleTimelineClick = (e: React.MouseEvent<HTMLDivElement>) => {
+      const bounds = e.currentTarget.getBoundingClientRect();
+      const seconds = ((e.clientX - bounds.left) / bounds.width) * duration;
+      jumpTo(findCueAt(cues, seconds));
+    };
+
+    return (
+      <div className="h-full flex flex-col">
+        <div className="mb-4">
+          <div
+            className="relative h-3 bg-gray-200 rounded cursor-pointer"
+            onClick={handleTimelineClick}
+            title="Jump to this point in the lecture"
+          >
+            {activeCue !== null && (
+              <div
+                className="absolute top-0 h-3 w-1 bg-blue-600 rounded"
+                style={{
+                  left: `${(cues[activeCue].start / duration) * 100}%`,
+                }}
+              />
+            )}
+          </div>
+          <div className="relative h-4 mt-1 text-xs text-gray-500">
+            {marks.map((seconds) => (
+              <span
+                key={seconds}
+                className="absolute -translate-x-1/2"
+                style={{ left: `${(seconds / duration) * 100}%` }}
+              >
+                {formatTimestamp(seconds)}
+              </span>
+            ))}
+          </div>
+        </div>
+
+        <ul className="flex-grow overflow-auto space-y-1 p-2 bg-gray-50 rounded">
+          {cues.map((cue, i) => (
+            <li
+              key={i}
+              ref={(element) => {
+                cueRefs.current[i] = element;
+              }}
+              className={`flex text-sm rounded px-2 py-1 ${
+                i === activeCue ? "bg-yellow-100" : ""
+              }`}
+            >
+              <button
+                onClick={() => jumpTo(i)}
+                className="w-16 flex-shrink-0 text-left font-mono text-blue-600 hover:underline"
+              >
+                {formatTimestamp(cue.start)}
+              </button>
+              <span className="text-gray-800">{cue.text}</span>
+            </li>
+          ))}
+        </ul>
+      </div>
+    );
+  };
+
   const renderContent = () => {
     if (isLoading) {
       return (
@@ -65,6 +201,10 @@ export default function DocumentPreview({
       );
     }
 
+    if (document.type === "transcript" && cues) {
+      return renderTranscript(cues);
+    }
+
     if (document.type === "pdf" && document.url) {
       return (
         <div className="h-full flex flex-col">
@@ -0,0 +1,96 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+interface CourseDocument {
+  id: string;
+  title: string;
+  processed: boolean;
+}
+
+interface DocumentScopePickerProps {
+  courseId: string;
+  selected: string[];
+  onChange: (documentIds: string[]) => void;
+}
+
+/**
+ * Checklist of a course's documents for limiting what a chat searches.
+ * Nothing checked means the whole course.
+ */
+export default function DocumentScopePicker({
+  courseId,
+  selected,
+  onChange,
+}: DocumentScopePickerProps) {
+  const [documents, setDocuments] = useState<CourseDocument[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    fetch(`/api/courses/${courseId}/documents`)
+      .then((res) => {
+        if (!res.ok) throw new Error("Failed to fetch documents");
+        return res.json();
+      })
+      .then((data) => setDocuments(data))
+      .catch((err) => console.error("Error fetching documents:", err))
+      .finally(() => setLoading(false));
+  }, [courseId]);
+
+  const toggle = (documentId: string) => {
+    onChange(
+      selected.includes(documentId)
+        ? selected.filter((id) => id !== documentId)
+        : [...selected, documentId],
+    );
+  };
+
+  if (loading) {
+    return <p className="text-sm text-gray-500">Loading materials...</p>;
+  }
+
+  if (documents.length === 0) {
+    return (
+      <p className="text-sm text-gray-500">This course has no materials yet.</p>
+    );
+  }
+
+  return (
+    <div>
+      <p className="text-xs text-gray-500 mb-2">
+        {selected.length === 0
+          ? "Searching all course materials. Check documents to search only those."
+          : `Searching ${selected.length} of ${documents.length} documents.`}
+      </p>
+      <ul className="max-h-48 overflow-y-auto space-y-1">
+        {documents.map((document) => (
+          <li key={document.id}>
+            <label className="flex items-center text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={selected.includes(document.id)}
+                onChange={() => toggle(document.id)}
+                className="mr-2"
+              />
+              {document.title}
+              {!document.processed && (
+                <span className="ml-1 text-xs text-gray-400">
+                  (not processed yet)
+                </span>
+              )}
+            </label>
+          </li>
+        ))}
+      </ul>
+      {selected.length > 0 && (
+        <button
+          type="button"
+          onClick={() => onChange([])}
+          className="mt-2 text-xs text-indigo-600 hover:underline"
+        >
+          Search all materials
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,25 @@
+"use client";
+
+import { describeGroundedness } from "@/lib/groundedness";
+
+const LEVEL_STYLES = {
+  grounded: "bg-green-50 text-green-700",
+  partial: "bg-amber-50 text-amber-700",
+  ungrounded: "bg-red-50 text-red-700",
+};
+
+/**
+ * Show how much of an answer is backed by the course materials
+ */
+export default function GroundednessBadge({ score }: { score: number }) {
+  const { level, label } = describeGroundedness(score);
+
+  return (
+    <span
+      title={`${Math.round(score * 100)}% of the answer's statements are supported by the retrieved course materials`}
+      className={`inline-block mt-2 px-2 py-0.5 rounded text-xs ${LEVEL_STYLES[level]}`}
+    >
+      {label}
+    </span>
+  );
+}
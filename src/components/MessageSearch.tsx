@@ -0,0 +1,226 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import type { HighlightPart } from "@/lib/messageSearch";
+
+interface SearchResult {
+  messageId: string;
+  chatId: string;
+  chatTitle: HighlightPart[];
+  chatType: string;
+  courseId: string;
+  courseName: string;
+  role: string;
+  createdAt: string;
+  snippet: HighlightPart[];
+}
+
+interface MessageSearchProps {
+  courseId?: string; // Search only this course; otherwise offer a course filter
+}
+
+// Wait for a pause in typing before searching
+const SEARCH_DELAY_MS = 300;
+
+/**
+ * Search box over the user's messages and chat titles, with filters. Results
+ * link to the matching message in its chat.
+ */
+export default function MessageSearch({ courseId }: MessageSearchProps) {
+  const [query, setQuery] = useState("");
+  const [courses, setCourses] = useState<{ id: string; name: string }[]>([]);
+  const [course, setCourse] = useState("");
+  const [role, setRole] = useState("");
+  const [type, setType] = useState("");
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [results, setResults] = useState<SearchResult[] | null>(null);
+  const [searching, setSearching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (courseId) return;
+
+    fetch("/api/courses")
+      .then((res) => {
+        if (!res.ok) throw new Error("Failed to fetch courses");
+        return res.json();
+      })
+      .then((data) => setCourses(data))
+      .catch((err) => console.error("Error fetching courses:", err));
+  }, [courseId]);
+
+  useEffect(() => {
+    if (!query.trim()) {
+      setResults(null);
+      setError(null);
+      return;
+    }
+
+    const params = new URLSearchParams({ q: query });
+    const filters = { courseId: courseId || course, role, type, from, to };
+    for (const [key, value] of Object.entries(filters)) {
+      if (value) params.set(key, value);
+    }
+
+    // Drop responses for a query that has since changed
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      setSearching(true);
+      fetch(`/api/search/messages?${params}`)
+        .then(async (res) => {
+          const data = await res.json();
+          if (!res.ok) throw new Error(data.error || "Search failed");
+          return data;
+        })
+        .then((data) => {
+          if (cancelled) return;
+          setResults(data.results);
+          setError(null);
+        })
+        .catch((err) => {
+          if (cancelled) return;
+          console.error("Error searching messages:", err);
+          setError(err.message);
+        })
+        .finally(() => {
+          if (!cancelled) setSearching(false);
+        });
+    }, SEARCH_DELAY_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [query, courseId, course, role, type, from, to]);
+
+  const selectClass =
+    "px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500";
+
+  return (
+    <div className="mb-6">
+      <input
+        type="search"
+        value={query}
+        onChange={(e) => setQuery(e.target.value)}
+        placeholder="Search your messages..."
+        aria-label="Search messages"
+        className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+      />
+
+      {query.trim() && (
+        <div className="mt-2 flex flex-wrap items-center gap-2 text-sm text-gray-600">
+          {!courseId && (
+            <select
+              value={course}
+              onChange={(e) => setCourse(e.target.value)}
+              aria-label="Course"
+              className={selectClass}
+            >
+              <option value="">All courses</option>
+              {courses.map((c) => (
+                <option key={c.id} value={c.id}>
+                  {c.name}
+                </option>
+              ))}
+            </select>
+          )}
+          <select
+            value={role}
+            onChange={(e) => setRole(e.target.value)}
+            aria-label="Author"
+            className={selectClass}
+          >
+            <option value="">Questions and answers</option>
+            <option value="user">My questions</option>
+            <option value="assistant">Answers</option>
+          </select>
+          <select
+            value={type}
+            onChange={(e) => setType(e.target.value)}
+            aria-label="Chat type"
+            className={selectClass}
+          >
+            <option value="">All chats</option>
+            <option value="general">General</option>
+            <option value="assignment">Assignment</option>
+          </select>
+          <label>
+            From{" "}
+            <input
+              type="date"
+              value={from}
+              onChange={(e) => setFrom(e.target.value)}
+              className={selectClass}
+            />
+          </label>
+          <label>
+            To{" "}
+            <input
+              type="date"
+              value={to}
+              onChange={(e) => setTo(e.target.value)}
+              className={selectClass}
+            />
+          </label>
+        </div>
+      )}
+
+      {error && <p className="mt-2 text-sm text-red-600">{error}</p>}
+
+      {results && (
+        <div className="mt-3 bg-white shadow rounded-lg overflow-hidden">
+          {results.length === 0 ? (
+            <p className="px-4 py-3 text-sm text-gray-500">
+              {searching ? "Searching..." : "No messages found."}
+            </p>
+          ) : (
+            <ul className="divide-y divide-gray-200">
+              {results.map((result) => (
+                <li key={result.messageId}>
+                  <Link
+                    href={`/dashboard/courses/${result.courseId}/chat/${result.chatId}?message=${result.messageId}`}
+                    className="block px-4 py-3 hover:bg-gray-50 transition"
+                  >
+                    <div className="flex items-center justify-between text-xs text-gray-500">
+                      <span className="truncate">
+                        <span className="font-medium text-indigo-600">
+                          <Highlighted parts={result.chatTitle} />
+                        </span>
+                        {!courseId && ` · ${result.courseName}`}
+                      </span>
+                      <span className="ml-2 whitespace-nowrap">
+                        {result.role === "user" ? "You" : "Assistant"} ·{" "}
+                        {new Date(result.createdAt).toLocaleDateString()}
+                      </span>
+                    </div>
+                    <p className="mt-1 text-sm text-gray-700">
+                      <Highlighted parts={result.snippet} />
+                    </p>
+                  </Link>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function Highlighted({ parts }: { parts: HighlightPart[] }) {
+  return (
+    <>
+      {parts.map((part, i) =>
+        part.match ? (
+          <mark key={i} className="bg-yellow-100 text-inherit">
+            {part.text}
+          </mark>
+        ) : (
+          <span key={i}>{part.text}</span>
+        ),
+      )}
+    </>
+  );
+}
@@ -1,6 +1,12 @@
 "use client";
 
 import { useState } from "react";
+import {
+  detectFileType,
+  stripFileExtension,
+  UPLOAD_ACCEPT,
+  UPLOAD_TYPES_DESCRIPTION,
+} from "@/lib/documentTypes";
 
 interface PdfUploaderProps {
   courseId: string;
@@ -13,6 +19,7 @@ export default function PdfUploader({
 }: PdfUploaderProps) {
   const [file, setFile] = useState<File | null>(null);
   const [title, setTitle] = useState("");
+  const [includeOutputs, setIncludeOutputs] = useState(false);
   const [uploading, setUploading] = useState(false);
   const [error, setError] = useState("");
   const [success, setSuccess] = useState("");
@@ -27,8 +34,10 @@ export default function PdfUploader({
     }
 
     // Validate file type
-    if (selectedFile.type !== "application/pdf") {
-      setError("Only PDF files are supported");
+    if (!detectFileType(selectedFile.name, selectedFile.type)) {
+      setError(
+        `Unsupported file type. Upload one of: ${UPLOAD_TYPES_DESCRIPTION}`,
+      );
       setFile(null);
       return;
     }
@@ -38,8 +47,7 @@ export default function PdfUploader({
     // Auto-populate title from filename if not already set
     if (!title) {
       // Remove file extension and use as title
-      const fileName = selectedFile.name.replace(/\.pdf$/i, "");
-      setTitle(fileName);
+      setTitle(stripFileExtension(selectedFile.name));
     }
   };
 
@@ -47,7 +55,7 @@ export default function PdfUploader({
     e.preventDefault();
 
     if (!file || !title.trim()) {
-      setError("Please select a PDF file and provide a title");
+      setError("Please select a file and provide a title");
       return;
     }
 
@@ -66,13 +74,14 @@ export default function PdfUploader({
         throw new Error("Document title is required");
       }
       formData.append("title", trimmedTitle);
+      formData.append("includeOutputs", String(includeOutputs));
 
       // Log what we're sending (for debugging)
       console.log(
-        `Uploading PDF: ${file.name}, Size: ${file.size}, Title: ${trimmedTitle}`,
+        `Uploading file: ${file.name}, Size: ${file.size}, Title: ${trimmedTitle}`,
       );
 
-      // IMPORTANT: Make sure we're using the correct endpoint for PDF uploads
+      // IMPORTANT: Make sure we're using the correct endpoint for file uploads
       const response = await fetch(`/api/courses/${courseId}/upload`, {
         method: "POST",
         body: formData,
@@ -97,10 +106,10 @@ export default function PdfUploader({
       }
 
       if (!response.ok) {
-        throw new Error(data.error || "Failed to upload PDF");
+        throw new Error(data.error || "Failed to upload file");
       }
 
-      setSuccess("PDF uploaded successfully (OCR processing enabled)");
+      setSuccess(data.message || "File uploaded successfully");
       setFile(null);
       setTitle("");
 
@@ -108,8 +117,8 @@ export default function PdfUploader({
         onUploadComplete(data.id);
       }
     } catch (err) {
-      console.error("Error uploading PDF:", err);
-      setError(err instanceof Error ? err.message : "Failed to upload PDF");
+      console.error("Error uploading file:", err);
+      setError(err instanceof Error ? err.message : "Failed to upload file");
     } finally {
       setUploading(false);
     }
@@ -118,7 +127,7 @@ export default function PdfUploader({
   return (
     <div className="p-4 border border-gray-200 rounded-lg">
       <h3 className="text-lg font-medium text-gray-900 mb-4">
-        Upload PDF Document
+        Upload Document
       </h3>
 
       {error && (
@@ -146,7 +155,7 @@ export default function PdfUploader({
             type="text"
             value={title}
             onChange={(e) => setTitle(e.target.value)}
-            placeholder="Enter a title for your PDF"
+            placeholder="Enter a title for your document"
             className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
             required
           />
@@ -157,26 +166,41 @@ export default function PdfUploader({
             htmlFor="pdf-file"
             className="block text-gray-700 text-sm font-medium mb-1"
           >
-            PDF File
+            File
           </label>
           <input
             id="pdf-file"
             type="file"
-            accept="application/pdf"
+            accept={UPLOAD_ACCEPT}
             onChange={handleFileChange}
             className="w-full text-sm text-gray-700"
             required
           />
+          <p className="mt-1 text-xs text-gray-500">
+            {UPLOAD_TYPES_DESCRIPTION}
+          </p>
           {file && (
             <p className="mt-1 text-xs text-gray-500">
               Selected file: {file.name} ({Math.round(file.size / 1024)} KB)
             </p>
           )}
+          {file && detectFileType(file.name, file.type) === "ipynb" && (
+            <label className="mt-2 flex items-center text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={includeOutputs}
+                onChange={(e) => setIncludeOutputs(e.target.checked)}
+                className="mr-2"
+              />
+              Include cell outputs (images are always left out)
+            </label>
+          )}
         </div>
 
         <p className="mt-1 mb-4 text-sm text-gray-600">
-          All PDFs are automatically processed with OpenAI Vision OCR for
-          high-quality text extraction
+          Text is extracted from each page, slide, sheet, notebook cell or
+          caption on our server, and scans and images are read with OCR there
+          too; files are not sent to third parties
         </p>
 
         <div className="flex justify-end mt-6">
@@ -185,7 +209,7 @@ export default function PdfUploader({
             disabled={uploading || !file || !title.trim()}
             className="px-4 py-2 bg-indigo-600 text-white rounded-md hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-indigo-500 disabled:opacity-50"
           >
-            {uploading ? "Uploading..." : "Upload PDF"}
+            {uploading ? "Uploading..." : "Upload"}
           </button>
         </div>
       </form>
@@ -0,0 +1,17 @@
+import { Session } from "next-auth";
+
+/**
+ * Whether the signed-in user may run install-wide maintenance tasks.
+ * Admins are listed by email in ADMIN_EMAILS (comma separated).
+ */
+export function isAdmin(session: Session | null): boolean {
+  const email = session?.user?.email?.toLowerCase();
+  if (!email) return false;
+
+  const admins = (process.env.ADMIN_EMAILS || "")
+    .split(",")
+    .map((entry) => entry.trim().toLowerCase())
+    .filter(Boolean);
+
+  return admins.includes(email);
+}
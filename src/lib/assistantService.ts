@@ -1,8 +1,7 @@
 import OpenAI from "openai";
-import { DocumentModel } from "@/types/types";
+import { DocumentModel, ExtractedPage } from "@/types/types";
 import fs from "fs";
-import path from "path";
-import os from "os";
+import { getStoredFilePath } from "./fileStorage";
 
 const openai = new OpenAI({
   apiKey: process.env.OPENAI_API_KEY,
@@ -10,7 +9,7 @@ const openai = new OpenAI({
 
 // Assistant configuration
 const PDF_ASSISTANT_ID = process.env.OPENAI_PDF_ASSISTANT_ID || ""; // Optional: Use pre-created assistant
-const ASSISTANT_MODEL = "gpt-4o"; // Model to use for the assistant
+const ASSISTANT_MODEL = process.env.OPENAI_ASSISTANT_MODEL || "gpt-4o"; // Model to use for the assistant
 
 // Cache for thread management
 const activeThreads: Record<string, string> = {};
@@ -61,9 +60,13 @@ export async function getPdfAssistant() {
 
 /**
  * Process a PDF document using OpenAI Assistant API
+ *
+ * When `pageNumbers` is given, only those pages are requested, each under a
+ * "=== Page N ===" heading so the result can be mapped back to pages.
  */
 export async function processPdfWithAssistant(
   document: DocumentModel,
+  pageNumbers?: number[],
 ): Promise<string> {
   try {
     console.log(
@@ -78,11 +81,7 @@ export async function processPdfWithAssistant(
     }
 
     // Create a temporary file
-    const tempDir = os.tmpdir();
-    const tempFilePath = path.join(
-      tempDir,
-      `${document.id}-${document.fileName || "document.pdf"}`,
-    );
+    const tempFilePath = getStoredFilePath(document);
 
     // Get PDF buffer
     let buffer: Buffer;
@@ -118,10 +117,14 @@ export async function processPdfWithAssistant(
       activeThreads[document.id] = thread.id;
 
       // Add message to thread with file attachment
+      const prompt =
+        pageNumbers && pageNumbers.length > 0
+          ? `Please extract all text from pages ${pageNumbers.join(", ")} of this PDF document. Start each page with a line of the form "=== Page N ===". Maintain all formatting, paragraphs, tables, and structure.`
+          : "Please extract all text from this PDF document. Maintain all formatting, paragraphs, tables, and structure.";
+
       await openai.beta.threads.messages.create(thread.id, {
         role: "user",
-        content:
-          "Please extract all text from this PDF document. Maintain all formatting, paragraphs, tables, and structure.",
+        content: prompt,
         attachments: [
           {
             file_id: file.id,
@@ -215,6 +218,33 @@ export async function processPdfWithAssistant(
   }
 }
 
+/**
+ * Extract specific pages (e.g. scanned pages without a text layer) with the Assistant API
+ */
+export async function processPdfPagesWithAssistant(
+  document: DocumentModel,
+  pageNumbers: number[],
+): Promise<ExtractedPage[]> {
+  const text = await processPdfWithAssistant(document, pageNumbers);
+  const pages: ExtractedPage[] = [];
+
+  // Split the response on the page headings we asked for
+  const sections = text.split(/^\s*=+\s*Page\s+(\d+)\s*=+\s*$/im);
+  for (let i = 1; i < sections.length; i += 2) {
+    const pageNumber = parseInt(sections[i], 10);
+    if (pageNumbers.includes(pageNumber)) {
+      pages.push({ pageNumber, text: sections[i + 1].trim() });
+    }
+  }
+
+  // A single requested page may come back without a heading
+  if (pages.length === 0 && pageNumbers.length === 1) {
+    pages.push({ pageNumber: pageNumbers[0], text: text.trim() });
+  }
+
+  return pages;
+}
+
 /**
  * Check status of a run
  */
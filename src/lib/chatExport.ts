@@ -0,0 +1,378 @@
+import { Chat, Citation, Message } from "@prisma/client";
+import { splitCitationMarkers } from "./inlineCitations";
+import { describeGroundedness } from "./groundedness";
+import { getActiveBranch } from "./messageBranches";
+
+export type ChatExportFormat = "md" | "pdf" | "json";
+
+export const CHAT_EXPORT_FORMATS: ChatExportFormat[] = ["md", "pdf", "json"];
+
+// Identifies JSON exports; bump the version on breaking changes to the shape
+export const CHAT_EXPORT_SCHEMA = "class-navigator/chat-export";
+export const CHAT_EXPORT_VERSION = 1;
+
+export interface ChatExportCitation {
+  marker: number | null; // [n] used for this source in the answer
+  documentId: string;
+  sourceText: string;
+  pageStart: number | null;
+  pageEnd: number | null;
+  cellStart?: number | null; // Notebook cells; missing from older exports
+  cellEnd?: number | null;
+  timeStart?: number | null; // Transcripts, in seconds; missing from older exports
+  timeEnd?: number | null;
+  sectionHeading: string | null;
+}
+
+export interface ChatExportMessage {
+  id: string;
+  parentId: string | null; // Edits and regenerated answers share a parent
+  role: "user" | "assistant";
+  content: string;
+  createdAt: string; // ISO 8601
+  searchQueries: string[] | null;
+  groundedness: number | null;
+  // [start, end) of sentences not backed by the sources; missing from older exports
+  unsupportedRanges?: [number, number][] | null;
+  citations: ChatExportCitation[];
+}
+
+// The JSON export, documented in the README
+export interface ChatExport {
+  schema: typeof CHAT_EXPORT_SCHEMA;
+  version: typeof CHAT_EXPORT_VERSION;
+  exportedAt: string;
+  chat: {
+    id: string;
+    title: string;
+    type: string;
+    assignmentName: string | null;
+    courseId: string;
+    courseName: string;
+    createdAt: string;
+  };
+  messages: ChatExportMessage[]; // Every branch, oldest first
+}
+
+export type ExportableChat = Chat & {
+  course: { id: string; name: string };
+  messages: (Message & { citations: Citation[] })[];
+};
+
+/**
+ * Build the JSON export of a chat, with every message on every branch
+ */
+export function buildChatExport(
+  chat: ExportableChat,
+  exportedAt: Date = new Date(),
+): ChatExport {
+  return {
+    schema: CHAT_EXPORT_SCHEMA,
+    version: CHAT_EXPORT_VERSION,
+    exportedAt: exportedAt.toISOString(),
+    chat: {
+      id: chat.id,
+      title: chat.title,
+      type: chat.type,
+      assignmentName: chat.assignmentName,
+      courseId: chat.course.id,
+      courseName: chat.course.name,
+      createdAt: chat.createdAt.toISOString(),
+    },
+    messages: chat.messages.map((message) => ({
+      id: message.id,
+      parentId: message.parentId,
+      role: message.role === "user" ? "user" : "assistant",
+      content: message.content,
+      createdAt: message.createdAt.toISOString(),
+      searchQueries: message.searchQueries
+        ? JSON.parse(message.searchQueries)
+        : null,
+      groundedness: message.groundedness,
+      unsupportedRanges: message.unsupportedRanges
+        ? JSON.parse(message.unsupportedRanges)
+        : null,
+      citations: message.citations.map((citation) => ({
+        marker: citation.marker,
+        documentId: citation.documentId,
+        sourceText: citation.sourceText,
+        pageStart: citation.pageStart,
+        pageEnd: citation.pageEnd,
+        cellStart: citation.cellStart,
+        cellEnd: citation.cellEnd,
+        timeStart: citation.timeStart,
+        timeEnd: citation.timeEnd,
+        sectionHeading: citation.sectionHeading,
+      })),
+    })),
+  };
+}
+
+/**
+ * Check that a value is a chat export this version can read, e.g. before
+ * importing it
+ */
+export function parseChatExport(value: unknown): ChatExport | null {
+  const data = value as ChatExport | null;
+  if (
+    !data ||
+    data.schema !== CHAT_EXPORT_SCHEMA ||
+    data.version !== CHAT_EXPORT_VERSION ||
+    typeof data.chat?.title !== "string" ||
+    !isOptional(data.chat.assignmentName, isString) ||
+    !Array.isArray(data.messages)
+  ) {
+    return null;
+  }
+
+  const ids = new Set(data.messages.map((message) => message?.id));
+  const valid = data.messages.every(
+    (message) =>
+      typeof message?.id === "string" &&
+      (message.parentId === null || ids.has(message.parentId)) &&
+      (message.role === "user" || message.role === "assistant") &&
+      typeof message.content === "string" &&
+      !Number.isNaN(Date.parse(message.createdAt)) &&
+      isOptional(
+        message.searchQueries,
+        (queries) => Array.isArray(queries) && queries.every(isString),
+      ) &&
+      isOptional(message.groundedness, isNumber) &&
+      isOptional(
+        message.unsupportedRanges,
+        (ranges) =>
+          Array.isArray(ranges) &&
+          ranges.every(
+            (range) =>
+              Array.isArray(range) &&
+              range.length === 2 &&
+              range.every(Number.isInteger),
+          ),
+      ) &&
+      Array.isArray(message.citations) &&
+      message.citations.every(
+        (citation) =>
+          typeof citation?.documentId === "string" &&
+          typeof citation.sourceText === "string" &&
+          isOptional(citation.marker, Number.isInteger) &&
+          isOptional(citation.pageStart, Number.isInteger) &&
+          isOptional(citation.pageEnd, Number.isInteger) &&
+          isOptional(citation.cellStart, Number.isInteger) &&
+          isOptional(citation.cellEnd, Number.isInteger) &&
+          isOptional(citation.timeStart, isNumber) &&
+          isOptional(citation.timeEnd, isNumber) &&
+          isOptional(citation.sectionHeading, isString),
+      ),
+  );
+
+  return valid ? data : null;
+}
+
+function isString(value: unknown): boolean {
+  return typeof value === "string";
+}
+
+function isNumber(value: unknown): boolean {
+  return typeof value === "number" && Number.isFinite(value);
+}
+
+// Fields missing from older exports, or null, are allowed
+function isOptional(
+  value: unknown,
+  check: (value: unknown) => boolean,
+): boolean {
+  return value === undefined || value === null || check(value);
+}
+
+/**
+ * Render the thread as Markdown, with cited passages as footnotes and sources
+ * without a marker listed after them. Where a message was edited or
+ * regenerated, the latest version is shown.
+ */
+export function renderChatMarkdown(data: ChatExport): string {
+  const lines = [`# ${data.chat.title}`, "", ...describeChat(data), "", "---"];
+
+  getActiveBranch(data.messages).forEach((step, i) => {
+    const { message } = step;
+    const footnote = (marker: number) => `${i + 1}-${marker}`;
+
+    lines.push("", `### ${describeMessage(step)}`, "");
+    lines.push(
+      splitCitationMarkers(message.content)
+        .map((part) =>
+          part.type === "text"
+            ? part.text
+            : findCitation(message, part.marker)
+              ? `[^${footnote(part.marker)}]`
+              : `[${part.marker}]`,
+        )
+        .join(""),
+    );
+
+    if (message.groundedness !== null) {
+      lines.push("", `_${describeGroundedness(message.groundedness).label}_`);
+    }
+    // Continuation lines are indented to stay in the footnote or list item
+    for (const citation of message.citations) {
+      if (citation.marker === null) continue;
+      lines.push(
+        "",
+        `[^${footnote(citation.marker)}]: ${citation.sourceText.replace(/\n/g, "\n    ")}`,
+      );
+    }
+    const unmarked = message.citations.filter(
+      (citation) => citation.marker === null,
+    );
+    if (unmarked.length > 0) {
+      lines.push(
+        "",
+        "Sources:",
+        "",
+        ...unmarked.map(
+          (citation) => `- ${citation.sourceText.replace(/\n/g, "\n  ")}`,
+        ),
+      );
+    }
+  });
+
+  return lines.join("\n") + "\n";
+}
+
+/**
+ * Render the thread as a standalone HTML page, for printing to PDF
+ */
+export function renderChatHtml(data: ChatExport): string {
+  const messages = getActiveBranch(data.messages).map((step, i) => {
+    const { message } = step;
+    const footnoteId = (marker: number) => `source-${i + 1}-${marker}`;
+
+    const content = splitCitationMarkers(message.content)
+      .map((part) =>
+        part.type === "text"
+          ? escapeHtml(part.text)
+          : findCitation(message, part.marker)
+            ? `<sup><a href="#${footnoteId(part.marker)}">[${part.marker}]</a></sup>`
+            : `[${part.marker}]`,
+      )
+      .join("");
+    const sources = message.citations
+      .map((citation) =>
+        citation.marker === null
+          ? `<li>${escapeHtml(citation.sourceText)}</li>`
+          : `<li id="${footnoteId(citation.marker)}"><span class="marker">[${citation.marker}]</span> ${escapeHtml(citation.sourceText)}</li>`,
+      )
+      .join("");
+
+    return `<section class="${message.role}">
+<h3>${escapeHtml(describeMessage(step))}</h3>
+<div class="content">${content}</div>
+${message.groundedness !== null ? `<p class="grounded">${describeGroundedness(message.groundedness).label}</p>` : ""}
+${sources ? `<ol class="sources">${sources}</ol>` : ""}
+</section>`;
+  });
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(data.chat.title)}</title>
+<style>
+body { font-family: Helvetica, Arial, sans-serif; font-size: 11pt; color: #111827; line-height: 1.5; }
+h1 { font-size: 18pt; margin-bottom: 4px; }
+.meta { color: #6b7280; font-size: 9pt; margin: 0; }
+section { margin-top: 18px; padding: 10px 14px; border-radius: 6px; page-break-inside: avoid; }
+section.user { background: #eef2ff; }
+section.assistant { border: 1px solid #e5e7eb; }
+h3 { font-size: 9pt; color: #6b7280; margin: 0 0 6px; }
+.content { white-space: pre-wrap; }
+.grounded { font-size: 9pt; font-style: italic; color: #6b7280; }
+.sources { list-style: none; padding: 8px 0 0; margin: 8px 0 0; border-top: 1px solid #e5e7eb; font-size: 9pt; color: #4b5563; }
+.sources li { white-space: pre-wrap; margin-bottom: 6px; }
+.marker { font-weight: bold; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(data.chat.title)}</h1>
+${describeChat(data)
+  .map((line) => `<p class="meta">${escapeHtml(line)}</p>`)
+  .join("\n")}
+${messages.join("\n")}
+</body>
+</html>
+`;
+}
+
+/**
+ * Print the thread to PDF with headless Chrome
+ */
+export async function renderChatPdf(data: ChatExport): Promise<Uint8Array> {
+  const puppeteer = (await import("puppeteer")).default;
+  const browser = await puppeteer.launch({ headless: "new" });
+
+  try {
+    const page = await browser.newPage();
+    await page.setContent(renderChatHtml(data), { waitUntil: "load" });
+    return await page.pdf({
+      format: "A4",
+      printBackground: true,
+      margin: { top: "20mm", bottom: "20mm", left: "18mm", right: "18mm" },
+    });
+  } finally {
+    await browser.close();
+  }
+}
+
+/**
+ * File name for a download, e.g. "Limits and continuity.md"
+ */
+export function getExportFileName(
+  title: string,
+  format: ChatExportFormat,
+): string {
+  const name =
+    title
+      .replace(/[^\w\s.-]/g, "")
+      .replace(/\s+/g, " ")
+      .trim() || "chat";
+  return `${name}.${format}`;
+}
+
+function describeChat(data: ChatExport): string[] {
+  return [
+    `Course: ${data.chat.courseName}`,
+    ...(data.chat.assignmentName
+      ? [`Assignment: ${data.chat.assignmentName}`]
+      : []),
+    `Exported: ${formatTimestamp(data.exportedAt)}`,
+  ];
+}
+
+function describeMessage(step: {
+  message: ChatExportMessage;
+  siblings: ChatExportMessage[];
+  index: number;
+}): string {
+  const author = step.message.role === "user" ? "Student" : "Assistant";
+  const version =
+    step.siblings.length > 1
+      ? ` (version ${step.index + 1} of ${step.siblings.length})`
+      : "";
+  return `${author} · ${formatTimestamp(step.message.createdAt)}${version}`;
+}
+
+function findCitation(message: ChatExportMessage, marker: number) {
+  return message.citations.find((citation) => citation.marker === marker);
+}
+
+// e.g. "2025-04-01 10:00 UTC"
+function formatTimestamp(iso: string): string {
+  return `${new Date(iso).toISOString().slice(0, 16).replace("T", " ")} UTC`;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
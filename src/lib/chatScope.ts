@@ -0,0 +1,28 @@
+import { PrismaClient } from "@prisma/client";
+
+const prisma = new PrismaClient();
+
+/**
+ * Check the documents requested as a chat's scope. Returns their ids, or null
+ * unless every one is a document of the course. An empty list is valid and
+ * means the chat searches the whole course.
+ */
+export async function parseDocumentScope(
+  courseId: string,
+  value: unknown,
+): Promise<string[] | null> {
+  if (
+    !Array.isArray(value) ||
+    !value.every((id): id is string => typeof id === "string")
+  ) {
+    return null;
+  }
+
+  const documentIds = [...new Set(value)];
+  if (documentIds.length === 0) return [];
+
+  const found = await prisma.document.count({
+    where: { id: { in: documentIds }, courseId },
+  });
+  return found === documentIds.length ? documentIds : null;
+}
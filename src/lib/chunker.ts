@@ -0,0 +1,470 @@
+import { RecursiveCharacterTextSplitter } from "langchain/text_splitter";
+import { DocumentChunk, ExtractedText, TranscriptCue } from "@/types/types";
+
+const CHUNK_SIZE = 1000;
+const CHUNK_OVERLAP = 200;
+const PAGE_SEPARATOR = "\n\n";
+const MAX_HEADING_LENGTH = 100;
+// A new section starts a new chunk once the current one has this much text
+const MIN_SECTION_CHUNK = 200;
+// Code and math longer than this are split after all
+const MAX_UNBROKEN_BLOCK = 4000;
+const HEADING_PATH_SEPARATOR = " > ";
+// Transcript chunks cover at most this many seconds of the recording
+const TRANSCRIPT_WINDOW = 60;
+
+// Code and math that structured chunking keeps in one piece
+const UNBROKEN_BLOCKS = [
+  /^(`{3,}|~{3,})[^\n]*\n[\s\S]*?\n\1[ \t]*$/gm, // Fenced code
+  /\$\$[\s\S]+?\$\$/g, // $$ display math $$
+  /\\\[[\s\S]+?\\\]/g, // \[ display math \]
+  /\\begin\{(equation|align|alignat|gather|multline|eqnarray|displaymath|math|array|matrix|pmatrix|bmatrix|cases|split|tabular|verbatim|lstlisting|minted)(\*?)\}[\s\S]*?\\end\{\1\2\}/g,
+];
+
+// Where a page, or a notebook cell, sits in the joined text
+interface PartSpan {
+  number: number;
+  start: number;
+  end: number;
+}
+
+interface Heading {
+  offset: number;
+  title: string;
+  level: number;
+}
+
+interface Block {
+  start: number;
+  end: number;
+  heading: Heading | null;
+  unbroken: boolean; // Contains code or math that mustn't be split
+}
+
+interface ChunkSpan {
+  text: string;
+  charStart: number;
+  charEnd: number;
+  sectionHeading: string | null;
+}
+
+/**
+ * Split extracted text into chunks that remember their page or cell range,
+ * character offsets and nearest section heading. Structured text is split by
+ * section instead of by length alone, and transcripts by time.
+ */
+export async function chunkExtractedText(
+  extracted: ExtractedText,
+): Promise<DocumentChunk[]> {
+  if (extracted.cues?.length) return chunkTranscript(extracted.cues);
+
+  const { text, pageSpans, cellSpans } = joinParts(extracted);
+  const spans = extracted.structured
+    ? await splitBySection(text, cellSpans)
+    : await splitByLength(text);
+
+  return spans.map((span, chunkIndex) => {
+    const lastChar = Math.max(span.charStart, span.charEnd - 1);
+    return {
+      ...span,
+      chunkIndex,
+      pageStart: partAt(pageSpans, span.charStart),
+      pageEnd: partAt(pageSpans, lastChar),
+      cellStart: partAt(cellSpans, span.charStart),
+      cellEnd: partAt(cellSpans, lastChar),
+      timeStart: null,
+      timeEnd: null,
+    };
+  });
+}
+
+/**
+ * Merge transcript cues into chunks of up to TRANSCRIPT_WINDOW seconds and
+ * CHUNK_SIZE characters. Each chunk starts with the last cue of the one
+ * before, so a sentence cut at the boundary can be found from either.
+ */
+function chunkTranscript(cues: TranscriptCue[]): DocumentChunk[] {
+  // The text has one cue per line
+  const text = cues.map((cue) => cue.text).join("\n");
+  const offsets: number[] = [];
+  let offset = 0;
+  for (const cue of cues) {
+    offsets.push(offset);
+    offset += cue.text.length + 1;
+  }
+
+  const chunks: DocumentChunk[] = [];
+  let first = 0;
+  const flush = (last: number) => {
+    const charStart = offsets[first];
+    const charEnd = offsets[last] + cues[last].text.length;
+    chunks.push({
+      text: text.slice(charStart, charEnd),
+      chunkIndex: chunks.length,
+      charStart,
+      charEnd,
+      pageStart: null,
+      pageEnd: null,
+      cellStart: null,
+      cellEnd: null,
+      timeStart: cues[first].start,
+      timeEnd: cues[last].end,
+      sectionHeading: null,
+    });
+  };
+
+  for (let i = 1; i < cues.length; i++) {
+    const seconds = cues[i].end - cues[first].start;
+    const length = offsets[i] + cues[i].text.length - offsets[first];
+    if (seconds > TRANSCRIPT_WINDOW || length > CHUNK_SIZE) {
+      flush(i - 1);
+      first = i - 1 > first ? i - 1 : i;
+    }
+  }
+  flush(cues.length - 1);
+
+  return chunks;
+}
+
+/**
+ * Split text into overlapping pieces of up to CHUNK_SIZE characters,
+ * preferring paragraph, then line, then word boundaries
+ */
+async function splitByLength(text: string): Promise<ChunkSpan[]> {
+  const splitter = new RecursiveCharacterTextSplitter({
+    chunkSize: CHUNK_SIZE,
+    chunkOverlap: CHUNK_OVERLAP,
+  });
+  const pieces = await splitter.splitText(text);
+  const headings = findHeadings(text);
+
+  let cursor = 0;
+  return pieces.map((piece) => {
+    const charStart = locateChunk(text, piece, cursor);
+    const charEnd = Math.min(charStart + piece.length, text.length);
+    cursor = charStart + 1;
+
+    return {
+      text: piece,
+      charStart,
+      charEnd,
+      sectionHeading: headingFor(headings, charStart, charEnd),
+    };
+  });
+}
+
+/**
+ * Split text into chunks along its sections: each heading starts a new chunk,
+ * paragraphs are packed up to CHUNK_SIZE, and code and math blocks are never
+ * cut in half. Notebook cells are only split when a cell alone is too long.
+ * Chunks are labelled with their full heading path, e.g.
+ * "Limits > Squeeze theorem".
+ */
+async function splitBySection(
+  text: string,
+  cellSpans: PartSpan[],
+): Promise<ChunkSpan[]> {
+  const blocks = await splitOversizedBlocks(text, findBlocks(text));
+  const cells = blocks.map((block) => partAt(cellSpans, block.start));
+
+  // Heading path in effect at each block, including the block itself
+  const path: Heading[] = [];
+  const paths = blocks.map((block) => {
+    if (block.heading) {
+      while (path.length && path[path.length - 1].level >= block.heading.level)
+        path.pop();
+      path.push(block.heading);
+    }
+    return path.map((heading) => heading.title).join(HEADING_PATH_SEPARATOR);
+  });
+
+  const spans: ChunkSpan[] = [];
+  let first = -1; // Index of the current chunk's first block
+  let last = -1;
+  const flush = () => {
+    if (first === -1) return;
+    spans.push({
+      text: text.slice(blocks[first].start, blocks[last].end),
+      charStart: blocks[first].start,
+      charEnd: blocks[last].end,
+      sectionHeading: paths[first] || null,
+    });
+    first = last = -1;
+  };
+
+  blocks.forEach((block, i) => {
+    // A heading starts a new chunk, unless it directly follows another
+    // heading (e.g. a chapter title) or the chunk is still short
+    if (
+      first !== -1 &&
+      block.heading &&
+      !blocks[last].heading &&
+      blocks[last].end - blocks[first].start >= MIN_SECTION_CHUNK
+    ) {
+      flush();
+    }
+
+    if (first !== -1 && block.end - blocks[first].start > CHUNK_SIZE) {
+      // Headings at the end of the chunk move on with the text they introduce
+      let split = last + 1;
+      // So does the start of a notebook cell that continues into this block,
+      // unless the cell fills the whole chunk
+      if (cells[i] !== null && cells[last] === cells[i]) {
+        let cellStart = last;
+        while (cellStart > first && cells[cellStart - 1] === cells[i])
+          cellStart--;
+        if (cellStart > first) split = cellStart;
+      }
+      while (split - 1 >= first && blocks[split - 1].heading) split--;
+
+      if (split > first) {
+        const [start, end] = [first, last];
+        last = split - 1;
+        flush();
+
+        if (split <= end) {
+          first = split;
+          last = end;
+        } else if (
+          !block.heading &&
+          end > start &&
+          cells[end] === cells[i] &&
+          blocks[end].end - blocks[end].start <= CHUNK_OVERLAP
+        ) {
+          // Repeat a short paragraph as overlap
+          first = last = end;
+        }
+      }
+    }
+
+    if (first === -1) first = i;
+    last = i;
+  });
+  flush();
+
+  return spans;
+}
+
+/**
+ * Split text into paragraphs at blank lines, and at headings, without
+ * splitting code or math blocks
+ */
+function findBlocks(text: string): Block[] {
+  const unbroken: [number, number][] = [];
+  for (const pattern of UNBROKEN_BLOCKS) {
+    for (const match of text.matchAll(pattern)) {
+      unbroken.push([match.index!, match.index! + match[0].length]);
+    }
+  }
+  const isInside = (offset: number) =>
+    unbroken.some(([start, end]) => offset > start && offset < end);
+
+  // Block boundaries: blank lines, and the starts of heading lines
+  const cuts: number[] = [];
+  for (const match of text.matchAll(/\n[ \t]*\n/g)) {
+    if (!isInside(match.index!)) cuts.push(match.index!);
+  }
+  const headings = findHeadings(text).filter(
+    (heading) => !isInside(heading.offset),
+  );
+  for (const heading of headings) {
+    cuts.push(
+      heading.offset,
+      heading.offset + lineLength(text, heading.offset),
+    );
+  }
+  cuts.push(0, text.length);
+  cuts.sort((a, b) => a - b);
+
+  const blocks: Block[] = [];
+  for (let i = 0; i < cuts.length - 1; i++) {
+    // Trim the whitespace around each block
+    const segment = text.slice(cuts[i], cuts[i + 1]);
+    const start = cuts[i] + (segment.length - segment.trimStart().length);
+    const end = cuts[i + 1] - (segment.length - segment.trimEnd().length);
+    if (start >= end) continue;
+
+    blocks.push({
+      start,
+      end,
+      heading: headings.find((heading) => heading.offset === start) || null,
+      unbroken: unbroken.some(
+        ([blockStart, blockEnd]) => blockStart < end && blockEnd > start,
+      ),
+    });
+  }
+  return blocks;
+}
+
+/**
+ * Break up paragraphs longer than CHUNK_SIZE, and code or math longer than
+ * MAX_UNBROKEN_BLOCK, into consecutive pieces
+ */
+async function splitOversizedBlocks(
+  text: string,
+  blocks: Block[],
+): Promise<Block[]> {
+  const splitter = new RecursiveCharacterTextSplitter({
+    chunkSize: CHUNK_SIZE,
+    chunkOverlap: 0,
+  });
+
+  const result: Block[] = [];
+  for (const block of blocks) {
+    const length = block.end - block.start;
+    if (length <= (block.unbroken ? MAX_UNBROKEN_BLOCK : CHUNK_SIZE)) {
+      result.push(block);
+      continue;
+    }
+
+    const blockText = text.slice(block.start, block.end);
+    let cursor = 0;
+    for (const piece of await splitter.splitText(blockText)) {
+      const start = locateChunk(blockText, piece, cursor);
+      cursor = start + piece.length;
+      result.push({
+        start: block.start + start,
+        end: block.start + Math.min(cursor, blockText.length),
+        heading: null,
+        unbroken: false,
+      });
+    }
+  }
+  return result;
+}
+
+function lineLength(text: string, offset: number): number {
+  const end = text.indexOf("\n", offset);
+  return (end === -1 ? text.length : end) - offset;
+}
+
+/**
+ * Rebuild the document text from its pages or notebook cells, recording
+ * where each one sits
+ */
+function joinParts(extracted: ExtractedText): {
+  text: string;
+  pageSpans: PartSpan[];
+  cellSpans: PartSpan[];
+} {
+  const parts = extracted.pages?.length
+    ? extracted.pages.map((page) => ({
+        number: page.pageNumber,
+        text: page.text,
+      }))
+    : extracted.cells?.length
+      ? extracted.cells.map((cell) => ({
+          number: cell.cellNumber,
+          text: cell.text,
+        }))
+      : null;
+  if (!parts) {
+    return { text: extracted.text, pageSpans: [], cellSpans: [] };
+  }
+
+  const spans: PartSpan[] = [];
+  let text = "";
+
+  for (const part of parts) {
+    if (part.text.trim() === "") continue;
+    if (text) text += PAGE_SEPARATOR;
+    spans.push({
+      number: part.number,
+      start: text.length,
+      end: text.length + part.text.length,
+    });
+    text += part.text;
+  }
+
+  return extracted.pages?.length
+    ? { text, pageSpans: spans, cellSpans: [] }
+    : { text, pageSpans: [], cellSpans: spans };
+}
+
+/**
+ * Find where a chunk starts in the source text. The splitter can drop
+ * repeated separators, so fall back to matching the chunk's first line.
+ */
+function locateChunk(text: string, chunk: string, cursor: number): number {
+  const exact = text.indexOf(chunk, cursor);
+  if (exact !== -1) return exact;
+
+  const firstLine = chunk.split("\n")[0];
+  const partial = firstLine ? text.indexOf(firstLine, cursor) : -1;
+  return partial !== -1 ? partial : Math.min(cursor, text.length);
+}
+
+/**
+ * Get the page or cell that contains a character offset
+ */
+function partAt(spans: PartSpan[], offset: number): number | null {
+  if (spans.length === 0) return null;
+
+  for (const span of spans) {
+    // Offsets in the separator between parts belong to the next one
+    if (offset < span.end) return span.number;
+  }
+  return spans[spans.length - 1].number;
+}
+
+/**
+ * Detect lines that look like headings (markdown, numbered or keyword
+ * sections), with their level: the number of #s or of section numbers
+ */
+function findHeadings(text: string): Heading[] {
+  const headings: Heading[] = [];
+  const linePattern = /^.*$/gm;
+  let match: RegExpExecArray | null;
+
+  while ((match = linePattern.exec(text)) !== null) {
+    const line = match[0].trim();
+    if (match[0] === "") linePattern.lastIndex++;
+    if (!line || line.length > MAX_HEADING_LENGTH) continue;
+
+    const markdown = line.match(/^(#{1,6})\s+(.+)$/);
+    const numbered = line.match(/^(\d+(\.\d+)*)\.?\s+[A-Z][^.!?]*$/);
+    if (markdown) {
+      headings.push({
+        offset: match.index,
+        title: markdown[2].trim(),
+        level: markdown[1].length,
+      });
+    } else if (numbered) {
+      headings.push({
+        offset: match.index,
+        title: line,
+        level: numbered[1].split(".").length,
+      });
+    } else if (
+      /^(Chapter|Section|Lecture|Part|Unit|Module|Appendix)\s+[\w.]+\b[^.!?]*$/i.test(
+        line,
+      )
+    ) {
+      headings.push({ offset: match.index, title: line, level: 1 });
+    }
+  }
+
+  return headings;
+}
+
+/**
+ * Use the last heading before the chunk, or the first heading inside it
+ */
+function headingFor(
+  headings: Heading[],
+  charStart: number,
+  charEnd: number,
+): string | null {
+  let heading: Heading | null = null;
+
+  for (const candidate of headings) {
+    if (candidate.offset <= charStart) {
+      heading = candidate;
+    } else {
+      if (!heading && candidate.offset < charEnd) heading = candidate;
+      break;
+    }
+  }
+
+  return heading ? heading.title : null;
+}
@@ -0,0 +1,91 @@
+import { Citation } from "@/types/types";
+import { formatTimestamp } from "./transcriptParser";
+
+/**
+ * Format a page range for display, e.g. "p. 14" or "pp. 14-15"
+ */
+export function formatPageRange(
+  pageStart?: number | null,
+  pageEnd?: number | null,
+): string | null {
+  if (!pageStart) return null;
+  if (!pageEnd || pageEnd === pageStart) return `p. ${pageStart}`;
+  return `pp. ${pageStart}-${pageEnd}`;
+}
+
+/**
+ * Format a notebook cell range for display, e.g. "cell 12" or "cells 12-13"
+ */
+export function formatCellRange(
+  cellStart?: number | null,
+  cellEnd?: number | null,
+): string | null {
+  if (!cellStart) return null;
+  if (!cellEnd || cellEnd === cellStart) return `cell ${cellStart}`;
+  return `cells ${cellStart}-${cellEnd}`;
+}
+
+type CitationLocation = Pick<
+  Citation,
+  | "pageStart"
+  | "pageEnd"
+  | "cellStart"
+  | "cellEnd"
+  | "timeStart"
+  | "sectionHeading"
+>;
+
+/**
+ * Describe where in its document a citation points, e.g. "p. 14 · Lecture 3",
+ * "cell 12 · Gradient descent" or "23:41" into a recording
+ */
+export function formatCitationLocation(
+  citation: CitationLocation,
+): string | null {
+  const parts = [
+    formatPageRange(citation.pageStart, citation.pageEnd),
+    formatCellRange(citation.cellStart, citation.cellEnd),
+    citation.timeStart != null ? formatTimestamp(citation.timeStart) : null,
+    citation.sectionHeading,
+  ].filter(Boolean);
+
+  return parts.length > 0 ? parts.join(" · ") : null;
+}
+
+/**
+ * Name a cited source for the model and the saved citation, e.g.
+ * '"Lecture 2" (p. 4)', or '"Lecture 7" @ 23:41' for a transcript
+ */
+export function formatCitationSource(
+  title: string,
+  citation: CitationLocation,
+): string {
+  if (citation.timeStart != null) {
+    return `"${title}" @ ${formatTimestamp(citation.timeStart)}`;
+  }
+  const location = formatCitationLocation(citation);
+  return location ? `"${title}" (${location})` : `"${title}"`;
+}
+
+/**
+ * Link to the cited document file, opened at the cited page when known
+ */
+export function getCitationHref(
+  citation: Pick<Citation, "documentId" | "pageStart">,
+): string {
+  const href = `/api/documents/${citation.documentId}/file`;
+  return citation.pageStart ? `${href}#page=${citation.pageStart}` : href;
+}
+
+/**
+ * Link to a transcript's preview on its course page, at the cited moment
+ */
+export function getTranscriptHref(
+  courseId: string,
+  citation: Pick<Citation, "documentId" | "timeStart">,
+): string {
+  const href = `/dashboard/courses/${courseId}?document=${citation.documentId}`;
+  return citation.timeStart != null
+    ? `${href}&t=${Math.floor(citation.timeStart)}`
+    : href;
+}
@@ -0,0 +1,255 @@
+import { PrismaClient } from "@prisma/client";
+import { DEFAULT_MAX_TOKENS, LLMMessage, LLMProvider } from "./llmProvider";
+import {
+  countMessageTokens,
+  countTokens,
+  truncateToTokens,
+} from "./tokenCounter";
+
+const prisma = new PrismaClient();
+
+// Share of the tokens left after the instructions that retrieved sources may use
+const DEFAULT_SOURCES_SHARE = 0.6;
+const SUMMARY_MAX_TOKENS = 500;
+// After summarizing, recent turns kept word for word use at most this share of
+// the history budget, so the next summary isn't needed on the very next turn
+const HISTORY_KEEP_SHARE = 0.5;
+
+const SOURCES_HEADER =
+  "\n\nThe following are relevant sections from course materials:\n\n";
+
+export interface ContextSource {
+  label: string; // e.g. 'Document 1: "Lecture 3" (p. 14)'
+  content: string;
+}
+
+export interface HistoryMessage extends LLMMessage {
+  createdAt: Date;
+}
+
+export interface ChatContextInput {
+  llm: LLMProvider;
+  instructions: string;
+  sources: ContextSource[];
+  summary?: string | null;
+  history: HistoryMessage[];
+  message: string;
+}
+
+export interface ChatContext {
+  messages: LLMMessage[];
+  includedSources: number; // Sources are added in rank order; this many fit
+  overflow: HistoryMessage[]; // Oldest turns that didn't fit
+  historyBudget: number; // Tokens that were left for history
+  tokens: number;
+}
+
+/**
+ * Get the prompt token budget for a model: CONTEXT_TOKEN_BUDGET if set,
+ * never more than the context window minus room for the answer
+ */
+export function getContextBudget(llm: LLMProvider): number {
+  const available = llm.contextWindow - DEFAULT_MAX_TOKENS;
+  const configured = parseInt(process.env.CONTEXT_TOKEN_BUDGET || "", 10);
+  return configured > 0 ? Math.min(configured, available) : available;
+}
+
+/**
+ * Fit the instructions, conversation summary, retrieved sources and history
+ * into the model's token budget. The instructions, summary and latest message
+ * always go in; sources then take up to CONTEXT_SOURCES_SHARE of what's left,
+ * best ranked first, and history fills the rest from the newest turn back.
+ */
+export function buildChatContext(
+  input: ChatContextInput,
+  budget: number = getContextBudget(input.llm),
+): ChatContext {
+  const model = input.llm.model;
+
+  const summary = input.summary
+    ? `\n\nSummary of the earlier conversation:\n${truncateToTokens(input.summary, SUMMARY_MAX_TOKENS, model)}`
+    : "";
+  let remaining =
+    budget -
+    countMessageTokens(
+      [
+        { role: "system", content: input.instructions + summary },
+        { role: "user", content: input.message },
+      ],
+      model,
+    );
+
+  // Sources, in rank order, while they fit their share
+  const share = parseFloat(process.env.CONTEXT_SOURCES_SHARE || "");
+  const sourceBudget =
+    Math.max(0, remaining) *
+    (share >= 0 && share <= 1 ? share : DEFAULT_SOURCES_SHARE);
+  let sources = "";
+  let sourceTokens = countTokens(SOURCES_HEADER, model);
+  let includedSources = 0;
+
+  for (const source of input.sources) {
+    const block = `${source.label}\n${source.content}\n\n`;
+    const tokens = countTokens(block, model);
+    if (sourceTokens + tokens > sourceBudget) break;
+    sources += block;
+    sourceTokens += tokens;
+    includedSources++;
+  }
+  if (includedSources > 0) {
+    remaining -= sourceTokens;
+  }
+
+  // History, newest turn first, while it fits
+  const historyBudget = Math.max(0, remaining);
+  let start = input.history.length;
+  while (start > 0) {
+    const tokens = countMessageTokens([input.history[start - 1]], model);
+    if (tokens > remaining) break;
+    remaining -= tokens;
+    start--;
+  }
+
+  const system =
+    input.instructions +
+    summary +
+    (includedSources > 0 ? SOURCES_HEADER + sources.trimEnd() : "");
+
+  return {
+    messages: [
+      { role: "system", content: system },
+      ...input.history
+        .slice(start)
+        .map(({ role, content }) => ({ role, content })),
+      { role: "user", content: input.message },
+    ],
+    includedSources,
+    overflow: input.history.slice(0, start),
+    historyBudget,
+    tokens: budget - remaining,
+  };
+}
+
+/**
+ * Build the chat context, first folding older turns into the chat's rolling
+ * summary when the history no longer fits. Returns the context along with the
+ * summary it used.
+ */
+export async function assembleChatContext(
+  chatId: string,
+  input: ChatContextInput,
+): Promise<ChatContext & { summary: string | null }> {
+  const context = buildChatContext(input);
+  if (context.overflow.length === 0) {
+    return { ...context, summary: input.summary || null };
+  }
+
+  // Fold the overflow, plus enough older kept turns to leave headroom
+  const model = input.llm.model;
+  let folded = context.overflow.length;
+  let keptTokens = countMessageTokens(input.history.slice(folded), model);
+  while (
+    folded < input.history.length &&
+    keptTokens > context.historyBudget * HISTORY_KEEP_SHARE
+  ) {
+    keptTokens -= countMessageTokens([input.history[folded]], model);
+    folded++;
+  }
+
+  try {
+    const summary = await summarizeTurns(
+      chatId,
+      input.llm,
+      input.summary || null,
+      input.history.slice(0, folded),
+    );
+    console.log(
+      `Folded ${folded} older messages into the summary of chat ${chatId}`,
+    );
+    return {
+      ...buildChatContext({
+        ...input,
+        summary,
+        history: input.history.slice(folded),
+      }),
+      summary,
+    };
+  } catch (error) {
+    // The context still fits without the dropped turns, just with less memory
+    console.error("Error summarizing chat history:", error);
+    return { ...context, summary: input.summary || null };
+  }
+}
+
+/**
+ * Merge turns into the chat's running summary and record how far it covers.
+ * Turns are merged in parts that fit the model's budget, and a turn too long
+ * to fit by itself is cut short.
+ */
+async function summarizeTurns(
+  chatId: string,
+  llm: LLMProvider,
+  previousSummary: string | null,
+  turns: HistoryMessage[],
+): Promise<string> {
+  const model = llm.model;
+  const budget = getContextBudget(llm);
+  let summary = previousSummary || "";
+
+  let start = 0;
+  while (start < turns.length) {
+    const room =
+      budget - countMessageTokens(getSummaryPrompt(summary, ""), model);
+    const parts: string[] = [];
+    let used = 0;
+    let end = start;
+    while (end < turns.length) {
+      const turn = `${turns[end].role === "user" ? "Student" : "Assistant"}: ${turns[end].content}\n\n`;
+      const tokens = countTokens(turn, model);
+      if (used + tokens > room) {
+        if (parts.length === 0) {
+          parts.push(truncateToTokens(turn, room, model));
+          end++;
+        }
+        break;
+      }
+      parts.push(turn);
+      used += tokens;
+      end++;
+    }
+
+    summary = await llm.complete({
+      messages: getSummaryPrompt(summary, parts.join("").trimEnd()),
+      temperature: 0,
+      maxTokens: SUMMARY_MAX_TOKENS,
+    });
+    start = end;
+  }
+
+  await prisma.chat.update({
+    where: { id: chatId },
+    data: {
+      summary,
+      summarizedUntil: turns[turns.length - 1].createdAt,
+    },
+  });
+
+  return summary;
+}
+
+/**
+ * Prompt that merges part of the conversation into the summary
+ */
+function getSummaryPrompt(summary: string, transcript: string): LLMMessage[] {
+  return [
+    {
+      role: "system",
+      content: `You maintain the running summary of a study session between a student and a course assistant.
+Merge the new part of the conversation into the existing summary. Keep what the student is working on, key explanations and definitions given, which course materials were discussed, and any open questions. Stay under 300 words.`,
+    },
+    {
+      role: "user",
+      content: `Existing summary:\n${summary || "(none)"}\n\nNew conversation:\n${transcript}`,
+    },
+  ];
+}
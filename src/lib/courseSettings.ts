@@ -0,0 +1,164 @@
+import { CourseSettings } from "@prisma/client";
+
+export type CourseTone = "friendly" | "formal" | "concise" | "socratic";
+
+// What each tone asks of the model
+export const COURSE_TONES: Record<CourseTone, string> = {
+  friendly: "Use a warm, encouraging tone and plain language.",
+  formal: "Use a formal, academic tone and precise terminology.",
+  concise:
+    "Keep answers short and to the point, using lists where they help. Skip introductions and recaps.",
+  socratic:
+    "Prefer guiding questions that lead the student to the answer over stating it outright.",
+};
+
+const DEFAULT_RETRIEVAL_TOP_K = 5;
+// The chat route retrieves 20 candidates, so more can't reach the prompt
+const MAX_RETRIEVAL_TOP_K = 20;
+const MAX_CUSTOM_INSTRUCTIONS_LENGTH = 4000;
+const MAX_NAME_LENGTH = 100;
+
+export type CourseSettingsInput = Partial<
+  Pick<
+    CourseSettings,
+    | "customInstructions"
+    | "tone"
+    | "answerLanguage"
+    | "model"
+    | "temperature"
+    | "retrievalTopK"
+    | "similarityThreshold"
+  >
+>;
+
+// Settings with the deployment defaults filled in
+export interface ResolvedCourseSettings {
+  customInstructions: string | null;
+  tone: CourseTone | null;
+  answerLanguage: string | null;
+  model: string | null;
+  temperature: number | undefined; // Undefined leaves it to the provider
+  retrievalTopK: number;
+  similarityThreshold: number;
+}
+
+/**
+ * Fill in defaults for a course without settings (or with some left unset),
+ * using RETRIEVAL_TOP_K and RETRIEVAL_SIMILARITY_THRESHOLD when configured
+ */
+export function resolveCourseSettings(
+  settings?: CourseSettingsInput | null,
+): ResolvedCourseSettings {
+  const topK = parseInt(process.env.RETRIEVAL_TOP_K || "", 10);
+  const threshold = parseFloat(
+    process.env.RETRIEVAL_SIMILARITY_THRESHOLD || "",
+  );
+
+  return {
+    customInstructions: settings?.customInstructions || null,
+    tone: isCourseTone(settings?.tone) ? settings.tone : null,
+    answerLanguage: settings?.answerLanguage || null,
+    model: settings?.model || null,
+    temperature: settings?.temperature ?? undefined,
+    retrievalTopK:
+      settings?.retrievalTopK ??
+      (Number.isNaN(topK) ? DEFAULT_RETRIEVAL_TOP_K : topK),
+    similarityThreshold:
+      settings?.similarityThreshold ??
+      (Number.isNaN(threshold) ? 0 : threshold),
+  };
+}
+
+/**
+ * Check settings sent by the course editor. Fields left out are unchanged,
+ * and null or an empty string resets one to its default.
+ */
+export function parseCourseSettings(
+  value: unknown,
+): { settings: CourseSettingsInput } | { error: string } {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    return { error: "settings must be an object" };
+  }
+
+  const input = value as Record<string, unknown>;
+  const settings: CourseSettingsInput = {};
+
+  const text = (field: keyof CourseSettingsInput, maxLength: number) => {
+    const raw = input[field];
+    if (raw === undefined) return null;
+    if (raw !== null && typeof raw !== "string") {
+      return `${field} must be text`;
+    }
+    const trimmed = raw?.trim() || null;
+    if (trimmed && trimmed.length > maxLength) {
+      return `${field} must be at most ${maxLength} characters`;
+    }
+    Object.assign(settings, { [field]: trimmed });
+    return null;
+  };
+
+  const number = (
+    field: keyof CourseSettingsInput,
+    min: number,
+    max: number,
+    integer = false,
+  ) => {
+    const raw = input[field];
+    if (raw === undefined) return null;
+    if (
+      raw !== null &&
+      (typeof raw !== "number" ||
+        Number.isNaN(raw) ||
+        raw < min ||
+        raw > max ||
+        (integer && !Number.isInteger(raw)))
+    ) {
+      return `${field} must be ${integer ? "a whole number" : "a number"} between ${min} and ${max}`;
+    }
+    Object.assign(settings, { [field]: raw });
+    return null;
+  };
+
+  if (input.tone !== undefined) {
+    if (input.tone && !isCourseTone(input.tone)) {
+      return { error: `Unsupported tone: ${input.tone}` };
+    }
+    settings.tone = (input.tone as CourseTone) || null;
+  }
+
+  const error =
+    text("customInstructions", MAX_CUSTOM_INSTRUCTIONS_LENGTH) ||
+    text("answerLanguage", MAX_NAME_LENGTH) ||
+    text("model", MAX_NAME_LENGTH) ||
+    number("temperature", 0, 2) ||
+    number("retrievalTopK", 1, MAX_RETRIEVAL_TOP_K, true) ||
+    number("similarityThreshold", 0, 1);
+
+  return error ? { error } : { settings };
+}
+
+/**
+ * System prompt additions for a course's tone, answer language and custom
+ * instructions
+ */
+export function buildCourseInstructions(
+  settings: ResolvedCourseSettings,
+): string {
+  let instructions = "";
+
+  if (settings.tone) {
+    instructions += `\n- ${COURSE_TONES[settings.tone]}`;
+  }
+  if (settings.answerLanguage) {
+    instructions += `\n- Always answer in ${settings.answerLanguage}, even when the question or the course materials are in another language. Quote the materials in their original language when the exact wording matters.`;
+  }
+  if (settings.customInstructions) {
+    instructions += `\n\nThe instructor gave these instructions for this course:\n${settings.customInstructions}`;
+  }
+
+  return instructions;
+}
+
+function isCourseTone(value: unknown): value is CourseTone {
+  return typeof value === "string" && Object.keys(COURSE_TONES).includes(value);
+}
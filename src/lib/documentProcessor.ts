@@ -1,51 +1,74 @@
 import { PrismaClient } from "@prisma/client";
-import { RecursiveCharacterTextSplitter } from "langchain/text_splitter";
-import { OpenAIEmbeddings } from "@langchain/openai";
 import axios from "axios";
 import * as cheerio from "cheerio";
-import { processPdfWithAssistant } from "./assistantService";
-import { DocumentModel } from "@/types/types";
+import { processPdfPagesWithAssistant } from "./assistantService";
+import { extractPdfPages, findEmptyPages } from "./pdfExtractor";
+import { extractOfficeText } from "./officeExtractor";
+import { extractTextFile } from "./textExtractor";
+import { extractNotebookText } from "./notebookExtractor";
+import { extractTranscriptText } from "./transcriptParser";
+import {
+  extractImageText,
+  ocrPdfPages,
+  summarizeOcrConfidence,
+} from "./ocrExtractor";
+import { readStoredFile, saveStoredFile } from "./fileStorage";
+import { chunkExtractedText } from "./chunker";
+import { EmbeddingProvider, getEmbeddingProvider } from "./embeddingProvider";
+import { withRetry } from "./retry";
+import { markVectorIndexStale, refreshVectorIndex } from "./vectorIndex";
+import { DocumentChunk, DocumentModel, ExtractedText } from "@/types/types";
 
 const prisma = new PrismaClient();
 
+const DEFAULT_EMBEDDING_BATCH_SIZE = 64;
+const DEFAULT_EMBEDDING_CONCURRENCY = 4;
+
 /**
  * Process a document and generate embeddings for its content
  */
 export async function processDocument(document: DocumentModel): Promise<void> {
   try {
     // Step 1: Extract text based on document type
-    const text = await extractText(document);
-    if (!text) return;
+    const extracted = await extractText(document);
+    if (!extracted) return;
 
     // Step 2: Split text into chunks
-    const chunks = await splitIntoChunks(text);
+    const chunks = await splitIntoChunks(extracted);
 
-    // Step 3: Generate embeddings for each chunk
-    const embeddings = new OpenAIEmbeddings({
-      openAIApiKey: process.env.OPENAI_API_KEY,
+    // Step 3: Generate embeddings for each chunk, using the model the
+    // course's existing vectors were made with so search can compare them
+    const course = await prisma.course.findUnique({
+      where: { id: document.courseId },
+      select: { embeddingModel: true },
     });
+    const embeddings = getEmbeddingProvider(course?.embeddingModel);
 
-    // Step 4: Store each chunk and its embedding in the database
-    for (const chunk of chunks) {
-      try {
-        const embeddingVector = await embeddings.embedQuery(chunk);
-
-        // Store as a string since SQLite doesn't support array types
-        const embeddingString = JSON.stringify(embeddingVector);
-
-        await prisma.vectorStore.create({
-          data: {
-            documentId: document.id,
-            chunk,
-            embedding: embeddingString,
-          },
-        });
-      } catch (error) {
-        console.error("Error generating embedding for chunk:", error);
-        // Continue with other chunks if one fails
-      }
+    // Step 4: Embed and store the chunks in batches. Clear vectors left by an
+    // earlier attempt first, and on failure, so a document is either fully
+    // indexed or not indexed at all.
+    await prisma.vectorStore.deleteMany({ where: { documentId: document.id } });
+    try {
+      await embedAndStoreChunks(document.id, chunks, embeddings);
+    } catch (error) {
+      await prisma.vectorStore.deleteMany({
+        where: { documentId: document.id },
+      });
+      await markVectorIndexStale(document.courseId);
+      throw error;
+    }
+
+    // Pin the course to this model if it didn't have one yet
+    if (!course?.embeddingModel) {
+      await prisma.course.updateMany({
+        where: { id: document.courseId, embeddingModel: null },
+        data: { embeddingModel: embeddings.model },
+      });
     }
 
+    // Bring the course's search index up to date with the new chunks
+    await refreshVectorIndex(document.courseId, embeddings.model);
+
     // Update document status to processed
     await prisma.document.update({
       where: { id: document.id },
@@ -57,102 +80,305 @@ export async function processDocument(document: DocumentModel): Promise<void> {
   }
 }
 
+/**
+ * Embed chunks with one `embedDocuments` call per batch, running a few
+ * batches at once (EMBEDDING_BATCH_SIZE, EMBEDDING_CONCURRENCY), and write
+ * each batch with a single `createMany`
+ */
+async function embedAndStoreChunks(
+  documentId: string,
+  chunks: DocumentChunk[],
+  embeddings: EmbeddingProvider,
+): Promise<void> {
+  const batchSize =
+    parseInt(process.env.EMBEDDING_BATCH_SIZE || "", 10) ||
+    DEFAULT_EMBEDDING_BATCH_SIZE;
+  const concurrency =
+    parseInt(process.env.EMBEDDING_CONCURRENCY || "", 10) ||
+    DEFAULT_EMBEDDING_CONCURRENCY;
+
+  const batches: DocumentChunk[][] = [];
+  for (let i = 0; i < chunks.length; i += batchSize) {
+    batches.push(chunks.slice(i, i + batchSize));
+  }
+
+  console.log(
+    `Embedding ${chunks.length} chunks in ${batches.length} batches with ${embeddings.model}`,
+  );
+
+  // Each worker takes the next unclaimed batch until none are left, and all
+  // stop once one fails
+  let next = 0;
+  let failed = false;
+  const worker = async () => {
+    while (!failed && next < batches.length) {
+      const batch = batches[next++];
+      const vectors = await withRetry(() =>
+        embeddings.embedDocuments(batch.map((chunk) => chunk.text)),
+      );
+      // Local and OpenAI-compatible servers don't always answer in full
+      if (vectors.length !== batch.length) {
+        throw new Error(
+          `${embeddings.model} returned ${vectors.length} embeddings for ${batch.length} chunks`,
+        );
+      }
+
+      await prisma.vectorStore.createMany({
+        data: batch.map((chunk, i) => ({
+          documentId,
+          chunk: chunk.text,
+          // Store as a string since SQLite doesn't support array types
+          embedding: JSON.stringify(vectors[i]),
+          embeddingModel: embeddings.model,
+          embeddingDimension: vectors[i].length,
+          chunkIndex: chunk.chunkIndex,
+          charStart: chunk.charStart,
+          charEnd: chunk.charEnd,
+          pageStart: chunk.pageStart,
+          pageEnd: chunk.pageEnd,
+          cellStart: chunk.cellStart,
+          cellEnd: chunk.cellEnd,
+          timeStart: chunk.timeStart,
+          timeEnd: chunk.timeEnd,
+          sectionHeading: chunk.sectionHeading,
+        })),
+      });
+    }
+  };
+
+  // Wait for every worker to stop before reporting a failure, so the caller's
+  // cleanup can't race a batch still being written
+  const results = await Promise.allSettled(
+    Array.from({ length: Math.min(concurrency, batches.length) }, () =>
+      worker().catch((error) => {
+        failed = true;
+        throw error;
+      }),
+    ),
+  );
+  const rejected = results.find((result) => result.status === "rejected");
+  if (rejected) throw (rejected as PromiseRejectedResult).reason;
+}
+
 /**
  * Extract text from a document based on its type
  */
-async function extractText(document: DocumentModel): Promise<string | null> {
-  switch (document.type) {
+async function extractText(
+  document: DocumentModel,
+): Promise<ExtractedText | null> {
+  const { type } = document;
+
+  switch (type) {
     case "text":
-      return document.content || "";
+      return { text: document.content || "" };
 
     case "url":
       if (!document.url) return null;
-      return await extractTextFromUrl(document.url);
+      return { text: await extractTextFromUrl(document.url) };
 
     case "pdf":
-      console.log("Processing PDF with OpenAI Assistant API");
+      return await extractTextFromPdf(document);
 
-      try {
-        let buffer: Buffer;
+    case "docx":
+    case "pptx":
+    case "xlsx":
+      return await extractTextFromFile(document, (buffer) =>
+        extractOfficeText(type, buffer),
+      );
 
-        // If we have a direct buffer (from upload), use it
-        if (document._buffer) {
-          buffer = document._buffer;
-        }
-        // If we have a URL, download the PDF and process it
-        else if (document.url) {
-          // Download the PDF from the URL
-          const response = await axios.get(document.url, {
-            responseType: "arraybuffer",
-          });
-          buffer = Buffer.from(response.data);
-        }
-        // If we don't have buffer or URL, but have content, it may be already processed
-        else if (
-          document.content &&
-          !(
-            document.content.includes("[") &&
-            document.content.includes("]") &&
-            (document.content.includes("PROCESSING") ||
-              document.content.includes("Error"))
-          )
-        ) {
-          return document.content;
-        } else {
-          throw new Error(
-            `Cannot process PDF document with ID ${document.id}. No content or buffer available.`,
+    case "md":
+    case "html":
+    case "tex":
+    case "txt":
+      return await extractTextFromFile(document, (buffer) =>
+        extractTextFile(type, buffer),
+      );
+
+    case "ipynb":
+      return await extractTextFromFile(document, (buffer) =>
+        extractNotebookText(buffer, {
+          includeOutputs: document.includeOutputs,
+        }),
+      );
+
+    case "transcript":
+      return await extractTextFromFile(document, extractTranscriptText);
+
+    case "png":
+    case "jpeg":
+      return await extractTextFromFile(document, extractImageText);
+
+    default:
+      console.error(`Unsupported document type: ${document.type}`);
+      return null;
+  }
+}
+
+/**
+ * Extract per-page text from a PDF locally with pdf.js. Pages without a text
+ * layer are read with local OCR, unless PDF_OCR is off, and whatever is still
+ * empty is only sent to the OpenAI Assistant when PDF_ASSISTANT_FALLBACK is on.
+ */
+async function extractTextFromPdf(
+  document: DocumentModel,
+): Promise<ExtractedText> {
+  console.log(`Extracting PDF text locally for document ${document.id}`);
+
+  try {
+    const buffer = await loadDocumentFile(document);
+
+    if (!buffer) {
+      // If we don't have the file, but have content, it may be already processed
+      if (
+        document.content &&
+        !(
+          document.content.includes("[") &&
+          document.content.includes("]") &&
+          (document.content.includes("PROCESSING") ||
+            document.content.includes("Error"))
+        )
+      ) {
+        return { text: document.content };
+      }
+      throw new Error(
+        `Cannot process PDF document with ID ${document.id}. No content or buffer available.`,
+      );
+    }
+
+    let pages = await extractPdfPages(buffer);
+
+    // Scanned pages have no text layer; read them locally with OCR, and
+    // optionally recover what that misses remotely
+    let emptyPages = findEmptyPages(pages);
+    if (emptyPages.length > 0) {
+      console.warn(
+        `PDF document ${document.id} has ${emptyPages.length} page(s) without a text layer: ${emptyPages.join(", ")}`,
+      );
+
+      if (process.env.PDF_OCR !== "false") {
+        try {
+          const recognized = await ocrPdfPages(buffer, emptyPages);
+          pages = pages.map(
+            (page) =>
+              recognized.find((r) => r.pageNumber === page.pageNumber) || page,
           );
+          emptyPages = findEmptyPages(pages);
+        } catch (error) {
+          console.error("OCR of scanned pages failed:", error);
         }
+      }
 
-        // Use the Assistant API implementation
-        const extractedText = await processPdfWithAssistant({
-          ...document,
-          _buffer: buffer,
-        });
-
-        // Ensure we got actual content, not just a placeholder or error message
-        if (
-          !extractedText ||
-          extractedText.trim() === "" ||
-          (extractedText.includes("[") &&
-            extractedText.includes("]") &&
-            extractedText.includes("Error"))
-        ) {
-          console.error("Failed to extract proper text content from PDF");
-          throw new Error(
-            "PDF text extraction failed. No text content was extracted.",
+      if (
+        emptyPages.length > 0 &&
+        process.env.PDF_ASSISTANT_FALLBACK === "true"
+      ) {
+        try {
+          const recovered = await processPdfPagesWithAssistant(
+            { ...document, _buffer: buffer },
+            emptyPages,
+          );
+          pages = pages.map(
+            (page) =>
+              recovered.find((r) => r.pageNumber === page.pageNumber) || page,
           );
+        } catch (error) {
+          console.error("Assistant fallback for scanned pages failed:", error);
         }
+      }
+    }
 
-        // For certain error messages related to OpenAI assistant, format appropriately
-        let finalText = extractedText;
-        if (extractedText.includes("cannot directly extract text") && 
-            extractedText.includes("upload the file again")) {
-          // This is a specific error message from the OpenAI assistant about PDF extraction
-          finalText = `Because of the new implementation with openai assistant, this text cannot be directly extracted from the uploaded PDF document. Please try reprocessing this document for improved extraction.`;
-        }
+    const text = pages
+      .map((page) => page.text)
+      .filter((pageText) => pageText.trim() !== "")
+      .join("\n\n");
 
-        // Update the document with the extracted text for future use
-        await prisma.document.update({
-          where: { id: document.id },
-          data: { content: finalText },
-        });
+    // Ensure we got actual content
+    if (!text.trim()) {
+      console.error("Failed to extract proper text content from PDF");
+      throw new Error(
+        "PDF text extraction failed. No text content was extracted.",
+      );
+    }
 
-        console.log(
-          `Successfully extracted ${finalText.length} characters of text from PDF`,
-        );
-        return finalText;
-      } catch (error) {
-        console.error("Error processing PDF:", error);
-        return `[Error processing PDF: ${error instanceof Error ? error.message : "Unknown error"}]`;
-      }
+    // Update the document with the extracted text for future use
+    await prisma.document.update({
+      where: { id: document.id },
+      data: { content: text, ocrConfidence: summarizeOcrConfidence(pages) },
+    });
 
-    default:
-      console.error(`Unsupported document type: ${document.type}`);
-      return null;
+    console.log(
+      `Successfully extracted ${text.length} characters from ${pages.length} PDF pages`,
+    );
+    return { text, pages };
+  } catch (error) {
+    console.error("Error processing PDF:", error);
+    return {
+      text: `[Error processing PDF: ${error instanceof Error ? error.message : "Unknown error"}]`,
+    };
   }
 }
 
+/**
+ * Extract the text of an uploaded Office, text, notebook, caption or image
+ * file locally. Failures are thrown so the upload records them on the
+ * document.
+ */
+async function extractTextFromFile(
+  document: DocumentModel,
+  extract: (buffer: Buffer) => ExtractedText | Promise<ExtractedText>,
+): Promise<ExtractedText> {
+  console.log(
+    `Extracting ${document.type} text locally for document ${document.id}`,
+  );
+
+  const buffer = await loadDocumentFile(document);
+  if (!buffer) {
+    throw new Error(
+      `Cannot process document with ID ${document.id}. The uploaded file is no longer available.`,
+    );
+  }
+
+  const extracted = await extract(buffer);
+  if (!extracted.text.trim()) {
+    throw new Error("No text content was found in the file.");
+  }
+
+  // Update the document with the extracted text for future use
+  await prisma.document.update({
+    where: { id: document.id },
+    data: {
+      content: extracted.text,
+      ocrConfidence: summarizeOcrConfidence(extracted.pages || []),
+    },
+  });
+
+  return extracted;
+}
+
+/**
+ * Get the bytes of an uploaded file: the buffer passed along from the upload
+ * (keeping a copy), else the stored copy, else a download from its URL
+ */
+async function loadDocumentFile(
+  document: DocumentModel,
+): Promise<Buffer | null> {
+  if (document._buffer) {
+    saveStoredFile(document, document._buffer);
+    return document._buffer;
+  }
+
+  const stored = readStoredFile(document);
+  if (stored) return stored;
+
+  if (document.url) {
+    const response = await axios.get(document.url, {
+      responseType: "arraybuffer",
+    });
+    return Buffer.from(response.data);
+  }
+  return null;
+}
+
 /**
  * Extract text from a URL by scraping the page content
  */
@@ -177,9 +403,13 @@ async function extractTextFromUrl(url: string): Promise<string> {
 }
 
 /**
- * Split text into smaller chunks for embedding
+ * Split text into smaller chunks for embedding, keeping page and section metadata
  */
-async function splitIntoChunks(text: string): Promise<string[]> {
+async function splitIntoChunks(
+  extracted: ExtractedText,
+): Promise<DocumentChunk[]> {
+  const { text } = extracted;
+
   // Check if text is a placeholder or error message
   if (
     text.includes("[") &&
@@ -198,10 +428,5 @@ async function splitIntoChunks(text: string): Promise<string[]> {
     );
   }
 
-  const splitter = new RecursiveCharacterTextSplitter({
-    chunkSize: 1000,
-    chunkOverlap: 200,
-  });
-
-  return await splitter.splitText(text);
+  return await chunkExtractedText(extracted);
 }
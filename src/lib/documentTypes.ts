@@ -0,0 +1,135 @@
+// File types accepted by the upload endpoint. Shared with the upload forms,
+// so it must stay free of server-only imports.
+
+export type FileDocumentType =
+  | "pdf"
+  | "docx"
+  | "pptx"
+  | "xlsx"
+  | "md"
+  | "html"
+  | "tex"
+  | "txt"
+  | "ipynb"
+  | "transcript"
+  | "png"
+  | "jpeg";
+
+export interface FileTypeInfo {
+  label: string;
+  extensions: string[];
+  mimeType: string;
+}
+
+export const FILE_DOCUMENT_TYPES: Record<FileDocumentType, FileTypeInfo> = {
+  pdf: {
+    label: "PDF",
+    extensions: [".pdf"],
+    mimeType: "application/pdf",
+  },
+  docx: {
+    label: "Word document",
+    extensions: [".docx"],
+    mimeType:
+      "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  },
+  pptx: {
+    label: "PowerPoint presentation",
+    extensions: [".pptx"],
+    mimeType:
+      "application/vnd.openxmlformats-officedocument.presentationml.presentation",
+  },
+  xlsx: {
+    label: "Excel workbook",
+    extensions: [".xlsx"],
+    mimeType:
+      "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  },
+  md: {
+    label: "Markdown file",
+    extensions: [".md", ".markdown"],
+    mimeType: "text/markdown",
+  },
+  html: {
+    label: "HTML page",
+    extensions: [".html", ".htm"],
+    mimeType: "text/html",
+  },
+  tex: {
+    label: "LaTeX file",
+    extensions: [".tex"],
+    mimeType: "application/x-tex",
+  },
+  txt: {
+    label: "Text file",
+    extensions: [".txt"],
+    mimeType: "text/plain",
+  },
+  ipynb: {
+    label: "Jupyter notebook",
+    extensions: [".ipynb"],
+    mimeType: "application/x-ipynb+json",
+  },
+  transcript: {
+    label: "Lecture transcript",
+    extensions: [".vtt", ".srt"],
+    mimeType: "text/vtt",
+  },
+  png: {
+    label: "PNG image",
+    extensions: [".png"],
+    mimeType: "image/png",
+  },
+  jpeg: {
+    label: "JPEG image",
+    extensions: [".jpg", ".jpeg"],
+    mimeType: "image/jpeg",
+  },
+};
+
+// For the `accept` attribute of file inputs
+export const UPLOAD_ACCEPT = Object.values(FILE_DOCUMENT_TYPES)
+  .flatMap((info) => [...info.extensions, info.mimeType])
+  .join(",");
+
+// e.g. "PDF (.pdf), Word document (.docx), ..."
+export const UPLOAD_TYPES_DESCRIPTION = Object.values(FILE_DOCUMENT_TYPES)
+  .map((info) => `${info.label} (${info.extensions.join(", ")})`)
+  .join(", ");
+
+/**
+ * Whether a document was uploaded as a file, which can be downloaded again
+ */
+export function isFileDocumentType(type: string): type is FileDocumentType {
+  return Object.keys(FILE_DOCUMENT_TYPES).includes(type);
+}
+
+/**
+ * Work out an uploaded file's type from its name, or its MIME type when the
+ * name has no known extension
+ */
+export function detectFileType(
+  fileName: string,
+  mimeType?: string,
+): FileDocumentType | null {
+  const name = fileName.toLowerCase();
+  const types = Object.entries(FILE_DOCUMENT_TYPES) as [
+    FileDocumentType,
+    FileTypeInfo,
+  ][];
+
+  const byExtension = types.find(([, info]) =>
+    info.extensions.some((extension) => name.endsWith(extension)),
+  );
+  if (byExtension) return byExtension[0];
+
+  const byMimeType = types.find(([, info]) => info.mimeType === mimeType);
+  return byMimeType ? byMimeType[0] : null;
+}
+
+/**
+ * File name without its extension, e.g. to suggest a document title
+ */
+export function stripFileExtension(fileName: string): string {
+  return fileName.replace(/\.[^.]+$/, "");
+}
@@ -0,0 +1,268 @@
+import { EmbeddingJob, Prisma, PrismaClient } from "@prisma/client";
+import { getEmbeddingProvider } from "./embeddingProvider";
+import { withRetry } from "./retry";
+import { refreshVectorIndex } from "./vectorIndex";
+
+const prisma = new PrismaClient();
+
+const DEFAULT_BATCH_SIZE = 50;
+
+// Jobs being run by this process, so a resume request can't start a second runner
+const runningJobs = new Set<string>();
+
+/**
+ * Create re-embedding jobs for one course, or every course when no course is
+ * given, and start running them in the background
+ */
+export async function startReembedding(options: {
+  courseId?: string;
+  model?: string;
+}): Promise<EmbeddingJob[]> {
+  const jobs = await createEmbeddingJobs(options);
+
+  // Run one job at a time so a whole-install migration doesn't flood the provider
+  void (async () => {
+    for (const job of jobs) {
+      try {
+        await runEmbeddingJob(job.id);
+      } catch (error) {
+        // e.g. the job was deleted while queued; carry on with the others
+        console.error(`Could not run re-embedding job ${job.id}:`, error);
+      }
+    }
+  })();
+
+  return jobs;
+}
+
+/**
+ * Create a job per course targeting the given model tag, or the deployment's
+ * configured embedding model
+ */
+export async function createEmbeddingJobs(options: {
+  courseId?: string;
+  model?: string;
+}): Promise<EmbeddingJob[]> {
+  // Normalize the tag, e.g. "hash" becomes "hash:hash-256"
+  const targetModel = getEmbeddingProvider(options.model).model;
+
+  const courses = await prisma.course.findMany({
+    where: options.courseId ? { id: options.courseId } : {},
+    select: { id: true },
+  });
+
+  const jobs: EmbeddingJob[] = [];
+  for (const course of courses) {
+    // Reuse an unfinished job for the same target instead of starting over
+    const existing = await prisma.embeddingJob.findFirst({
+      where: {
+        courseId: course.id,
+        targetModel,
+        status: { in: ["pending", "running", "failed"] },
+      },
+    });
+
+    jobs.push(
+      existing ||
+        (await prisma.embeddingJob.create({
+          data: {
+            courseId: course.id,
+            targetModel,
+            totalChunks: await prisma.vectorStore.count({
+              where: staleVectorsWhere(course.id, targetModel),
+            }),
+          },
+        })),
+    );
+  }
+
+  console.log(
+    `Queued ${jobs.length} re-embedding jobs targeting ${targetModel}`,
+  );
+  return jobs;
+}
+
+/**
+ * Run or resume a re-embedding job. Vectors are re-embedded in batches next
+ * to the old ones, with the job's cursor saved after every batch; the course
+ * only switches to the new model, and the old vectors are only deleted, once
+ * every chunk has been moved.
+ */
+export async function runEmbeddingJob(jobId: string): Promise<EmbeddingJob> {
+  if (runningJobs.has(jobId)) {
+    return prisma.embeddingJob.findUniqueOrThrow({ where: { id: jobId } });
+  }
+
+  runningJobs.add(jobId);
+  try {
+    let job = await prisma.embeddingJob.findUniqueOrThrow({
+      where: { id: jobId },
+    });
+    if (job.status === "completed") return job;
+
+    job = await prisma.embeddingJob.update({
+      where: { id: job.id },
+      data: { status: "running", error: null },
+    });
+
+    const embeddings = getEmbeddingProvider(job.targetModel);
+    const batchSize =
+      parseInt(process.env.REEMBED_BATCH_SIZE || "", 10) || DEFAULT_BATCH_SIZE;
+
+    while (true) {
+      const batch = await prisma.vectorStore.findMany({
+        where: {
+          ...staleVectorsWhere(job.courseId, job.targetModel),
+          ...(job.cursor ? { id: { gt: job.cursor } } : {}),
+        },
+        orderBy: { id: "asc" },
+        take: batchSize,
+      });
+
+      if (batch.length === 0) {
+        const switched = await switchCourseModel(job);
+        if (switched) {
+          job = switched;
+          await refreshVectorIndex(job.courseId, job.targetModel);
+          break;
+        }
+        // Chunks were added while finishing up; pick them up on the next pass
+        continue;
+      }
+
+      const vectors = await withRetry(() =>
+        embeddings.embedDocuments(batch.map((vector) => vector.chunk)),
+      );
+      // A short answer would pair chunks with the wrong vectors
+      if (vectors.length !== batch.length) {
+        throw new Error(
+          `${embeddings.model} returned ${vectors.length} embeddings for ${batch.length} chunks`,
+        );
+      }
+
+      // Write the new vectors and advance the cursor together, so a crash
+      // never leaves a batch half-recorded
+      [, job] = await prisma.$transaction([
+        prisma.vectorStore.createMany({
+          data: batch.map((vector, i) => ({
+            documentId: vector.documentId,
+            chunk: vector.chunk,
+            embedding: JSON.stringify(vectors[i]),
+            embeddingModel: embeddings.model,
+            embeddingDimension: vectors[i].length,
+            chunkIndex: vector.chunkIndex,
+            charStart: vector.charStart,
+            charEnd: vector.charEnd,
+            pageStart: vector.pageStart,
+            pageEnd: vector.pageEnd,
+            cellStart: vector.cellStart,
+            cellEnd: vector.cellEnd,
+            timeStart: vector.timeStart,
+            timeEnd: vector.timeEnd,
+            sectionHeading: vector.sectionHeading,
+          })),
+        }),
+        prisma.embeddingJob.update({
+          where: { id: job.id },
+          data: {
+            cursor: batch[batch.length - 1].id,
+            processedChunks: { increment: batch.length },
+          },
+        }),
+      ]);
+
+      console.log(
+        `Re-embedding job ${job.id}: ${job.processedChunks}/${job.totalChunks} chunks`,
+      );
+    }
+
+    console.log(
+      `Re-embedding job ${job.id} completed, course ${job.courseId} now uses ${job.targetModel}`,
+    );
+    return job;
+  } catch (error) {
+    console.error(`Re-embedding job ${jobId} failed:`, error);
+    return prisma.embeddingJob.update({
+      where: { id: jobId },
+      data: {
+        status: "failed",
+        error: error instanceof Error ? error.message : String(error),
+      },
+    });
+  } finally {
+    runningJobs.delete(jobId);
+  }
+}
+
+/**
+ * Get a job's progress
+ */
+export async function getEmbeddingJob(
+  jobId: string,
+): Promise<EmbeddingJob | null> {
+  return prisma.embeddingJob.findUnique({ where: { id: jobId } });
+}
+
+/**
+ * List the most recent jobs, optionally for a single course
+ */
+export async function listEmbeddingJobs(
+  courseId?: string,
+): Promise<EmbeddingJob[]> {
+  return prisma.embeddingJob.findMany({
+    where: courseId ? { courseId } : {},
+    orderBy: { createdAt: "desc" },
+    take: 50,
+  });
+}
+
+/**
+ * Point the course at the job's model and drop its old vectors in one
+ * transaction, so search never sees a half-migrated course. Returns null
+ * without switching if stale chunks appeared after the job's cursor.
+ */
+async function switchCourseModel(
+  job: EmbeddingJob,
+): Promise<EmbeddingJob | null> {
+  return prisma.$transaction(async (tx) => {
+    const remaining = await tx.vectorStore.count({
+      where: {
+        ...staleVectorsWhere(job.courseId, job.targetModel),
+        ...(job.cursor ? { id: { gt: job.cursor } } : {}),
+      },
+    });
+    if (remaining > 0) return null;
+
+    await tx.course.update({
+      where: { id: job.courseId },
+      data: { embeddingModel: job.targetModel },
+    });
+    await tx.vectorStore.deleteMany({
+      where: staleVectorsWhere(job.courseId, job.targetModel),
+    });
+    await tx.vectorIndex.deleteMany({
+      where: {
+        courseId: job.courseId,
+        embeddingModel: { not: job.targetModel },
+      },
+    });
+
+    return tx.embeddingJob.update({
+      where: { id: job.id },
+      data: { status: "completed", completedAt: new Date() },
+    });
+  });
+}
+
+/**
+ * Vectors in a course that weren't produced by the target model
+ */
+function staleVectorsWhere(
+  courseId: string,
+  targetModel: string,
+): Prisma.VectorStoreWhereInput {
+  return {
+    document: { courseId },
+    OR: [{ embeddingModel: null }, { embeddingModel: { not: targetModel } }],
+  };
+}
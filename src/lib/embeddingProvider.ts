@@ -0,0 +1,156 @@
+import { OpenAIEmbeddings } from "@langchain/openai";
+
+export type EmbeddingProviderName = "openai" | "local" | "hash";
+
+export const EMBEDDING_PROVIDER_NAMES: EmbeddingProviderName[] = [
+  "openai",
+  "local",
+  "hash",
+];
+
+export interface EmbeddingProvider {
+  name: EmbeddingProviderName;
+  // Tag stored on every vector, e.g. "openai:text-embedding-ada-002"
+  model: string;
+  embedQuery(text: string): Promise<number[]>;
+  embedDocuments(texts: string[]): Promise<number[][]>;
+}
+
+const DEFAULT_HASH_DIMENSION = 256;
+
+/**
+ * Get an embedding provider. With a model tag (as stored on VectorStore rows)
+ * the matching provider is rebuilt; otherwise the deployment default is used
+ * (EMBEDDING_PROVIDER, or "openai" when unset).
+ */
+export function getEmbeddingProvider(
+  modelTag?: string | null,
+): EmbeddingProvider {
+  const [tagName, ...modelParts] = modelTag ? modelTag.split(":") : [];
+  const name = resolveProviderName(tagName || process.env.EMBEDDING_PROVIDER);
+  const model = modelParts.join(":") || null;
+
+  switch (name) {
+    case "local":
+      return createOpenAICompatibleEmbedder({
+        name: "local",
+        baseURL:
+          process.env.LOCAL_EMBEDDING_BASE_URL ||
+          process.env.LOCAL_LLM_BASE_URL ||
+          "http://localhost:11434/v1",
+        // Local servers (Ollama, llama.cpp) ignore the key but the client requires one
+        apiKey: process.env.LOCAL_LLM_API_KEY || "local",
+        model: model || process.env.LOCAL_EMBEDDING_MODEL || "nomic-embed-text",
+      });
+
+    case "hash":
+      return createHashEmbedder(
+        model ? parseHashDimension(model) : getHashDimensionSetting(),
+      );
+
+    default:
+      return createOpenAICompatibleEmbedder({
+        name: "openai",
+        apiKey: process.env.OPENAI_API_KEY,
+        model: model || process.env.EMBEDDING_MODEL || "text-embedding-ada-002",
+      });
+  }
+}
+
+/**
+ * Map a configured provider name onto a supported one
+ */
+function resolveProviderName(name?: string | null): EmbeddingProviderName {
+  if (
+    name &&
+    EMBEDDING_PROVIDER_NAMES.includes(name as EmbeddingProviderName)
+  ) {
+    return name as EmbeddingProviderName;
+  }
+  if (name) {
+    console.warn(`Unknown embedding provider "${name}", using OpenAI`);
+  }
+  return "openai";
+}
+
+/**
+ * Embeddings from OpenAI or any server exposing the OpenAI embeddings API
+ */
+function createOpenAICompatibleEmbedder(options: {
+  name: EmbeddingProviderName;
+  model: string;
+  apiKey?: string;
+  baseURL?: string;
+}): EmbeddingProvider {
+  const embeddings = new OpenAIEmbeddings({
+    openAIApiKey: options.apiKey,
+    modelName: options.model,
+    configuration: options.baseURL ? { baseURL: options.baseURL } : undefined,
+  });
+
+  return {
+    name: options.name,
+    model: `${options.name}:${options.model}`,
+    embedQuery: (text) => embeddings.embedQuery(text),
+    embedDocuments: (texts) => embeddings.embedDocuments(texts),
+  };
+}
+
+/**
+ * Deterministic feature-hashing embedder. It only captures word overlap, but
+ * needs no model or network, which makes it suitable for tests and offline use.
+ */
+function createHashEmbedder(dimension: number): EmbeddingProvider {
+  const embed = (text: string): number[] => {
+    const vector = new Array<number>(dimension).fill(0);
+    const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+
+    // Hash unigrams and bigrams, using a second hash bit for the sign
+    const features = [
+      ...words,
+      ...words.slice(1).map((word, i) => `${words[i]} ${word}`),
+    ];
+    for (const feature of features) {
+      const hash = fnv1a(feature);
+      vector[hash % dimension] += hash & 0x80000000 ? -1 : 1;
+    }
+
+    const magnitude = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+    return magnitude === 0 ? vector : vector.map((v) => v / magnitude);
+  };
+
+  return {
+    name: "hash",
+    model: `hash:hash-${dimension}`,
+    embedQuery: async (text) => embed(text),
+    embedDocuments: async (texts) => texts.map(embed),
+  };
+}
+
+/**
+ * 32-bit FNV-1a hash of a string
+ */
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Read the hash embedder dimension from a tag such as "hash-256"
+ */
+function parseHashDimension(model: string): number {
+  const dimension = parseInt(model.replace(/^hash-/, ""), 10);
+  return dimension > 0 ? dimension : DEFAULT_HASH_DIMENSION;
+}
+
+/**
+ * Get the configured hash embedder dimension
+ */
+function getHashDimensionSetting(): number {
+  const dimension = parseInt(process.env.HASH_EMBEDDING_DIMENSION || "", 10);
+  return dimension > 0 ? dimension : DEFAULT_HASH_DIMENSION;
+}
@@ -0,0 +1,38 @@
+import fs from "fs";
+import path from "path";
+import os from "os";
+import { DocumentModel } from "@/types/types";
+
+type StoredDocument = Pick<DocumentModel, "id" | "fileName">;
+
+/**
+ * Get the local path where an uploaded document file is kept
+ */
+export function getStoredFilePath(document: StoredDocument): string {
+  return path.join(
+    os.tmpdir(),
+    `${document.id}-${document.fileName || "document.pdf"}`,
+  );
+}
+
+/**
+ * Keep a copy of an uploaded file so it can be served and reprocessed later
+ */
+export function saveStoredFile(document: StoredDocument, buffer: Buffer): void {
+  try {
+    fs.writeFileSync(getStoredFilePath(document), buffer);
+  } catch (error) {
+    console.error(`Error storing file for document ${document.id}:`, error);
+  }
+}
+
+/**
+ * Read a previously stored upload, if it is still available
+ */
+export function readStoredFile(document: StoredDocument): Buffer | null {
+  const filePath = getStoredFilePath(document);
+  if (!fs.existsSync(filePath)) {
+    return null;
+  }
+  return fs.readFileSync(filePath);
+}
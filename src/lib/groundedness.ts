@@ -0,0 +1,213 @@
+import type { LLMProvider } from "./llmProvider";
+import { tokenize } from "./lexicalIndex";
+import { stripCitationMarkers } from "./inlineCitations";
+
+export type GroundednessCheckName = "none" | "lexical" | "llm";
+
+// Share of a sentence's content words one passage must contain to support it
+const DEFAULT_THRESHOLD = 0.6;
+// Sentences with fewer content words than this ("Great question!") aren't checked
+const MIN_SENTENCE_TERMS = 4;
+// Answers scoring at least this are shown as based on the course materials...
+const GROUNDED_SCORE = 0.8;
+// ...and below this as not found in them
+const UNGROUNDED_SCORE = 0.4;
+
+const STOPWORDS = new Set(
+  `a an and are as at be been but by can could do does for from had has have how
+  i if in into is it its may might more most not of on or our so such than
+  that the their them then there these they this those to was we were what when
+  where which while who why will with would you your also just very about other
+  some any each many much one here let us me my`.split(/\s+/),
+);
+
+export interface SentenceSupport {
+  start: number; // Character range of the sentence in the answer
+  end: number;
+  score: number; // 0-1
+  supported: boolean;
+}
+
+export interface GroundednessResult {
+  score: number | null; // Share of checked sentences that are supported
+  sentences: SentenceSupport[];
+}
+
+/**
+ * Check how well an answer is backed by the passages it was given. Each
+ * sentence making a claim is scored against the passages, by content word
+ * coverage or, with GROUNDEDNESS_CHECK=llm, by the course's LLM; those under
+ * GROUNDEDNESS_THRESHOLD are unsupported. An answer given without passages
+ * scores 0, since nothing in the course materials backs it.
+ *
+ * The score is null when there was nothing to check, e.g. a greeting.
+ */
+export async function checkGroundedness(
+  answer: string,
+  passages: string[],
+  llm?: LLMProvider,
+): Promise<GroundednessResult> {
+  const check = (process.env.GROUNDEDNESS_CHECK ||
+    "lexical") as GroundednessCheckName;
+  if (check === "none") return { score: null, sentences: [] };
+
+  const sentences = splitSentences(answer).filter(
+    (sentence) =>
+      getContentTerms(sentence.text).length >= MIN_SENTENCE_TERMS &&
+      !sentence.text.trim().endsWith("?"),
+  );
+  if (sentences.length === 0) return { score: null, sentences: [] };
+
+  let llmScores: number[] | null = null;
+  if (check === "llm" && llm && passages.length > 0) {
+    try {
+      llmScores = await scoreWithLLM(sentences, passages, llm);
+    } catch (error) {
+      console.error("Error checking groundedness with llm:", error);
+    }
+  }
+
+  const passageTerms = passages.map(
+    (passage) => new Set(getContentTerms(passage)),
+  );
+  const scores =
+    llmScores ||
+    sentences.map((sentence) => scoreByCoverage(sentence.text, passageTerms));
+
+  const threshold = parseFloat(process.env.GROUNDEDNESS_THRESHOLD || "");
+  const minimum = Number.isNaN(threshold) ? DEFAULT_THRESHOLD : threshold;
+
+  const results = sentences.map((sentence, i) => ({
+    start: sentence.start,
+    end: sentence.end,
+    score: scores[i],
+    supported: scores[i] >= minimum,
+  }));
+
+  return {
+    score:
+      results.filter((sentence) => sentence.supported).length / results.length,
+    sentences: results,
+  };
+}
+
+/**
+ * Describe an answer's groundedness score for display
+ */
+export function describeGroundedness(score: number): {
+  level: "grounded" | "partial" | "ungrounded";
+  label: string;
+} {
+  if (score >= GROUNDED_SCORE) {
+    return { level: "grounded", label: "Based on your course materials" };
+  }
+  if (score >= UNGROUNDED_SCORE) {
+    return {
+      level: "partial",
+      label: "Partly based on your course materials",
+    };
+  }
+  return {
+    level: "ungrounded",
+    label: "Not found in your course materials",
+  };
+}
+
+/**
+ * Split text into sentences with their character ranges
+ */
+export function splitSentences(
+  text: string,
+): { text: string; start: number; end: number }[] {
+  const sentences: { text: string; start: number; end: number }[] = [];
+  // Up to ., ! or ? (plus any citation markers) followed by a space, or a line break
+  const pattern = /[^\n]+?(?:[.!?]+(?:\s*\[[\d,\s]+\])*(?=\s|$)|(?=\n)|$)/g;
+
+  for (const match of text.matchAll(pattern)) {
+    const leading = match[0].length - match[0].trimStart().length;
+    const sentence = match[0].trim();
+    if (!sentence) continue;
+
+    const start = match.index + leading;
+    sentences.push({ text: sentence, start, end: start + sentence.length });
+  }
+  return sentences;
+}
+
+/**
+ * Best share of the sentence's content words found in any single passage
+ */
+function scoreByCoverage(
+  sentence: string,
+  passageTerms: Set<string>[],
+): number {
+  const terms = new Set(getContentTerms(sentence));
+  if (terms.size === 0) return 1;
+
+  // Without passages nothing can back the sentence, so it scores 0
+  let best = 0;
+  for (const passage of passageTerms) {
+    let found = 0;
+    for (const term of terms) {
+      if (passage.has(term)) found++;
+    }
+    best = Math.max(best, found / terms.size);
+  }
+  return best;
+}
+
+/**
+ * Ask the LLM to rate the support for every sentence in a single call
+ */
+async function scoreWithLLM(
+  sentences: { text: string }[],
+  passages: string[],
+  llm: LLMProvider,
+): Promise<number[] | null> {
+  const reply = await llm.complete({
+    messages: [
+      {
+        role: "system",
+        content: `You check whether statements are supported by course material passages.
+For each numbered statement, rate from 0 (not supported or contradicted) to 10 (clearly stated in the passages).
+Reply with only a JSON array of numbers, one per statement, in order.`,
+      },
+      {
+        role: "user",
+        content: `Passages:\n\n${passages.map((passage, i) => `(${i + 1}) ${passage}`).join("\n\n")}\n\nStatements:\n${sentences
+          .map(
+            (sentence, i) => `${i + 1}. ${stripCitationMarkers(sentence.text)}`,
+          )
+          .join("\n")}`,
+      },
+    ],
+    temperature: 0,
+    maxTokens: 200,
+  });
+
+  const match = reply.match(/\[[\d\s.,]*\]/);
+  const scores = match ? (JSON.parse(match[0]) as number[]) : [];
+
+  if (scores.length !== sentences.length) {
+    console.warn(
+      "LLM groundedness check returned an unusable reply, using word coverage",
+    );
+    return null;
+  }
+  return scores.map((score) => Math.min(1, Math.max(0, score / 10)));
+}
+
+/**
+ * Lowercase content words, without stopwords, numbers or plural endings
+ */
+function getContentTerms(text: string): string[] {
+  return tokenize(stripCitationMarkers(text))
+    .filter(
+      (term) => term.length > 1 && !STOPWORDS.has(term) && !/^\d+$/.test(term),
+    )
+    .map((term) =>
+      term.length > 3 && term.endsWith("s") && !term.endsWith("ss")
+        ? term.slice(0, -1)
+        : term,
+    );
+}
@@ -0,0 +1,93 @@
+import { Citation } from "@/types/types";
+
+// A run of markers such as "[1]", "[1, 3]" or "[2][3]", but not an index like
+// "x[1]" or a markdown link like "[1](https://...)"
+const MARKER = "\\[\\d+(?:\\s*,\\s*\\d+)*\\]";
+const MARKER_PATTERN = new RegExp(`(?<![\\w\\])])(?:${MARKER})+(?!\\()`, "g");
+// The same, along with the space before it, for removing markers cleanly
+const SPACED_MARKER_PATTERN = new RegExp(
+  `([ \\t]*)(?<![\\w\\])])((?:${MARKER})+)(?!\\()`,
+  "g",
+);
+
+export type CitedContentPart =
+  { type: "text"; text: string } | { type: "marker"; marker: number };
+
+/**
+ * Match the [n] markers in an answer to the numbered sources it was given.
+ * Only cited sources are kept, renumbered 1, 2, ... in order of first use, and
+ * the markers are rewritten to match; markers pointing at no source are
+ * dropped. Each citation records its marker and where it first appears in
+ * the rewritten answer.
+ */
+export function resolveCitationMarkers(
+  content: string,
+  sources: Citation[],
+): { content: string; citations: Citation[] } {
+  const markers = new Map<number, number>(); // Source number -> new marker
+  const citations: Citation[] = [];
+  let shift = 0; // How much longer the rewritten answer is so far
+
+  const resolved = content.replace(
+    SPACED_MARKER_PATTERN,
+    (match: string, space: string, run: string, offset: number) => {
+      let replacement = "";
+      for (const number of new Set(getMarkerNumbers(run))) {
+        const source = sources[number - 1];
+        if (!source) continue;
+
+        replacement ||= space;
+        if (!markers.has(number)) {
+          markers.set(number, citations.length + 1);
+          citations.push({
+            ...source,
+            marker: citations.length + 1,
+            position: offset + shift + replacement.length,
+          });
+        }
+        replacement += `[${markers.get(number)}]`;
+      }
+      shift += replacement.length - match.length;
+      return replacement;
+    },
+  );
+
+  return { content: resolved, citations };
+}
+
+/**
+ * Remove every [n] marker, for answers shown without citations
+ */
+export function stripCitationMarkers(content: string): string {
+  return content.replace(SPACED_MARKER_PATTERN, "");
+}
+
+/**
+ * Split an answer into text and citation markers for rendering
+ */
+export function splitCitationMarkers(content: string): CitedContentPart[] {
+  const parts: CitedContentPart[] = [];
+  let last = 0;
+
+  for (const match of content.matchAll(MARKER_PATTERN)) {
+    if (match.index > last) {
+      parts.push({ type: "text", text: content.slice(last, match.index) });
+    }
+    for (const marker of getMarkerNumbers(match[0])) {
+      parts.push({ type: "marker", marker });
+    }
+    last = match.index + match[0].length;
+  }
+
+  if (last < content.length) {
+    parts.push({ type: "text", text: content.slice(last) });
+  }
+  return parts;
+}
+
+/**
+ * The numbers in a run of markers, e.g. [1, 3][4] -> 1, 3, 4
+ */
+function getMarkerNumbers(run: string): number[] {
+  return (run.match(/\d+/g) || []).map(Number);
+}
@@ -0,0 +1,113 @@
+// Standard BM25 parameters
+const K1 = 1.2;
+const B = 0.75;
+
+export interface LexicalIndex {
+  postings: Map<string, { position: number; frequency: number }[]>;
+  lengths: Uint32Array;
+  averageLength: number;
+}
+
+export interface LexicalMatch {
+  position: number;
+  score: number;
+}
+
+/**
+ * Split text into lowercase search terms. Dotted and underscored runs such as
+ * "3.2", "x_i" or "cs.229" stay whole so theorem numbers, variable names and
+ * course codes match exactly, and math symbols are terms of their own.
+ */
+export function tokenize(text: string): string[] {
+  return (
+    text.toLowerCase().match(/[\p{L}\p{N}]+(?:[._][\p{L}\p{N}]+)*|\p{Sm}/gu) ||
+    []
+  );
+}
+
+/**
+ * Build an inverted index over a list of texts, addressed by position
+ */
+export function buildLexicalIndex(texts: string[]): LexicalIndex {
+  const postings: LexicalIndex["postings"] = new Map();
+  const lengths = new Uint32Array(texts.length);
+
+  texts.forEach((text, position) => {
+    const terms = tokenize(text);
+    lengths[position] = terms.length;
+
+    const frequencies = new Map<string, number>();
+    for (const term of terms) {
+      frequencies.set(term, (frequencies.get(term) || 0) + 1);
+    }
+    for (const [term, frequency] of frequencies) {
+      const list = postings.get(term) || [];
+      list.push({ position, frequency });
+      postings.set(term, list);
+    }
+  });
+
+  const total = lengths.reduce((sum, length) => sum + length, 0);
+  return {
+    postings,
+    lengths,
+    averageLength: texts.length > 0 ? total / texts.length : 0,
+  };
+}
+
+/**
+ * Rank indexed texts against a query with BM25, best first
+ */
+export function searchLexicalIndex(
+  index: LexicalIndex,
+  query: string,
+  limit: number,
+  allowed?: (position: number) => boolean,
+): LexicalMatch[] {
+  const count = index.lengths.length;
+  const scores = new Map<number, number>();
+
+  for (const term of new Set(tokenize(query))) {
+    const postings = index.postings.get(term);
+    if (!postings) continue;
+
+    const idf = Math.log(
+      1 + (count - postings.length + 0.5) / (postings.length + 0.5),
+    );
+    for (const { position, frequency } of postings) {
+      if (allowed && !allowed(position)) continue;
+
+      const norm =
+        K1 * (1 - B + (B * index.lengths[position]) / index.averageLength);
+      const score = (idf * frequency * (K1 + 1)) / (frequency + norm);
+      scores.set(position, (scores.get(position) || 0) + score);
+    }
+  }
+
+  return [...scores.entries()]
+    .map(([position, score]) => ({ position, score }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
+
+/**
+ * Merge ranked lists of ids with weighted reciprocal rank fusion. Each list
+ * contributes weight / (k + rank) for every id it contains.
+ */
+export function fuseRankings(
+  rankings: { ids: string[]; weight: number }[],
+  k: number = 60,
+): { id: string; score: number }[] {
+  const scores = new Map<string, number>();
+
+  for (const { ids, weight } of rankings) {
+    if (weight <= 0) continue;
+    ids.forEach((id, rank) => {
+      scores.set(id, (scores.get(id) || 0) + weight / (k + rank + 1));
+    });
+  }
+
+  return [...scores.entries()]
+    .map(([id, score]) => ({ id, score }))
+    .sort((a, b) => b.score - a.score);
+}
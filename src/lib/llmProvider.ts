@@ -0,0 +1,230 @@
+import OpenAI from "openai";
+
+export type LLMProviderName = "openai" | "local" | "mock";
+
+export const LLM_PROVIDER_NAMES: LLMProviderName[] = [
+  "openai",
+  "local",
+  "mock",
+];
+
+export interface LLMMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+export interface CompletionRequest {
+  messages: LLMMessage[];
+  temperature?: number;
+  maxTokens?: number;
+  signal?: AbortSignal;
+}
+
+export interface LLMProvider {
+  name: LLMProviderName;
+  model: string;
+  contextWindow: number; // Tokens the model accepts, prompt and answer together
+  complete(request: CompletionRequest): Promise<string>;
+  stream(request: CompletionRequest): AsyncIterable<string>;
+  generateTitle(message: string, courseName: string): Promise<string>;
+}
+
+const DEFAULT_TEMPERATURE = 0.7;
+export const DEFAULT_MAX_TOKENS = 1000;
+// Used for models not listed in getContextWindow
+const DEFAULT_CONTEXT_WINDOW = 8192;
+
+/**
+ * Get the LLM provider for a course, falling back to the deployment default
+ * (LLM_PROVIDER, or "openai" when unset). `model` overrides the provider's
+ * configured model.
+ */
+export function getLLMProvider(
+  course?: {
+    llmProvider?: string | null;
+  },
+  options: { model?: string | null } = {},
+): LLMProvider {
+  const name = resolveProviderName(
+    course?.llmProvider || process.env.LLM_PROVIDER,
+  );
+
+  switch (name) {
+    case "local":
+      return createOpenAICompatibleProvider({
+        name: "local",
+        baseURL: process.env.LOCAL_LLM_BASE_URL || "http://localhost:11434/v1",
+        // Local servers (Ollama, llama.cpp) ignore the key but the client requires one
+        apiKey: process.env.LOCAL_LLM_API_KEY || "local",
+        model: options.model || process.env.LOCAL_LLM_MODEL || "llama3",
+      });
+
+    case "mock":
+      return createMockProvider();
+
+    default:
+      return createOpenAICompatibleProvider({
+        name: "openai",
+        apiKey: process.env.OPENAI_API_KEY,
+        model: options.model || process.env.LLM_MODEL || "gpt-3.5-turbo",
+      });
+  }
+}
+
+/**
+ * Map a configured provider name onto a supported one
+ */
+function resolveProviderName(name?: string | null): LLMProviderName {
+  if (name && LLM_PROVIDER_NAMES.includes(name as LLMProviderName)) {
+    return name as LLMProviderName;
+  }
+  if (name) {
+    console.warn(`Unknown LLM provider "${name}", using OpenAI`);
+  }
+  return "openai";
+}
+
+/**
+ * Provider for OpenAI or any server exposing the OpenAI chat completions API
+ */
+function createOpenAICompatibleProvider(options: {
+  name: LLMProviderName;
+  model: string;
+  apiKey?: string;
+  baseURL?: string;
+}): LLMProvider {
+  const client = new OpenAI({
+    apiKey: options.apiKey,
+    baseURL: options.baseURL,
+  });
+
+  const provider: LLMProvider = {
+    name: options.name,
+    model: options.model,
+    contextWindow: getContextWindow(options.model),
+
+    async complete(request) {
+      const response = await client.chat.completions.create(
+        {
+          model: options.model,
+          messages: request.messages,
+          temperature: request.temperature ?? DEFAULT_TEMPERATURE,
+          max_tokens: request.maxTokens ?? DEFAULT_MAX_TOKENS,
+        },
+        { signal: request.signal },
+      );
+      return response.choices[0]?.message.content || "";
+    },
+
+    async *stream(request) {
+      const completion = await client.chat.completions.create(
+        {
+          model: options.model,
+          messages: request.messages,
+          temperature: request.temperature ?? DEFAULT_TEMPERATURE,
+          max_tokens: request.maxTokens ?? DEFAULT_MAX_TOKENS,
+          stream: true,
+        },
+        { signal: request.signal },
+      );
+
+      for await (const part of completion) {
+        const token = part.choices[0]?.delta?.content;
+        if (token) yield token;
+      }
+    },
+
+    async generateTitle(message, courseName) {
+      const title = await provider.complete({
+        messages: buildTitleMessages(message, courseName),
+      });
+      return cleanTitle(title);
+    },
+  };
+
+  return provider;
+}
+
+/**
+ * Deterministic provider for tests and offline development; never calls out
+ */
+function createMockProvider(): LLMProvider {
+  const answer = (request: CompletionRequest) => {
+    const question =
+      [...request.messages].reverse().find((msg) => msg.role === "user")
+        ?.content || "";
+    return `This is a mock response to: "${question}"`;
+  };
+
+  return {
+    name: "mock",
+    model: "mock",
+    contextWindow: getContextWindow("mock"),
+
+    async complete(request) {
+      return answer(request);
+    },
+
+    async *stream(request) {
+      // Yield word by word (keeping the spaces) to exercise streaming clients
+      for (const token of answer(request).match(/\S+\s*/g) || []) {
+        if (request.signal?.aborted) return;
+        yield token;
+      }
+    },
+
+    async generateTitle(message) {
+      return cleanTitle(message.split(/\s+/).slice(0, 6).join(" "));
+    },
+  };
+}
+
+/**
+ * Get a model's context window, overridable with LLM_CONTEXT_WINDOW (e.g.
+ * for a local model served with a non-default context size)
+ */
+function getContextWindow(model: string): number {
+  const configured = parseInt(process.env.LLM_CONTEXT_WINDOW || "", 10);
+  if (configured > 0) return configured;
+
+  if (/gpt-4o|gpt-4-turbo|gpt-4\.1|^o\d/.test(model)) return 128000;
+  if (/gpt-4-32k/.test(model)) return 32768;
+  if (/gpt-4/.test(model)) return 8192;
+  if (/gpt-3\.5-turbo/.test(model)) return 16385;
+  if (model === "mock") return 4096;
+  return DEFAULT_CONTEXT_WINDOW;
+}
+
+/**
+ * Build the prompt used to name a chat from its first message
+ */
+function buildTitleMessages(message: string, courseName: string): LLMMessage[] {
+  return [
+    {
+      role: "system",
+      content: `You are a helpful assistant that generates concise, descriptive titles for chat conversations.
+The title should be 3-6 words and reflect the topic or question being discussed.`,
+    },
+    {
+      role: "user",
+      content: `Generate a short, descriptive title for a chat about "${courseName}" that starts with this message: "${message}"`,
+    },
+  ];
+}
+
+/**
+ * Strip quotes and keep titles to 50 characters
+ */
+function cleanTitle(title: string): string {
+  let cleaned = title.trim();
+
+  // Remove quotes if present
+  cleaned = cleaned.replace(/^["'](.*)["']$/, "$1");
+
+  // Truncate if too long
+  if (cleaned.length > 50) {
+    cleaned = cleaned.substring(0, 47) + "...";
+  }
+
+  return cleaned;
+}
@@ -0,0 +1,114 @@
+// A chat's messages form a tree: each message follows its parent, and editing
+// a question or regenerating an answer adds a sibling instead of overwriting.
+
+export interface BranchMessage {
+  id: string;
+  parentId?: string | null;
+  createdAt?: Date | string;
+}
+
+// Which child is shown at each fork, keyed by parent id ("root" for the first)
+export type BranchSelection = Record<string, string>;
+
+export interface BranchStep<T> {
+  message: T;
+  siblings: T[]; // Alternatives at this point, oldest first
+  index: number; // Position of the message among them
+}
+
+/**
+ * Key of the fork a message belongs to
+ */
+export function getForkKey(message: Pick<BranchMessage, "parentId">): string {
+  return message.parentId ?? "root";
+}
+
+/**
+ * Messages from the first one down to `leafId`, or none when it's null
+ */
+export function getBranchPath<T extends BranchMessage>(
+  messages: T[],
+  leafId: string | null,
+): T[] {
+  const byId = new Map(messages.map((message) => [message.id, message]));
+  const path: T[] = [];
+  const seen = new Set<string>();
+
+  let current = leafId ? byId.get(leafId) : undefined;
+  while (current && !seen.has(current.id)) {
+    seen.add(current.id);
+    path.unshift(current);
+    current = current.parentId ? byId.get(current.parentId) : undefined;
+  }
+  return path;
+}
+
+/**
+ * The branch to show: from the first message down, take the selected child
+ * at each fork, or the newest when none is selected
+ */
+export function getActiveBranch<T extends BranchMessage>(
+  messages: T[],
+  selection: BranchSelection = {},
+): BranchStep<T>[] {
+  const children = new Map<string, T[]>();
+  for (const message of messages) {
+    const key = getForkKey(message);
+    children.set(key, [...(children.get(key) || []), message]);
+  }
+  for (const siblings of children.values()) {
+    siblings.sort((a, b) => timeOf(a) - timeOf(b));
+  }
+
+  const steps: BranchStep<T>[] = [];
+  let key = "root";
+  while (children.has(key) && steps.length < messages.length) {
+    const siblings = children.get(key)!;
+    const selected = siblings.findIndex(
+      (message) => message.id === selection[key],
+    );
+    const index = selected >= 0 ? selected : siblings.length - 1;
+
+    steps.push({ message: siblings[index], siblings, index });
+    key = siblings[index].id;
+  }
+  return steps;
+}
+
+function timeOf(message: BranchMessage): number {
+  return message.createdAt ? new Date(message.createdAt).getTime() : Infinity;
+}
+
+/**
+ * Selection that shows the branch leading to `messageId`, e.g. to open a chat
+ * at a message found by search
+ */
+export function selectBranchTo<T extends BranchMessage>(
+  messages: T[],
+  messageId: string,
+): BranchSelection {
+  return Object.fromEntries(
+    getBranchPath(messages, messageId).map((message) => [
+      getForkKey(message),
+      message.id,
+    ]),
+  );
+}
+
+/**
+ * Whether the server has saved a message; until then it's shown with a
+ * temporary id
+ */
+export function isSavedMessage(message: { id?: string }): boolean {
+  return Boolean(message.id) && !message.id!.startsWith("temp-");
+}
+
+/**
+ * Id of the last saved message of a branch, the parent to continue it from
+ */
+export function getLastSavedId<T extends BranchMessage>(
+  steps: BranchStep<T>[],
+): string | null {
+  const saved = steps.filter((step) => isSavedMessage(step.message));
+  return saved[saved.length - 1]?.message.id ?? null;
+}
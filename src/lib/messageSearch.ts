@@ -0,0 +1,176 @@
+import { Prisma, PrismaClient } from "@prisma/client";
+
+const prisma = new PrismaClient();
+
+// Best matches loaded before the limit applies
+const MAX_CANDIDATES = 200;
+const DEFAULT_LIMIT = 20;
+export const MAX_SEARCH_LIMIT = 50;
+// Tokens of context around the matches in a snippet
+const SNIPPET_TOKENS = 16;
+// Title matches count for less, since every message in a chat shares its title
+const TITLE_WEIGHT = 0.5;
+// Wrap the matched terms in snippets; split out again by splitHighlights
+const MATCH_START = "\u0002";
+const MATCH_END = "\u0003";
+
+// The FTS5 table and the triggers keeping it in sync, created by the
+// add_message_search migration. Prisma doesn't know about them, so a migration
+// rebuilding "Message" or "Chat" drops the triggers without a trace.
+export const MESSAGE_SEARCH_TABLE = "MessageSearch";
+export const MESSAGE_SEARCH_TRIGGERS = [
+  "Message_search_insert",
+  "Message_search_update",
+  "Message_search_delete",
+  "Chat_search_title",
+];
+
+let indexCheck: Promise<string[]> | null = null;
+
+export interface MessageSearchFilters {
+  courseId?: string;
+  role?: "user" | "assistant";
+  chatType?: "general" | "assignment";
+  from?: Date;
+  to?: Date;
+  limit?: number;
+}
+
+export interface HighlightPart {
+  text: string;
+  match: boolean;
+}
+
+export interface MessageSearchResult {
+  messageId: string;
+  chatId: string;
+  chatTitle: HighlightPart[];
+  chatType: string;
+  courseId: string;
+  courseName: string;
+  role: string;
+  createdAt: Date;
+  snippet: HighlightPart[];
+}
+
+/**
+ * Turn what the user typed into an FTS5 query matching all of its words, the
+ * last one as a prefix so results show up while typing. Returns null when
+ * there is nothing to search for.
+ */
+export function buildMatchQuery(query: string): string | null {
+  // Quoting each word keeps FTS5 syntax (AND, NEAR, *, ^) in the input literal
+  const terms = query.match(/[\p{L}\p{N}_]+/gu);
+  if (!terms) return null;
+
+  return terms
+    .map((term, i) => `"${term}"${i === terms.length - 1 ? "*" : ""}`)
+    .join(" ");
+}
+
+/**
+ * Split a snippet or title into plain and matched stretches for display
+ */
+export function splitHighlights(text: string): HighlightPart[] {
+  return text
+    .split(new RegExp(`${MATCH_START}([\\s\\S]*?)${MATCH_END}`))
+    .map((part, i) => ({ text: part, match: i % 2 === 1 }))
+    .filter((part) => part.text);
+}
+
+/**
+ * Find the parts of the full-text index missing from the database, logging an
+ * error if any are, since search silently goes stale without its triggers
+ */
+export async function checkMessageSearchIndex(): Promise<string[]> {
+  const expected = [MESSAGE_SEARCH_TABLE, ...MESSAGE_SEARCH_TRIGGERS];
+  const found = await prisma.$queryRaw<{ name: string }[]>`
+    SELECT "name" FROM "sqlite_master"
+    WHERE "type" IN ('table', 'trigger') AND "name" IN (${Prisma.join(expected)})
+  `;
+  const names = new Set(found.map((row) => row.name));
+  const missing = expected.filter((name) => !names.has(name));
+
+  if (missing.length > 0) {
+    console.error(
+      `Message search index is incomplete, missing ${missing.join(", ")}. Recreate them from the add_message_search migration.`,
+    );
+  }
+  return missing;
+}
+
+/**
+ * Search the content of a user's messages and the titles of their chats,
+ * best matches first
+ */
+export async function searchMessages(
+  userId: string,
+  query: string,
+  filters: MessageSearchFilters = {},
+): Promise<MessageSearchResult[]> {
+  const match = buildMatchQuery(query);
+  if (!match) return [];
+
+  // Checked once per process, on the first search
+  indexCheck ??= checkMessageSearchIndex();
+  await indexCheck;
+
+  // The date range is filtered here, not after the limit, so older matches
+  // still count. SQLite stores Prisma dates as epoch milliseconds.
+  const candidates = await prisma.$queryRaw<
+    { messageId: string; snippet: string; chatTitle: string }[]
+  >`
+    SELECT "MessageSearch"."messageId" AS "messageId",
+      snippet("MessageSearch", 0, ${MATCH_START}, ${MATCH_END}, '…', ${SNIPPET_TOKENS}) AS "snippet",
+      highlight("MessageSearch", 1, ${MATCH_START}, ${MATCH_END}) AS "chatTitle"
+    FROM "MessageSearch"
+    JOIN "Message" ON "Message"."id" = "MessageSearch"."messageId"
+    JOIN "Chat" ON "Chat"."id" = "Message"."chatId"
+    WHERE "MessageSearch" MATCH ${match}
+      AND "Chat"."userId" = ${userId}
+      ${filters.courseId ? Prisma.sql`AND "Chat"."courseId" = ${filters.courseId}` : Prisma.empty}
+      ${filters.role ? Prisma.sql`AND "Message"."role" = ${filters.role}` : Prisma.empty}
+      ${filters.chatType ? Prisma.sql`AND "Chat"."type" = ${filters.chatType}` : Prisma.empty}
+      ${filters.from ? Prisma.sql`AND "Message"."createdAt" >= ${filters.from.getTime()}` : Prisma.empty}
+      ${filters.to ? Prisma.sql`AND "Message"."createdAt" <= ${filters.to.getTime()}` : Prisma.empty}
+    ORDER BY bm25("MessageSearch", 1.0, ${TITLE_WEIGHT})
+    LIMIT ${MAX_CANDIDATES}
+  `;
+  console.log(`Found ${candidates.length} messages matching ${match}`);
+
+  // Load the matches' chats
+  const messages = await prisma.message.findMany({
+    where: { id: { in: candidates.map((candidate) => candidate.messageId) } },
+    include: {
+      chat: {
+        select: {
+          type: true,
+          courseId: true,
+          course: { select: { name: true } },
+        },
+      },
+    },
+  });
+  const byId = new Map(messages.map((message) => [message.id, message]));
+
+  return candidates
+    .flatMap((candidate) => {
+      const message = byId.get(candidate.messageId);
+      if (!message) return [];
+
+      return [
+        {
+          messageId: message.id,
+          chatId: message.chatId,
+          chatTitle: splitHighlights(candidate.chatTitle),
+          chatType: message.chat.type,
+          courseId: message.chat.courseId,
+          courseName: message.chat.course.name,
+          role: message.role,
+          createdAt: message.createdAt,
+          snippet: splitHighlights(candidate.snippet),
+        },
+      ];
+    })
+    .slice(0, filters.limit ?? DEFAULT_LIMIT);
+}
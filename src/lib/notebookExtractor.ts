@@ -0,0 +1,159 @@
+import { ExtractedCell, ExtractedText } from "@/types/types";
+import { normalizeMarkdown } from "./textExtractor";
+
+// Outputs longer than this are cut off, e.g. long training logs
+const MAX_OUTPUT_LENGTH = 2000;
+
+// Images in markdown cells: ![alt](src) and <img> tags
+const MARKDOWN_IMAGE = /!\[[^\]]*\]\([^)]*\)|<img\b[^>]*>/gi;
+// Terminal colours in tracebacks and progress bars
+const ANSI_ESCAPE = /\u001b\[[0-9;]*[A-Za-z]/g;
+
+// The parts of the nbformat 4 schema that are read
+interface NotebookOutput {
+  output_type: string;
+  text?: unknown; // Strings in a notebook may be split into lines
+  data?: Record<string, unknown>; // Keyed by MIME type
+  ename?: string;
+  evalue?: string;
+}
+
+interface NotebookCell {
+  cell_type: string;
+  source: unknown;
+  outputs?: NotebookOutput[];
+}
+
+interface Notebook {
+  cells?: NotebookCell[];
+  metadata?: {
+    kernelspec?: { language?: string };
+    language_info?: { name?: string };
+  };
+}
+
+export interface NotebookOptions {
+  includeOutputs?: boolean; // Add the text outputs of code cells
+}
+
+/**
+ * Read a Jupyter notebook cell by cell: markdown cells stay markdown, code
+ * cells become fenced code blocks, optionally followed by their text outputs.
+ * Images are dropped.
+ */
+export function extractNotebookText(
+  buffer: Buffer,
+  { includeOutputs = false }: NotebookOptions = {},
+): ExtractedText {
+  let notebook: Notebook;
+  try {
+    notebook = JSON.parse(buffer.toString("utf8").replace(/^\uFEFF/, ""));
+  } catch {
+    throw new Error("The file is not a Jupyter notebook");
+  }
+  if (!Array.isArray(notebook?.cells)) {
+    throw new Error(
+      "The file is not a Jupyter notebook in a supported format (nbformat 4)",
+    );
+  }
+
+  const language =
+    notebook.metadata?.language_info?.name ||
+    notebook.metadata?.kernelspec?.language ||
+    "";
+
+  // Cells are numbered by position, counting empty ones, to match the notebook
+  const cells: ExtractedCell[] = [];
+  notebook.cells.forEach((cell, i) => {
+    const text = readCell(cell, language, includeOutputs);
+    if (text) cells.push({ cellNumber: i + 1, text });
+  });
+
+  return {
+    text: cells.map((cell) => cell.text).join("\n\n"),
+    cells,
+    structured: true,
+  };
+}
+
+function readCell(
+  cell: NotebookCell,
+  language: string,
+  includeOutputs: boolean,
+): string {
+  const source = joinLines(cell.source)
+    .replace(/\r\n?/g, "\n")
+    .replace(/^\s*\n/, "")
+    .trimEnd();
+
+  if (cell.cell_type === "markdown") {
+    return normalizeMarkdown(source.replace(MARKDOWN_IMAGE, "")).trim();
+  }
+  // Raw cells are passed through as they are
+  if (cell.cell_type !== "code") return source;
+
+  const parts = source ? [fenceCode(source, language)] : [];
+  if (includeOutputs) {
+    let output = (cell.outputs || [])
+      .map(readOutput)
+      .join("")
+      .replace(ANSI_ESCAPE, "")
+      .replace(/\r\n?/g, "\n")
+      .trim();
+    if (output.length > MAX_OUTPUT_LENGTH) {
+      output = `${output.slice(0, MAX_OUTPUT_LENGTH)}\n… (output truncated)`;
+    }
+    if (output) parts.push(`Output:\n${fenceCode(output, "")}`);
+  }
+  return parts.join("\n\n");
+}
+
+/**
+ * Text of a code cell output: printed text, results and errors
+ */
+function readOutput(output: NotebookOutput): string {
+  switch (output.output_type) {
+    case "stream":
+      return ensureNewline(joinLines(output.text));
+
+    case "execute_result":
+    case "display_data": {
+      const data = output.data || {};
+      // Plots come with a text stand-in such as "<Figure size 640x480>"
+      if (Object.keys(data).some((type) => type.startsWith("image/"))) {
+        return "";
+      }
+      return ensureNewline(
+        joinLines(data["text/plain"] ?? data["text/markdown"]),
+      );
+    }
+
+    case "error":
+      // The traceback repeats the code; the error itself is what matters
+      return `${output.ename}: ${output.evalue}\n`;
+
+    default:
+      return "";
+  }
+}
+
+/**
+ * Wrap code in a fence longer than any run of backticks inside it
+ */
+function fenceCode(code: string, language: string): string {
+  const longest = Math.max(
+    0,
+    ...(code.match(/`+/g) || []).map((run) => run.length),
+  );
+  const fence = "`".repeat(Math.max(3, longest + 1));
+  return `${fence}${language}\n${code}\n${fence}`;
+}
+
+function joinLines(value: unknown): string {
+  if (Array.isArray(value)) return value.join("");
+  return typeof value === "string" ? value : "";
+}
+
+function ensureNewline(text: string): string {
+  return text && !text.endsWith("\n") ? `${text}\n` : text;
+}
@@ -0,0 +1,156 @@
+import { execFile } from "child_process";
+import { ExtractedPage, ExtractedText } from "@/types/types";
+import { renderPdfPages } from "./pdfExtractor";
+
+// PDF pages are rendered at this multiple of 72 DPI for OCR (about 216 DPI)
+const PDF_RENDER_SCALE = 3;
+const OCR_TIMEOUT_MS = 120000;
+// Pages read with less confidence than this are flagged in the logs
+const LOW_CONFIDENCE = 0.6;
+
+export interface OcrResult {
+  text: string;
+  confidence: number; // Mean word confidence, 0-1
+}
+
+/**
+ * Read the text in an image with the local Tesseract engine (TESSERACT_PATH,
+ * in the OCR_LANGUAGES languages)
+ */
+export async function recognizeImage(image: Buffer): Promise<OcrResult> {
+  return parseTesseractTsv(await runTesseract(image));
+}
+
+/**
+ * Read an uploaded PNG or JPEG image, e.g. a photo of a whiteboard
+ */
+export async function extractImageText(buffer: Buffer): Promise<ExtractedText> {
+  const { text, confidence } = await recognizeImage(buffer);
+  logConfidence(1, confidence);
+  return { text, pages: [{ pageNumber: 1, text, confidence }] };
+}
+
+/**
+ * Render PDF pages without a text layer and read them with OCR, one page at
+ * a time to keep memory use down
+ */
+export async function ocrPdfPages(
+  buffer: Buffer,
+  pageNumbers: number[],
+): Promise<ExtractedPage[]> {
+  const pages: ExtractedPage[] = [];
+
+  for await (const { pageNumber, image } of renderPdfPages(
+    buffer,
+    pageNumbers,
+    PDF_RENDER_SCALE,
+  )) {
+    const { text, confidence } = await recognizeImage(image);
+    logConfidence(pageNumber, confidence);
+    pages.push({ pageNumber, text, confidence });
+  }
+
+  console.log(`Read ${pages.length} PDF pages with OCR`);
+  return pages;
+}
+
+/**
+ * Serialize the OCR confidence of each page read by OCR, for storing on the
+ * document, e.g. '{"3":0.91}'
+ */
+export function summarizeOcrConfidence(pages: ExtractedPage[]): string | null {
+  const scored = pages.filter((page) => page.confidence !== undefined);
+  if (scored.length === 0) return null;
+
+  return JSON.stringify(
+    Object.fromEntries(
+      scored.map((page) => [page.pageNumber, page.confidence]),
+    ),
+  );
+}
+
+/**
+ * Rebuild text from Tesseract's TSV output, one line per recognized line and
+ * a blank line between paragraphs, and average its word confidences
+ */
+export function parseTesseractTsv(tsv: string): OcrResult {
+  const lines: string[] = [];
+  const confidences: number[] = [];
+  let words: string[] = [];
+  let lineKey = "";
+  let paragraphKey = "";
+
+  for (const row of tsv.split("\n").slice(1)) {
+    // level, page, block, paragraph, line, word, 4 box columns, conf, text
+    const columns = row.split("\t");
+    if (columns[0] !== "5" || columns.length < 12) continue;
+
+    const text = columns.slice(11).join("\t").trim();
+    if (!text) continue;
+
+    const paragraph = `${columns[1]}.${columns[2]}.${columns[3]}`;
+    const line = `${paragraph}.${columns[4]}`;
+    if (line !== lineKey) {
+      if (words.length > 0) lines.push(words.join(" "));
+      if (paragraphKey && paragraph !== paragraphKey) lines.push("");
+      words = [];
+      lineKey = line;
+      paragraphKey = paragraph;
+    }
+
+    words.push(text);
+    const confidence = Number(columns[10]);
+    if (confidence >= 0) confidences.push(confidence);
+  }
+  if (words.length > 0) lines.push(words.join(" "));
+
+  const mean =
+    confidences.length > 0
+      ? confidences.reduce((sum, value) => sum + value, 0) / confidences.length
+      : 0;
+
+  return {
+    text: lines.join("\n").trim(),
+    confidence: Math.round(mean) / 100,
+  };
+}
+
+/**
+ * Run Tesseract on an image passed through stdin, returning its TSV output
+ */
+function runTesseract(image: Buffer): Promise<string> {
+  const command = process.env.TESSERACT_PATH || "tesseract";
+  const languages = process.env.OCR_LANGUAGES || "eng";
+
+  return new Promise((resolve, reject) => {
+    const child = execFile(
+      command,
+      ["stdin", "stdout", "-l", languages, "tsv"],
+      { maxBuffer: 32 * 1024 * 1024, timeout: OCR_TIMEOUT_MS },
+      (error, stdout) => {
+        if (!error) return resolve(stdout);
+
+        if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+          reject(
+            new Error(
+              `Tesseract OCR was not found at "${command}". Install it or set TESSERACT_PATH.`,
+            ),
+          );
+        } else {
+          reject(error);
+        }
+      },
+    );
+    // A failed start also breaks the pipe; the callback reports it
+    child.stdin?.on("error", () => {});
+    child.stdin?.end(image);
+  });
+}
+
+function logConfidence(pageNumber: number, confidence: number): void {
+  if (confidence < LOW_CONFIDENCE) {
+    console.warn(
+      `OCR of page ${pageNumber} has low confidence (${confidence}); its text may be unreliable`,
+    );
+  }
+}
@@ -0,0 +1,530 @@
+import path from "path";
+import { inflateRawSync } from "zlib";
+import * as cheerio from "cheerio";
+import type { CheerioAPI } from "cheerio";
+import { ExtractedPage, ExtractedText } from "@/types/types";
+
+export type OfficeDocumentType = "docx" | "pptx" | "xlsx";
+type XmlNode = ReturnType<CheerioAPI>;
+
+interface ZipEntry {
+  method: number;
+  data: Buffer;
+  size: number; // Uncompressed size, as recorded in the archive
+}
+
+// Office Open XML files are ZIP packages of XML parts
+type OfficePackage = Map<string, ZipEntry>;
+
+const PAGE_SEPARATOR = "\n\n";
+// Largest XML part inflated, so a small upload can't expand to gigabytes
+const MAX_PART_SIZE = 64 * 1024 * 1024;
+
+/**
+ * Extract the text of a Word, PowerPoint or Excel file locally. Slides and
+ * sheets become pages, as do Word pages where the file records page breaks.
+ * Headings are written as markdown headings and tables as markdown tables, so
+ * the chunker can pick them up.
+ */
+export function extractOfficeText(
+  type: OfficeDocumentType,
+  buffer: Buffer,
+): ExtractedText {
+  const officePackage = readZip(buffer);
+
+  const pages =
+    type === "docx"
+      ? extractDocxPages(officePackage)
+      : type === "pptx"
+        ? extractPptxSlides(officePackage)
+        : extractXlsxSheets(officePackage);
+  const nonEmpty = pages.filter((page) => page.text.trim() !== "");
+
+  console.log(
+    `Extracted text from ${nonEmpty.length} of ${pages.length} ${type} pages`,
+  );
+  return {
+    text: nonEmpty.map((page) => page.text).join(PAGE_SEPARATOR),
+    // A Word file without page breaks is one long page; leave it unpaginated
+    pages: type === "docx" && pages.length === 1 ? undefined : pages,
+  };
+}
+
+/**
+ * Paragraphs, headings, lists and tables of a Word document, split into pages
+ * where Word recorded them
+ */
+function extractDocxPages(officePackage: OfficePackage): ExtractedPage[] {
+  const $ = loadPart(officePackage, "word/document.xml");
+  if (!$) throw new Error("Not a Word document: word/document.xml is missing");
+
+  const headingLevels = readDocxHeadingStyles(officePackage);
+  // Word records where it last laid out page breaks; fall back to the manual
+  // breaks for files written by other tools
+  const hasRenderedBreaks = $("w\\:lastRenderedPageBreak").length > 0;
+  const breakSelector = hasRenderedBreaks
+    ? "w\\:lastRenderedPageBreak"
+    : 'w\\:br[w\\:type="page"]';
+
+  const pages: string[][] = [[]];
+  const addBlock = (block: string) => {
+    if (block.trim()) pages[pages.length - 1].push(block);
+  };
+
+  $("w\\:body")
+    .find("w\\:p, w\\:tbl")
+    .each((_, element) => {
+      const node = $(element);
+      // Paragraphs in tables and text boxes are read with what contains them
+      if (node.parents("w\\:tbl, w\\:p").length > 0) return;
+
+      if (node.is("w\\:tbl")) {
+        addBlock(formatMarkdownTable(readDocxTable($, node)));
+        return;
+      }
+
+      const prefix = getDocxParagraphPrefix(node, headingLevels);
+      let text = "";
+      node.find(`w\\:t, w\\:tab, w\\:br, ${breakSelector}`).each((_, run) => {
+        const part = $(run);
+        if (part.is(breakSelector)) {
+          // Text before the break stays on the previous page
+          addBlock(text && prefix + text);
+          text = "";
+          pages.push([]);
+        } else if (part.is("w\\:t")) {
+          text += part.text();
+        } else {
+          text += part.is("w\\:tab") ? "\t" : "\n";
+        }
+      });
+      addBlock(text && prefix + text);
+    });
+
+  return pages.map((blocks, i) => ({
+    pageNumber: i + 1,
+    text: blocks.join(PAGE_SEPARATOR),
+  }));
+}
+
+/**
+ * Heading level of each paragraph style, e.g. { Heading2: 2, Title: 1 }
+ */
+function readDocxHeadingStyles(
+  officePackage: OfficePackage,
+): Map<string, number> {
+  const levels = new Map<string, number>();
+  const $ = loadPart(officePackage, "word/styles.xml");
+  if (!$) return levels;
+
+  $('w\\:style[w\\:type="paragraph"]').each((_, element) => {
+    const style = $(element);
+    const name = style.children("w\\:name").attr("w:val")?.toLowerCase() || "";
+    const outline = style.find("w\\:pPr > w\\:outlineLvl").attr("w:val");
+
+    const heading = name.match(/^heading (\d)$/);
+    const level = heading
+      ? Number(heading[1])
+      : name === "title"
+        ? 1
+        : outline !== undefined
+          ? Number(outline) + 1
+          : null;
+    if (level && level <= 6) levels.set(style.attr("w:styleId") || "", level);
+  });
+
+  return levels;
+}
+
+/**
+ * Markdown prefix for a paragraph: "## " for headings, "- " for list items
+ */
+function getDocxParagraphPrefix(
+  paragraph: XmlNode,
+  headingLevels: Map<string, number>,
+): string {
+  const properties = paragraph.children("w\\:pPr");
+  const style = properties.children("w\\:pStyle").attr("w:val");
+  const outline = properties.children("w\\:outlineLvl").attr("w:val");
+
+  const level =
+    outline !== undefined
+      ? Number(outline) + 1
+      : style
+        ? headingLevels.get(style)
+        : undefined;
+  if (level && level <= 6) return `${"#".repeat(level)} `;
+
+  const list = properties.children("w\\:numPr");
+  if (list.length > 0) {
+    const depth = Number(list.children("w\\:ilvl").attr("w:val") || 0);
+    return `${"  ".repeat(depth)}- `;
+  }
+  return "";
+}
+
+function readDocxTable($: CheerioAPI, table: XmlNode): string[][] {
+  return table
+    .children("w\\:tr")
+    .toArray()
+    .map((row) =>
+      $(row)
+        .children("w\\:tc")
+        .toArray()
+        .map((cell) =>
+          $(cell)
+            .find("w\\:p")
+            .toArray()
+            .map((paragraph) => $(paragraph).find("w\\:t").text())
+            .filter(Boolean)
+            .join(" "),
+        ),
+    );
+}
+
+/**
+ * One page per slide, in presentation order, with the slide title as a
+ * heading, then its text and tables, then the speaker notes
+ */
+function extractPptxSlides(officePackage: OfficePackage): ExtractedPage[] {
+  const presentationPath = "ppt/presentation.xml";
+  const $ = loadPart(officePackage, presentationPath);
+  if (!$) {
+    throw new Error(
+      "Not a PowerPoint presentation: ppt/presentation.xml is missing",
+    );
+  }
+
+  const relationships = readRelationships(officePackage, presentationPath);
+  const slidePaths = $("p\\:sldIdLst > p\\:sldId")
+    .toArray()
+    .map((slide) => relationships.get($(slide).attr("r:id") || "")?.target)
+    .filter((target): target is string => Boolean(target));
+
+  return slidePaths.map((slidePath, i) => {
+    const slide = loadPart(officePackage, slidePath);
+    const blocks: string[] = [];
+
+    if (slide) {
+      slide("p\\:sp, a\\:tbl").each((_, element) => {
+        const node = slide(element);
+        if (node.is("a\\:tbl")) {
+          blocks.push(formatMarkdownTable(readPptxTable(slide, node)));
+          return;
+        }
+
+        const placeholder = node.find("p\\:nvPr > p\\:ph").attr("type");
+        const text = readPptxParagraphs(slide, node);
+        if (!text) return;
+
+        if (placeholder === "title" || placeholder === "ctrTitle") {
+          blocks.push(`# ${text.replace(/\s+/g, " ")}`);
+        } else if (placeholder !== "sldNum" && placeholder !== "dt") {
+          blocks.push(text);
+        }
+      });
+    }
+
+    const notes = readPptxNotes(officePackage, slidePath);
+    if (notes) blocks.push(`Speaker notes:\n${notes}`);
+
+    return {
+      pageNumber: i + 1,
+      text: blocks.filter((block) => block.trim()).join(PAGE_SEPARATOR),
+    };
+  });
+}
+
+/**
+ * Text of a shape, one line per paragraph, with nested bullets indented
+ */
+function readPptxParagraphs($: CheerioAPI, shape: XmlNode): string {
+  return shape
+    .find("a\\:p")
+    .toArray()
+    .map((paragraph) => {
+      const node = $(paragraph);
+      const depth = Number(node.children("a\\:pPr").attr("lvl") || 0);
+      const text = node
+        .find("a\\:t, a\\:br")
+        .toArray()
+        .map((run) => ($(run).is("a\\:br") ? "\n" : $(run).text()))
+        .join("");
+      return text.trim() ? `${"  ".repeat(depth)}${text}` : "";
+    })
+    .filter(Boolean)
+    .join("\n");
+}
+
+function readPptxTable($: CheerioAPI, table: XmlNode): string[][] {
+  return table
+    .children("a\\:tr")
+    .toArray()
+    .map((row) =>
+      $(row)
+        .children("a\\:tc")
+        .toArray()
+        .map((cell) => readPptxParagraphs($, $(cell)).replace(/\n/g, " ")),
+    );
+}
+
+/**
+ * Speaker notes of a slide: the body placeholder of its notes page
+ */
+function readPptxNotes(
+  officePackage: OfficePackage,
+  slidePath: string,
+): string {
+  const notesPath = [
+    ...readRelationships(officePackage, slidePath).values(),
+  ].find((relationship) => relationship.type.endsWith("/notesSlide"))?.target;
+  const $ = notesPath ? loadPart(officePackage, notesPath) : null;
+  if (!$) return "";
+
+  return $("p\\:sp")
+    .toArray()
+    .filter((shape) => $(shape).find('p\\:ph[type="body"]').length > 0)
+    .map((shape) => readPptxParagraphs($, $(shape)))
+    .filter(Boolean)
+    .join("\n");
+}
+
+/**
+ * One page per worksheet, in workbook order, with the sheet name as a
+ * heading and its cells as a table
+ */
+function extractXlsxSheets(officePackage: OfficePackage): ExtractedPage[] {
+  const workbookPath = "xl/workbook.xml";
+  const $ = loadPart(officePackage, workbookPath);
+  if (!$) throw new Error("Not an Excel workbook: xl/workbook.xml is missing");
+
+  const relationships = readRelationships(officePackage, workbookPath);
+  const sharedStrings = readSharedStrings(officePackage);
+
+  return $("sheets > sheet")
+    .toArray()
+    .map((element, i) => {
+      const sheet = $(element);
+      const sheetPath = relationships.get(sheet.attr("r:id") || "")?.target;
+      const rows = sheetPath
+        ? readXlsxRows(officePackage, sheetPath, sharedStrings)
+        : [];
+
+      return {
+        pageNumber: i + 1,
+        text:
+          rows.length > 0
+            ? `# ${sheet.attr("name")}${PAGE_SEPARATOR}${formatMarkdownTable(rows)}`
+            : "",
+      };
+    });
+}
+
+/**
+ * Cell values of a worksheet, row by row, keeping cells in their columns and
+ * dropping empty rows
+ */
+function readXlsxRows(
+  officePackage: OfficePackage,
+  sheetPath: string,
+  sharedStrings: string[],
+): string[][] {
+  const $ = loadPart(officePackage, sheetPath);
+  if (!$) return [];
+
+  return $("sheetData > row")
+    .toArray()
+    .map((row) => {
+      const values: string[] = [];
+      $(row)
+        .children("c")
+        .each((i, element) => {
+          const cell = $(element);
+          const column = getColumnIndex(cell.attr("r")) ?? i;
+          const value = cell.children("v").text();
+
+          switch (cell.attr("t")) {
+            case "s":
+              values[column] = sharedStrings[Number(value)] ?? "";
+              break;
+            case "inlineStr":
+              values[column] = cell.find("is t").text();
+              break;
+            case "b":
+              values[column] = value === "1" ? "TRUE" : "FALSE";
+              break;
+            default:
+              values[column] = value;
+          }
+        });
+      return Array.from(values, (value) => value?.trim() || "");
+    })
+    .filter((values) => values.some(Boolean));
+}
+
+function readSharedStrings(officePackage: OfficePackage): string[] {
+  const $ = loadPart(officePackage, "xl/sharedStrings.xml");
+  if (!$) return [];
+
+  // Phonetic guides (rPh) repeat the text in another script
+  return $("sst > si")
+    .toArray()
+    .map((item) => $(item).find("t").not("rPh t").text());
+}
+
+/**
+ * Zero-based column of a cell reference, e.g. "C5" → 2
+ */
+function getColumnIndex(reference?: string): number | null {
+  const letters = reference?.match(/^[A-Z]+/)?.[0];
+  if (!letters) return null;
+  return [...letters].reduce((n, c) => n * 26 + c.charCodeAt(0) - 64, 0) - 1;
+}
+
+/**
+ * Markdown table with the first row as its header
+ */
+export function formatMarkdownTable(rows: string[][]): string {
+  const width = Math.max(0, ...rows.map((row) => row.length));
+  if (width === 0) return "";
+
+  const line = (cells: string[]) =>
+    `| ${Array.from({ length: width }, (_, i) =>
+      (cells[i] || "").replace(/\s+/g, " ").replace(/\|/g, "\\|"),
+    ).join(" | ")} |`;
+
+  return [
+    line(rows[0]),
+    line(Array(width).fill("---")),
+    ...rows.slice(1).map(line),
+  ].join("\n");
+}
+
+/**
+ * Relationships of a package part by id, with targets resolved to part paths
+ */
+function readRelationships(
+  officePackage: OfficePackage,
+  partPath: string,
+): Map<string, { type: string; target: string }> {
+  const relationships = new Map<string, { type: string; target: string }>();
+  const directory = path.posix.dirname(partPath);
+  const $ = loadPart(
+    officePackage,
+    path.posix.join(
+      directory,
+      "_rels",
+      `${path.posix.basename(partPath)}.rels`,
+    ),
+  );
+  if (!$) return relationships;
+
+  $("Relationship").each((_, element) => {
+    const relationship = $(element);
+    const target = relationship.attr("Target") || "";
+    if (relationship.attr("TargetMode") === "External") return;
+
+    relationships.set(relationship.attr("Id") || "", {
+      type: relationship.attr("Type") || "",
+      target: target.startsWith("/")
+        ? target.slice(1)
+        : path.posix.join(directory, target),
+    });
+  });
+  return relationships;
+}
+
+function loadPart(
+  officePackage: OfficePackage,
+  partPath: string,
+): CheerioAPI | null {
+  const entry = officePackage.get(partPath);
+  if (!entry) return null;
+
+  // The recorded size may be forged, so inflating is capped as well
+  if (entry.size > MAX_PART_SIZE) throw partTooLarge(partPath);
+  let data = entry.data;
+  if (entry.method === 8) {
+    try {
+      data = inflateRawSync(entry.data, { maxOutputLength: MAX_PART_SIZE });
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ERR_BUFFER_TOO_LARGE") {
+        throw partTooLarge(partPath);
+      }
+      throw error;
+    }
+  }
+  const $ = cheerio.load(data.toString("utf8"), { xml: true });
+  // Drop the copies of shapes and text boxes kept for older Office versions
+  $("mc\\:Fallback").remove();
+  return $;
+}
+
+function partTooLarge(partPath: string): Error {
+  return new Error(
+    `The file is too large to read: ${partPath} is over ${MAX_PART_SIZE / 1024 / 1024} MB uncompressed`,
+  );
+}
+
+/**
+ * Index the files in a ZIP archive from its central directory. Contents are
+ * inflated when a part is loaded.
+ */
+function readZip(buffer: Buffer): OfficePackage {
+  const END_OF_DIRECTORY = 0x06054b50;
+  const DIRECTORY_ENTRY = 0x02014b50;
+
+  // The end record is at the very end, followed by a comment of up to 64 KB
+  let end = -1;
+  for (
+    let i = buffer.length - 22;
+    i >= Math.max(0, buffer.length - 22 - 0xffff);
+    i--
+  ) {
+    if (buffer.readUInt32LE(i) === END_OF_DIRECTORY) {
+      end = i;
+      break;
+    }
+  }
+  if (end === -1) {
+    throw new Error("The file is corrupted or not an Office document");
+  }
+
+  const entries: OfficePackage = new Map();
+  const count = buffer.readUInt16LE(end + 10);
+  let offset = buffer.readUInt32LE(end + 16);
+
+  for (let i = 0; i < count; i++) {
+    if (buffer.readUInt32LE(offset) !== DIRECTORY_ENTRY) {
+      throw new Error("The file is corrupted or not an Office document");
+    }
+
+    const method = buffer.readUInt16LE(offset + 10);
+    const compressedSize = buffer.readUInt32LE(offset + 20);
+    const size = buffer.readUInt32LE(offset + 24);
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const extraLength = buffer.readUInt16LE(offset + 30);
+    const commentLength = buffer.readUInt16LE(offset + 32);
+    const localOffset = buffer.readUInt32LE(offset + 42);
+    const name = buffer.toString("utf8", offset + 46, offset + 46 + nameLength);
+
+    // The local header repeats the name and may have a different extra field
+    const dataStart =
+      localOffset +
+      30 +
+      buffer.readUInt16LE(localOffset + 26) +
+      buffer.readUInt16LE(localOffset + 28);
+
+    // Stored or deflated are the only methods Office uses
+    if (method === 0 || method === 8) {
+      entries.set(name, {
+        method,
+        data: buffer.subarray(dataStart, dataStart + compressedSize),
+        size,
+      });
+    }
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+}
@@ -0,0 +1,119 @@
+import { ExtractedPage } from "@/types/types";
+
+type PdfJsModule = typeof import("pdfjs-dist");
+
+let pdfjsPromise: Promise<PdfJsModule> | null = null;
+
+/**
+ * Load pdf.js lazily so it is never pulled in at server startup
+ */
+function loadPdfJs(): Promise<PdfJsModule> {
+  if (!pdfjsPromise) {
+    pdfjsPromise =
+      import("pdfjs-dist/legacy/build/pdf.js") as Promise<PdfJsModule>;
+  }
+  return pdfjsPromise;
+}
+
+/**
+ * Extract the text layer of every page in a PDF, without any network calls
+ */
+export async function extractPdfPages(
+  buffer: Buffer,
+): Promise<ExtractedPage[]> {
+  const pdfjs = await loadPdfJs();
+
+  const pdf = await pdfjs.getDocument({
+    data: new Uint8Array(buffer),
+    isEvalSupported: false,
+    useSystemFonts: true,
+  }).promise;
+
+  try {
+    const pages: ExtractedPage[] = [];
+
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      const page = await pdf.getPage(pageNumber);
+      const content = await page.getTextContent();
+
+      let text = "";
+      for (const item of content.items) {
+        // Marked-content items carry no text
+        if (!("str" in item)) continue;
+        text += item.str;
+        text += item.hasEOL ? "\n" : "";
+      }
+
+      pages.push({ pageNumber, text: normalizePageText(text) });
+      page.cleanup();
+    }
+
+    console.log(`Extracted text layer from ${pages.length} PDF pages`);
+    return pages;
+  } finally {
+    await pdf.destroy();
+  }
+}
+
+/**
+ * Render pages of a PDF to PNG images one at a time, e.g. for OCR
+ */
+export async function* renderPdfPages(
+  buffer: Buffer,
+  pageNumbers: number[],
+  scale: number,
+): AsyncGenerator<{ pageNumber: number; image: Buffer }> {
+  const pdfjs = await loadPdfJs();
+  const { createCanvas } = await import("canvas");
+
+  const pdf = await pdfjs.getDocument({
+    data: new Uint8Array(buffer),
+    isEvalSupported: false,
+    useSystemFonts: true,
+  }).promise;
+
+  try {
+    for (const pageNumber of pageNumbers) {
+      const page = await pdf.getPage(pageNumber);
+      const viewport = page.getViewport({ scale });
+      const canvas = createCanvas(
+        Math.ceil(viewport.width),
+        Math.ceil(viewport.height),
+      );
+      const context = canvas.getContext("2d");
+
+      // Pages without a background would otherwise render onto transparency
+      context.fillStyle = "white";
+      context.fillRect(0, 0, canvas.width, canvas.height);
+      await page.render({
+        canvasContext: context as unknown as CanvasRenderingContext2D,
+        viewport,
+      }).promise;
+      page.cleanup();
+
+      yield { pageNumber, image: canvas.toBuffer("image/png") };
+    }
+  } finally {
+    await pdf.destroy();
+  }
+}
+
+/**
+ * Get the numbers of pages that have no usable text layer (e.g. scanned pages)
+ */
+export function findEmptyPages(pages: ExtractedPage[]): number[] {
+  return pages
+    .filter((page) => page.text.trim() === "")
+    .map((page) => page.pageNumber);
+}
+
+/**
+ * Collapse runs of spaces while keeping line and paragraph breaks
+ */
+function normalizePageText(text: string): string {
+  return text
+    .replace(/[ \t]+/g, " ")
+    .replace(/ *\n */g, "\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
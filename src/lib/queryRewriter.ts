@@ -0,0 +1,152 @@
+import { LLMMessage, LLMProvider } from "./llmProvider";
+
+// Recent turns shown to the model when condensing a follow-up
+const HISTORY_MESSAGES = 6;
+// Long answers in the history are cut to keep the rewrite prompt small
+const HISTORY_MESSAGE_CHARS = 600;
+
+export interface RewrittenQuery {
+  query: string; // Standalone version of the student's latest message
+  subQueries: string[];
+  hypotheticalAnswer: string | null;
+}
+
+/**
+ * Turn the latest message into a standalone search query using the recent
+ * conversation, so follow-ups like "what about the second one?" retrieve the
+ * right material. Optionally also produces up to QUERY_SUBQUERIES narrower
+ * queries and, with QUERY_HYDE=true, a hypothetical answer to search with.
+ * Falls back to the raw message whenever the model's reply can't be used.
+ */
+export async function rewriteQuery(
+  message: string,
+  history: LLMMessage[],
+  llm: LLMProvider,
+): Promise<RewrittenQuery> {
+  const maxSubQueries = parseInt(process.env.QUERY_SUBQUERIES || "", 10) || 0;
+  const recent = history
+    .filter((msg) => msg.role !== "system")
+    .slice(-HISTORY_MESSAGES);
+
+  const rewritten: RewrittenQuery = {
+    query: message,
+    subQueries: [],
+    hypotheticalAnswer: null,
+  };
+
+  // A first message with nothing to split up is already standalone
+  if (recent.length > 0 || maxSubQueries > 0) {
+    try {
+      const reply = await llm.complete({
+        messages: buildRewriteMessages(message, recent, maxSubQueries),
+        temperature: 0,
+        maxTokens: 300,
+      });
+      const parsed = parseRewrite(reply);
+      if (parsed) {
+        rewritten.query = parsed.query;
+        rewritten.subQueries = parsed.subQueries.slice(0, maxSubQueries);
+      }
+    } catch (error) {
+      console.error("Error rewriting query:", error);
+    }
+  }
+
+  if (process.env.QUERY_HYDE === "true") {
+    try {
+      rewritten.hypotheticalAnswer = await llm.complete({
+        messages: [
+          {
+            role: "system",
+            content:
+              "Write a short passage, as it might appear in course notes or a textbook, that answers the question. Do not mention that it is hypothetical.",
+          },
+          { role: "user", content: rewritten.query },
+        ],
+        temperature: 0,
+        maxTokens: 200,
+      });
+    } catch (error) {
+      console.error("Error generating hypothetical answer:", error);
+    }
+  }
+
+  console.log(
+    `Rewrote "${message}" as "${rewritten.query}" with ${rewritten.subQueries.length} sub-queries`,
+  );
+  return rewritten;
+}
+
+/**
+ * Every query retrieval should run, the standalone query first
+ */
+export function getSearchQueries(rewritten: RewrittenQuery): string[] {
+  const queries = [rewritten.query, ...rewritten.subQueries];
+  if (rewritten.hypotheticalAnswer) queries.push(rewritten.hypotheticalAnswer);
+  return [...new Set(queries.filter((query) => query.trim()))];
+}
+
+/**
+ * Build the prompt asking for a standalone query as JSON
+ */
+function buildRewriteMessages(
+  message: string,
+  history: LLMMessage[],
+  maxSubQueries: number,
+): LLMMessage[] {
+  const conversation = history
+    .map((msg) => {
+      const content =
+        msg.content.length > HISTORY_MESSAGE_CHARS
+          ? `${msg.content.slice(0, HISTORY_MESSAGE_CHARS)}...`
+          : msg.content;
+      return `${msg.role === "user" ? "Student" : "Assistant"}: ${content}`;
+    })
+    .join("\n");
+
+  const subQueryInstruction =
+    maxSubQueries > 0
+      ? `If the question has several distinct parts, also list up to ${maxSubQueries} narrower search queries, one per part.`
+      : "Leave subQueries empty.";
+
+  return [
+    {
+      role: "system",
+      content: `You rewrite a student's latest message into a standalone search query for their course materials.
+Resolve pronouns and references like "the second one" using the conversation, and keep exact terms such as theorem numbers, variable names and course codes.
+${subQueryInstruction}
+Reply with only JSON: {"query": "...", "subQueries": ["..."]}`,
+    },
+    {
+      role: "user",
+      content: `${conversation ? `Conversation:\n${conversation}\n\n` : ""}Latest message: ${message}`,
+    },
+  ];
+}
+
+/**
+ * Read the model's JSON reply, or null if it isn't usable
+ */
+function parseRewrite(
+  reply: string,
+): { query: string; subQueries: string[] } | null {
+  const json = reply.match(/\{[\s\S]*\}/);
+  if (!json) return null;
+
+  try {
+    const parsed = JSON.parse(json[0]);
+    if (typeof parsed.query !== "string" || !parsed.query.trim()) return null;
+
+    return {
+      query: parsed.query.trim(),
+      subQueries: Array.isArray(parsed.subQueries)
+        ? parsed.subQueries.filter(
+            (query: unknown): query is string =>
+              typeof query === "string" && query.trim() !== "",
+          )
+        : [],
+    };
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,258 @@
+import axios from "axios";
+import { LLMProvider } from "./llmProvider";
+import { SearchResult } from "./semanticSearch";
+
+export type RerankerName = "none" | "llm" | "cross-encoder";
+
+const DEFAULT_MMR_LAMBDA = 0.7;
+// Chunks from one document sharing more than this much of the shorter one are duplicates
+const DUPLICATE_OVERLAP = 0.5;
+// Extra redundancy between chunks of the same document, to spread results across documents
+const SAME_DOCUMENT_PENALTY = 0.1;
+
+/**
+ * Post-retrieval stage run on search candidates before they become chat
+ * context: drop overlapping chunks, optionally rerank with a cross-encoder or
+ * the course's LLM (RERANKER), then pick `limit` results with maximal
+ * marginal relevance (MMR_LAMBDA trades relevance against diversity).
+ */
+export async function rerankResults(
+  query: string,
+  candidates: SearchResult[],
+  options: { limit: number; llm?: LLMProvider },
+): Promise<SearchResult[]> {
+  const unique = dedupeResults(candidates);
+  console.log(
+    `Reranking ${unique.length} of ${candidates.length} candidates after removing overlaps`,
+  );
+
+  const relevance = await scoreRelevance(query, unique, options.llm);
+  const lambda = parseFloat(process.env.MMR_LAMBDA || "");
+
+  return selectWithMmr(
+    unique,
+    relevance,
+    options.limit,
+    Number.isNaN(lambda) ? DEFAULT_MMR_LAMBDA : lambda,
+  );
+}
+
+/**
+ * Remove chunks that overlap a better-ranked chunk of the same document, by
+ * character range when known, otherwise by shared words
+ */
+export function dedupeResults(results: SearchResult[]): SearchResult[] {
+  const kept: SearchResult[] = [];
+
+  for (const result of results) {
+    const duplicate = kept.some(
+      (other) =>
+        other.documentId === result.documentId &&
+        getOverlap(other, result) > DUPLICATE_OVERLAP,
+    );
+    if (!duplicate) kept.push(result);
+  }
+
+  return kept;
+}
+
+/**
+ * Greedily pick results that are relevant but unlike those already picked
+ */
+export function selectWithMmr(
+  results: SearchResult[],
+  relevance: number[],
+  limit: number,
+  lambda: number,
+): SearchResult[] {
+  const remaining = results.map((_, i) => i);
+  const selected: number[] = [];
+
+  while (selected.length < limit && remaining.length > 0) {
+    let best = 0;
+    let bestScore = -Infinity;
+
+    remaining.forEach((candidate, position) => {
+      const redundancy = Math.max(
+        0,
+        ...selected.map((chosen) =>
+          getRedundancy(results[candidate], results[chosen]),
+        ),
+      );
+      const score = lambda * relevance[candidate] - (1 - lambda) * redundancy;
+      if (score > bestScore) {
+        best = position;
+        bestScore = score;
+      }
+    });
+
+    selected.push(remaining.splice(best, 1)[0]);
+  }
+
+  return selected.map((i) => results[i]);
+}
+
+/**
+ * Relevance of each result scaled to 0-1, from the configured reranker or,
+ * without one (or if it fails), from the search ranking
+ */
+async function scoreRelevance(
+  query: string,
+  results: SearchResult[],
+  llm?: LLMProvider,
+): Promise<number[]> {
+  const reranker = (process.env.RERANKER || "none") as RerankerName;
+  let scores: number[] | null = null;
+
+  try {
+    if (reranker === "cross-encoder") {
+      scores = await scoreWithCrossEncoder(query, results);
+    } else if (reranker === "llm" && llm) {
+      scores = await scoreWithLLM(query, results, llm);
+    }
+  } catch (error) {
+    console.error(`Error reranking with ${reranker}:`, error);
+  }
+
+  return normalizeScores(scores || results.map((result) => result.score));
+}
+
+/**
+ * Score query-passage pairs with a cross-encoder served over HTTP, using the
+ * text-embeddings-inference `/rerank` API (RERANKER_URL)
+ */
+async function scoreWithCrossEncoder(
+  query: string,
+  results: SearchResult[],
+): Promise<number[]> {
+  if (!process.env.RERANKER_URL) {
+    throw new Error("RERANKER_URL is not set");
+  }
+
+  const response = await axios.post<{ index: number; score: number }[]>(
+    process.env.RERANKER_URL,
+    { query, texts: results.map((result) => result.chunk) },
+    { timeout: 10000 },
+  );
+
+  const scores = new Array<number>(results.length).fill(0);
+  for (const { index, score } of response.data) {
+    scores[index] = score;
+  }
+  return scores;
+}
+
+/**
+ * Ask the LLM to grade every passage in a single call
+ */
+async function scoreWithLLM(
+  query: string,
+  results: SearchResult[],
+  llm: LLMProvider,
+): Promise<number[] | null> {
+  const passages = results
+    .map((result, i) => `[${i + 1}] ${result.chunk}`)
+    .join("\n\n");
+
+  const reply = await llm.complete({
+    messages: [
+      {
+        role: "system",
+        content: `You grade how useful course material passages are for answering a student's question.
+Reply with only a JSON array of numbers from 0 (irrelevant) to 10 (answers the question), one per passage, in order.`,
+      },
+      {
+        role: "user",
+        content: `Question: ${query}\n\nPassages:\n\n${passages}`,
+      },
+    ],
+    temperature: 0,
+    maxTokens: 200,
+  });
+
+  const match = reply.match(/\[[\d\s.,]*\]/);
+  const scores = match ? (JSON.parse(match[0]) as number[]) : [];
+
+  if (scores.length !== results.length) {
+    console.warn(
+      "LLM reranker returned an unusable reply, keeping search order",
+    );
+    return null;
+  }
+  return scores;
+}
+
+/**
+ * Min-max scale scores to 0-1
+ */
+function normalizeScores(scores: number[]): number[] {
+  const min = Math.min(...scores);
+  const max = Math.max(...scores);
+  return scores.map((score) => (max > min ? (score - min) / (max - min) : 1));
+}
+
+/**
+ * How much two results repeat each other, from 0 to about 1
+ */
+function getRedundancy(a: SearchResult, b: SearchResult): number {
+  const similarity =
+    a.embedding && b.embedding
+      ? cosineSimilarity(a.embedding, b.embedding)
+      : getWordOverlap(a.chunk, b.chunk);
+  return (
+    similarity + (a.documentId === b.documentId ? SAME_DOCUMENT_PENALTY : 0)
+  );
+}
+
+/**
+ * Share of the shorter chunk covered by the other
+ */
+function getOverlap(a: SearchResult, b: SearchResult): number {
+  if (
+    a.charStart != null &&
+    a.charEnd != null &&
+    b.charStart != null &&
+    b.charEnd != null
+  ) {
+    const shared =
+      Math.min(a.charEnd, b.charEnd) - Math.max(a.charStart, b.charStart);
+    const shorter = Math.min(a.charEnd - a.charStart, b.charEnd - b.charStart);
+    return shorter > 0 ? Math.max(0, shared) / shorter : 0;
+  }
+  return getWordOverlap(a.chunk, b.chunk);
+}
+
+/**
+ * Share of the smaller word set found in the other text
+ */
+function getWordOverlap(a: string, b: string): number {
+  const wordsA = new Set(a.toLowerCase().match(/[\p{L}\p{N}]+/gu) || []);
+  const wordsB = new Set(b.toLowerCase().match(/[\p{L}\p{N}]+/gu) || []);
+  const smaller = Math.min(wordsA.size, wordsB.size);
+  if (smaller === 0) return 0;
+
+  let shared = 0;
+  for (const word of wordsA) {
+    if (wordsB.has(word)) shared++;
+  }
+  return shared / smaller;
+}
+
+/**
+ * Cosine similarity of two vectors
+ */
+function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length) return 0;
+
+  let dot = 0;
+  let magnitudeA = 0;
+  let magnitudeB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    magnitudeA += a[i] * a[i];
+    magnitudeB += b[i] * b[i];
+  }
+  return magnitudeA && magnitudeB
+    ? dot / Math.sqrt(magnitudeA * magnitudeB)
+    : 0;
+}
@@ -0,0 +1,56 @@
+const DEFAULT_RETRIES = 5;
+const DEFAULT_BASE_DELAY_MS = 1000;
+const MAX_DELAY_MS = 30000;
+
+/**
+ * Whether an error from an API client is a rate limit (HTTP 429)
+ */
+export function isRateLimitError(error: unknown): boolean {
+  if (!error || typeof error !== "object") return false;
+
+  const { status, response, message } = error as {
+    status?: number;
+    response?: { status?: number };
+    message?: string;
+  };
+
+  return (
+    status === 429 ||
+    response?.status === 429 ||
+    /rate limit|too many requests/i.test(message || "")
+  );
+}
+
+/**
+ * Call `fn`, retrying with exponential backoff and jitter while `shouldRetry`
+ * (rate limits by default) accepts the error
+ */
+export async function withRetry<T>(
+  fn: () => Promise<T>,
+  options: {
+    retries?: number;
+    baseDelayMs?: number;
+    shouldRetry?: (error: unknown) => boolean;
+  } = {},
+): Promise<T> {
+  const retries = options.retries ?? DEFAULT_RETRIES;
+  const baseDelayMs = options.baseDelayMs ?? DEFAULT_BASE_DELAY_MS;
+  const shouldRetry = options.shouldRetry ?? isRateLimitError;
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fn();
+    } catch (error) {
+      if (attempt >= retries || !shouldRetry(error)) throw error;
+
+      const delay = Math.min(
+        baseDelayMs * 2 ** attempt * (0.5 + Math.random() / 2),
+        MAX_DELAY_MS,
+      );
+      console.warn(
+        `Retrying after error (attempt ${attempt + 1} of ${retries}) in ${Math.round(delay)}ms`,
+      );
+      await new Promise((resolve) => setTimeout(resolve, delay));
+    }
+  }
+}
@@ -1,12 +1,31 @@
 import { PrismaClient } from '@prisma/client';
-import { OpenAIEmbeddings } from '@langchain/openai';
+import { getEmbeddingProvider } from './embeddingProvider';
+import { searchKeywordIndex, searchVectorIndex } from './vectorIndex';
+import { fuseRankings } from './lexicalIndex';
 
 const prisma = new PrismaClient();
 
-interface SearchResult {
+const DEFAULT_LEXICAL_WEIGHT = 0.5;
+// Each ranking contributes this many candidates per result to the fusion
+const CANDIDATE_MULTIPLIER = 4;
+
+export interface SearchResult {
+  chunkId: string;
   documentId: string;
   chunk: string;
   similarity: number;
+  score: number; // Fused rank score the results are ordered by
+  chunkIndex: number;
+  charStart: number | null;
+  charEnd: number | null;
+  pageStart: number | null;
+  pageEnd: number | null;
+  cellStart: number | null;
+  cellEnd: number | null;
+  timeStart: number | null;
+  timeEnd: number | null;
+  sectionHeading: string | null;
+  embedding?: number[]; // The chunk's vector, for comparing results with each other
 }
 
 interface DocumentResult {
@@ -17,12 +36,16 @@ interface DocumentResult {
 }
 
 /**
- * Search for relevant document chunks using semantic similarity
+ * Search for relevant document chunks, combining semantic similarity with
+ * keyword (BM25) matching. `lexicalWeight` overrides the course's weighting,
+ * a non-empty `documentIds` limits the search to those documents, and chunks
+ * less similar to the query than `minSimilarity` are dropped.
  */
 export async function semanticSearch(
   query: string,
   courseId: string,
-  limit: number = 5
+  limit: number = 5,
+  options: { lexicalWeight?: number | null; documentIds?: string[]; minSimilarity?: number } = {}
 ): Promise<SearchResult[]> {
   try {
     console.log(`Performing semantic search for query "${query}" in course ${courseId}`);
@@ -32,75 +55,121 @@ export async function semanticSearch(
       where: {
         courseId,
         processed: true,
+        ...(options.documentIds?.length ? { id: { in: options.documentIds } } : {}),
       },
+      select: { id: true },
     });
     
-    console.log(`Found ${courseDocuments.length} processed documents in the course`);
+    console.log(`Found ${courseDocuments.length} processed documents in the ${options.documentIds?.length ? 'selected materials' : 'course'}`);
     
     if (courseDocuments.length === 0) {
       console.log('No processed documents found. Make sure documents are uploaded and processed.');
       return [];
     }
     
-    // Get document IDs
-    const documentIds = courseDocuments.map((doc: {id: string}) => doc.id);
-    console.log(`Document IDs: ${documentIds.join(', ')}`);
+    const documentIds = courseDocuments.map((doc) => doc.id);
     
-    // Generate embedding for the query
-    const embeddings = new OpenAIEmbeddings({
-      openAIApiKey: process.env.OPENAI_API_KEY,
+    // Generate embedding for the query with the model the course was embedded with
+    const course = await prisma.course.findUnique({
+      where: { id: courseId },
+      select: { embeddingModel: true, lexicalWeight: true },
     });
+    const embeddings = getEmbeddingProvider(course?.embeddingModel);
     
     const queryEmbedding = await embeddings.embedQuery(query);
-    console.log(`Generated query embedding with ${queryEmbedding.length} dimensions`);
+    console.log(`Generated query embedding with ${queryEmbedding.length} dimensions using ${embeddings.model}`);
+    
+    const lexicalWeight = resolveLexicalWeight(options.lexicalWeight ?? course?.lexicalWeight);
+    const candidateCount = limit * CANDIDATE_MULTIPLIER;
+    
+    // Find the nearest vectors from the same model in the course's index, and
+    // the best keyword matches over the same chunks
+    const [vectorMatches, keywordMatches] = await Promise.all([
+      lexicalWeight < 1
+        ? searchVectorIndex(courseId, embeddings.model, queryEmbedding, candidateCount, { documentIds })
+        : [],
+      lexicalWeight > 0
+        ? searchKeywordIndex(courseId, embeddings.model, query, candidateCount, { documentIds })
+        : [],
+    ]);
+    
+    console.log(`Found ${vectorMatches.length} vector and ${keywordMatches.length} keyword matches (keyword weight ${lexicalWeight})`);
+    
+    if (vectorMatches.length === 0 && keywordMatches.length === 0) {
+      const otherModelVectors = await prisma.vectorStore.count({
+        where: {
+          documentId: {
+            in: documentIds,
+          },
+          NOT: { embeddingModel: embeddings.model },
+        },
+      });
+      if (otherModelVectors > 0) {
+        console.warn(`Found ${otherModelVectors} vectors from other embedding models. Run a re-embedding job to move the course to ${embeddings.model}.`);
+      } else {
+        console.log('No matching chunks found. Document processing might have failed.');
+      }
+      return [];
+    }
     
-    // Get all document vectors for the course
-    const documentVectors = await prisma.vectorStore.findMany({
+    // Merge the two rankings with reciprocal rank fusion. Under a similarity
+    // threshold every candidate is kept, so skipped chunks can be replaced.
+    const fused = fuseRankings([
+      { ids: vectorMatches.map((match) => match.id), weight: 1 - lexicalWeight },
+      { ids: keywordMatches.map((match) => match.id), weight: lexicalWeight },
+    ]);
+    const candidates = options.minSimilarity ? fused : fused.slice(0, limit);
+    const similarities = new Map(vectorMatches.map((match) => [match.id, match.similarity]));
+    
+    // Load the text and location of the matched chunks
+    const vectors = await prisma.vectorStore.findMany({
       where: {
-        documentId: {
-          in: documentIds,
+        id: {
+          in: candidates.map((match) => match.id),
         },
       },
-      include: {
-        document: true,
-      },
     });
-    
-    console.log(`Found ${documentVectors.length} vector chunks from documents`);
-    
-    if (documentVectors.length === 0) {
-      console.log('No vector embeddings found. Document processing might have failed.');
-      return [];
-    }
-    
-    // Calculate cosine similarity between query and each document vector
-    const similarities: SearchResult[] = [];
-    
-    for (const vector of documentVectors) {
-      try {
-        // Parse the stored embedding string back to an array
-        const embeddingVector = JSON.parse(vector.embedding);
-        
-        // Calculate cosine similarity
-        const similarity = calculateCosineSimilarity(queryEmbedding, embeddingVector);
-        
-        similarities.push({
-          documentId: vector.documentId,
-          chunk: vector.chunk,
-          similarity,
-        });
-        
-        console.log(`Chunk from document ${vector.documentId} has similarity ${similarity.toFixed(4)}`);
-      } catch (error) {
-        console.error(`Error processing vector for document ${vector.documentId}:`, error);
+    const vectorsById = new Map(vectors.map((vector) => [vector.id, vector]));
+    
+    const results: SearchResult[] = [];
+    for (const match of candidates) {
+      if (results.length === limit) break;
+      const vector = vectorsById.get(match.id);
+      // Skip chunks deleted since the index was loaded
+      if (!vector) continue;
+      
+      // Keyword-only matches still report how semantically close they are
+      const embedding: number[] = JSON.parse(vector.embedding);
+      const similarity =
+        similarities.get(vector.id) ??
+        calculateCosineSimilarity(queryEmbedding, embedding);
+      if (options.minSimilarity && similarity < options.minSimilarity) {
+        console.log(`Skipping chunk from document ${vector.documentId} with similarity ${similarity.toFixed(4)} below ${options.minSimilarity}`);
+        continue;
       }
+      
+      results.push({
+        chunkId: vector.id,
+        documentId: vector.documentId,
+        chunk: vector.chunk,
+        similarity,
+        score: match.score,
+        chunkIndex: vector.chunkIndex,
+        charStart: vector.charStart,
+        charEnd: vector.charEnd,
+        pageStart: vector.pageStart,
+        pageEnd: vector.pageEnd,
+        cellStart: vector.cellStart,
+        cellEnd: vector.cellEnd,
+        timeStart: vector.timeStart,
+        timeEnd: vector.timeEnd,
+        sectionHeading: vector.sectionHeading,
+        embedding,
+      });
+      
+      console.log(`Chunk from document ${vector.documentId} has similarity ${similarity.toFixed(4)} and fused score ${match.score.toFixed(4)}`);
     }
     
-    // Sort by similarity (descending) and take the top 'limit' results
-    const results = similarities
-      .sort((a, b) => b.similarity - a.similarity)
-      .slice(0, limit);
-    
     console.log(`Returning top ${results.length} most relevant chunks`);
     return results;
       
@@ -110,6 +179,34 @@ export async function semanticSearch(
   }
 }
 
+/**
+ * Merge the results of several searches (e.g. rewritten and sub-queries) into
+ * one list with reciprocal rank fusion, keeping each chunk once
+ */
+export function mergeSearchResults(resultLists: SearchResult[][]): SearchResult[] {
+  if (resultLists.length === 1) return resultLists[0];
+  
+  const byId = new Map<string, SearchResult>();
+  for (const results of resultLists) {
+    for (const result of results) {
+      if (!byId.has(result.chunkId)) byId.set(result.chunkId, result);
+    }
+  }
+  
+  return fuseRankings(
+    resultLists.map((results) => ({ ids: results.map((result) => result.chunkId), weight: 1 }))
+  ).map(({ id, score }) => ({ ...byId.get(id)!, score }));
+}
+
+/**
+ * Clamp a keyword weighting to 0-1, falling back to RETRIEVAL_LEXICAL_WEIGHT
+ */
+function resolveLexicalWeight(weight?: number | null): number {
+  const fallback = parseFloat(process.env.RETRIEVAL_LEXICAL_WEIGHT || '');
+  const value = weight ?? (Number.isNaN(fallback) ? DEFAULT_LEXICAL_WEIGHT : fallback);
+  return Math.min(1, Math.max(0, value));
+}
+
 /**
  * Calculate cosine similarity between two vectors
  */
@@ -120,22 +217,16 @@ function calculateCosineSimilarity(vecA: number[], vecB: number[]): number {
     return 0;
   }
   
-  try {
-    // Calculate dot product
-    const dotProduct = vecA.reduce((sum, a, i) => sum + a * vecB[i], 0);
-    
-    // Calculate magnitudes
-    const magnitudeA = Math.sqrt(vecA.reduce((sum, a) => sum + a * a, 0));
-    const magnitudeB = Math.sqrt(vecB.reduce((sum, b) => sum + b * b, 0));
-    
-    // Calculate cosine similarity
-    if (magnitudeA === 0 || magnitudeB === 0) {
-      return 0;
-    }
-    
-    return dotProduct / (magnitudeA * magnitudeB);
-  } catch (error) {
-    console.error('Error calculating cosine similarity:', error);
+  // Calculate dot product
+  const dotProduct = vecA.reduce((sum, a, i) => sum + a * vecB[i], 0);
+  
+  // Calculate magnitudes
+  const magnitudeA = Math.sqrt(vecA.reduce((sum, a) => sum + a * a, 0));
+  const magnitudeB = Math.sqrt(vecB.reduce((sum, b) => sum + b * b, 0));
+  
+  if (magnitudeA === 0 || magnitudeB === 0) {
     return 0;
   }
+  
+  return dotProduct / (magnitudeA * magnitudeB);
 } 
\ No newline at end of file
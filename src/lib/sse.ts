@@ -0,0 +1,61 @@
+export interface ServerSentEvent {
+  event: string;
+  data: string;
+}
+
+/**
+ * Encode a named Server-Sent Event with a JSON payload
+ */
+export function formatServerSentEvent(event: string, data: unknown): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+/**
+ * Read a text/event-stream response body, calling `onEvent` for each event
+ */
+export async function readServerSentEvents(
+  response: Response,
+  onEvent: (event: ServerSentEvent) => void,
+): Promise<void> {
+  if (!response.body) {
+    throw new Error("Response has no body to stream");
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+
+    // Events are separated by a blank line
+    let boundary = buffer.indexOf("\n\n");
+    while (boundary !== -1) {
+      const parsed = parseEvent(buffer.slice(0, boundary));
+      if (parsed) onEvent(parsed);
+      buffer = buffer.slice(boundary + 2);
+      boundary = buffer.indexOf("\n\n");
+    }
+  }
+}
+
+/**
+ * Parse the `event:` and `data:` fields of a single raw event
+ */
+function parseEvent(raw: string): ServerSentEvent | null {
+  let event = "message";
+  const data: string[] = [];
+
+  for (const line of raw.split("\n")) {
+    if (line.startsWith("event:")) {
+      event = line.slice(6).trim();
+    } else if (line.startsWith("data:")) {
+      data.push(line.slice(5).trimStart());
+    }
+  }
+
+  return data.length > 0 ? { event, data: data.join("\n") } : null;
+}
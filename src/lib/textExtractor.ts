@@ -0,0 +1,251 @@
+import * as cheerio from "cheerio";
+import type { CheerioAPI } from "cheerio";
+import { ExtractedText } from "@/types/types";
+import { formatMarkdownTable } from "./officeExtractor";
+
+export type TextDocumentType = "md" | "html" | "tex" | "txt";
+
+type XmlNode = ReturnType<CheerioAPI>;
+
+// LaTeX sectioning commands, outermost first
+const LATEX_SECTIONS = [
+  "part",
+  "chapter",
+  "section",
+  "subsection",
+  "subsubsection",
+  "paragraph",
+  "subparagraph",
+];
+
+// HTML elements read as blocks of their own; others are inline text
+const HTML_BLOCK_TAGS = [
+  "p",
+  "div",
+  "section",
+  "article",
+  "main",
+  "header",
+  "footer",
+  "aside",
+  "nav",
+  "blockquote",
+  "figure",
+  "figcaption",
+  "dl",
+  "dt",
+  "dd",
+];
+
+// Fenced code blocks, which markdown rewriting must leave alone
+const CODE_FENCE = /^(`{3,}|~{3,})[^\n]*\n[\s\S]*?\n\1[ \t]*$/gm;
+
+/**
+ * Read an uploaded Markdown, HTML, LaTeX or plain-text file. Headings come out
+ * as markdown headings, and code and math are kept verbatim, so the chunker
+ * can split by section without breaking them up.
+ */
+export function extractTextFile(
+  type: TextDocumentType,
+  buffer: Buffer,
+): ExtractedText {
+  const source = buffer
+    .toString("utf8")
+    .replace(/^\uFEFF/, "")
+    .replace(/\r\n?/g, "\n");
+
+  const text =
+    type === "md"
+      ? normalizeMarkdown(source)
+      : type === "html"
+        ? htmlToMarkdown(source)
+        : type === "tex"
+          ? latexToMarkdown(source)
+          : source;
+
+  return {
+    text: text
+      .replace(/[ \t]+$/gm, "")
+      .replace(/\n{3,}/g, "\n\n")
+      .trim(),
+    structured: true,
+  };
+}
+
+/**
+ * Turn underlined (setext) headings into # headings
+ */
+export function normalizeMarkdown(markdown: string): string {
+  return mapOutsideCodeFences(markdown, (part) =>
+    part.replace(
+      /^(\S.*)\n(=+|-+)[ \t]*$/gm,
+      (_, title: string, underline: string) =>
+        `${underline[0] === "=" ? "#" : "##"} ${title.trim()}`,
+    ),
+  );
+}
+
+/**
+ * Keep the readable structure of an HTML page as markdown: headings,
+ * paragraphs, lists, tables, code blocks, and MathML as TeX where the page
+ * provides it
+ */
+function htmlToMarkdown(html: string): string {
+  const $ = cheerio.load(html);
+  $("script, style, noscript, template, svg").remove();
+
+  $("math").each((_, element) => {
+    const math = $(element);
+    const tex =
+      math.find('annotation[encoding="application/x-tex"]').text().trim() ||
+      math.attr("alttext")?.trim();
+    if (!tex) return;
+
+    math.replaceWith(
+      math.attr("display") === "block" ? `\n$$\n${tex}\n$$\n` : `$${tex}$`,
+    );
+  });
+
+  const blocks: string[] = [];
+  readHtmlBlocks($, $("body"), blocks, 0);
+  return blocks.join("\n\n");
+}
+
+function readHtmlBlocks(
+  $: CheerioAPI,
+  container: XmlNode,
+  blocks: string[],
+  listDepth: number,
+): void {
+  // Text directly inside a container, between its block elements
+  let loose = "";
+  const flushLoose = () => {
+    if (loose.trim()) blocks.push(collapseWhitespace(loose));
+    loose = "";
+  };
+
+  container.contents().each((_, child) => {
+    if (child.type === "text") {
+      loose += $(child).text();
+      return;
+    }
+    if (child.type !== "tag") return;
+
+    const node = $(child);
+    const tag = child.tagName.toLowerCase();
+    const heading = tag.match(/^h([1-6])$/);
+
+    if (heading) {
+      flushLoose();
+      blocks.push(
+        `${"#".repeat(Number(heading[1]))} ${collapseWhitespace(node.text())}`,
+      );
+    } else if (tag === "pre") {
+      flushLoose();
+      blocks.push(`\`\`\`\n${node.text().replace(/\n+$/, "")}\n\`\`\``);
+    } else if (tag === "table") {
+      flushLoose();
+      blocks.push(
+        formatMarkdownTable(
+          node
+            .find("tr")
+            .toArray()
+            .map((row) =>
+              $(row)
+                .children("th, td")
+                .toArray()
+                .map((cell) => collapseWhitespace($(cell).text())),
+            ),
+        ),
+      );
+    } else if (tag === "ul" || tag === "ol") {
+      flushLoose();
+      readHtmlList($, node, blocks, listDepth);
+    } else if (tag === "br") {
+      loose += "\n";
+    } else if (HTML_BLOCK_TAGS.includes(tag)) {
+      flushLoose();
+      readHtmlBlocks($, node, blocks, listDepth);
+    } else {
+      // Inline elements (links, emphasis, inline code) are part of the text
+      loose += node.text();
+    }
+  });
+
+  flushLoose();
+}
+
+/**
+ * One line per list item, with nested lists indented under their item
+ */
+function readHtmlList(
+  $: CheerioAPI,
+  list: XmlNode,
+  blocks: string[],
+  depth: number,
+): void {
+  const ordered = list.is("ol");
+
+  list.children("li").each((i, element) => {
+    const item = $(element);
+    const text = collapseWhitespace(
+      item.clone().children("ul, ol").remove().end().text(),
+    );
+    if (text) {
+      blocks.push(
+        `${"  ".repeat(depth)}${ordered ? `${i + 1}.` : "-"} ${text}`,
+      );
+    }
+    item.children("ul, ol").each((_, nested) => {
+      readHtmlList($, $(nested), blocks, depth + 1);
+    });
+  });
+}
+
+/**
+ * Rewrite LaTeX sectioning commands as markdown headings and drop the
+ * preamble and comments. Math environments are left as they are.
+ */
+function latexToMarkdown(latex: string): string {
+  // Comments run from an unescaped % to the end of the line
+  let text = latex.replace(/(^|[^\\])%.*$/gm, "$1");
+
+  const title = text.match(/\\title\{((?:[^{}]|\{[^{}]*\})*)\}/)?.[1];
+  const begin = text.indexOf("\\begin{document}");
+  if (begin !== -1) text = text.slice(begin + "\\begin{document}".length);
+  text = text
+    .replace(/\\end\{document\}[\s\S]*$/, "")
+    .replace(/\\(maketitle|tableofcontents)\b/g, "");
+
+  // The outermost sectioning command used becomes a level 1 heading, or level
+  // 2 under the document title
+  const used = LATEX_SECTIONS.filter((command) =>
+    new RegExp(`\\\\${command}\\*?[[{]`).test(text),
+  );
+  const offset = title ? 2 : 1;
+
+  text = text.replace(
+    /\\(part|chapter|section|subsection|subsubsection|paragraph|subparagraph)\*?(?:\[[^\]]*\])?\{((?:[^{}]|\{[^{}]*\})*)\}/g,
+    (_, command: string, heading: string) =>
+      `\n\n${"#".repeat(Math.min(used.indexOf(command) + offset, 6))} ${collapseWhitespace(heading)}\n\n`,
+  );
+
+  return title ? `# ${collapseWhitespace(title)}\n\n${text}` : text;
+}
+
+function mapOutsideCodeFences(
+  text: string,
+  transform: (part: string) => string,
+): string {
+  let result = "";
+  let last = 0;
+  for (const fence of text.matchAll(CODE_FENCE)) {
+    result += transform(text.slice(last, fence.index)) + fence[0];
+    last = fence.index! + fence[0].length;
+  }
+  return result + transform(text.slice(last));
+}
+
+function collapseWhitespace(text: string): string {
+  return text.replace(/\s+/g, " ").trim();
+}
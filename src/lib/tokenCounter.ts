@@ -0,0 +1,65 @@
+import {
+  encodingForModel,
+  getEncoding,
+  Tiktoken,
+  TiktokenModel,
+} from "js-tiktoken";
+import { LLMMessage } from "./llmProvider";
+
+// Tokens each chat message costs on top of its content (role and separators)
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+const encoders = new Map<string, Tiktoken>();
+
+/**
+ * Count the tokens in a piece of text for a model. Models tiktoken doesn't
+ * know (local ones) are counted with cl100k_base, which is close enough for
+ * budgeting.
+ */
+export function countTokens(text: string, model: string): number {
+  return getEncoder(model).encode(text).length;
+}
+
+/**
+ * Count the tokens a list of chat messages will take up in a prompt
+ */
+export function countMessageTokens(
+  messages: LLMMessage[],
+  model: string,
+): number {
+  return messages.reduce(
+    (sum, msg) =>
+      sum + countTokens(msg.content, model) + MESSAGE_OVERHEAD_TOKENS,
+    0,
+  );
+}
+
+/**
+ * Cut text down to at most `maxTokens` tokens
+ */
+export function truncateToTokens(
+  text: string,
+  maxTokens: number,
+  model: string,
+): string {
+  const encoder = getEncoder(model);
+  const tokens = encoder.encode(text);
+  if (tokens.length <= maxTokens) return text;
+  return encoder.decode(tokens.slice(0, Math.max(0, maxTokens)));
+}
+
+/**
+ * Get (and cache) the tokenizer for a model
+ */
+function getEncoder(model: string): Tiktoken {
+  let encoder = encoders.get(model);
+  if (!encoder) {
+    try {
+      encoder = encodingForModel(model as TiktokenModel);
+    } catch {
+      encoder = getEncoding("cl100k_base");
+    }
+    encoders.set(model, encoder);
+  }
+  return encoder;
+}
@@ -0,0 +1,118 @@
+// Caption file parsing, shared with the transcript preview, so it must stay
+// free of server-only imports.
+import { ExtractedText, TranscriptCue } from "@/types/types";
+
+// e.g. "01:02:03.456" or "02:03.456" (WebVTT), "01:02:03,456" (SRT)
+const TIMESTAMP = "(?:\\d+:)?\\d{1,2}:\\d{2}[.,]\\d{1,3}";
+const TIMING_LINE = new RegExp(`^\\s*(${TIMESTAMP})\\s*-->\\s*(${TIMESTAMP})`);
+
+const ENTITIES: Record<string, string> = {
+  "&amp;": "&",
+  "&lt;": "<",
+  "&gt;": ">",
+  "&quot;": '"',
+  "&#39;": "'",
+  "&nbsp;": " ",
+  "&lrm;": "",
+  "&rlm;": "",
+};
+
+/**
+ * Read the cues of a WebVTT or SRT caption file, in order, with styling,
+ * speaker tags and header blocks removed
+ */
+export function parseCaptions(source: string): TranscriptCue[] {
+  const cues: TranscriptCue[] = [];
+  let previousLines: string[] = [];
+
+  const blocks = source
+    .replace(/^\uFEFF/, "")
+    .replace(/\r\n?/g, "\n")
+    .split(/\n[ \t]*\n/);
+
+  for (const block of blocks) {
+    // The timing line may follow a cue number (SRT) or identifier (WebVTT);
+    // blocks without one are headers, notes and styles
+    const lines = block.replace(/^\n+/, "").split("\n");
+    const timingIndex = lines.findIndex((line) => TIMING_LINE.test(line));
+    if (timingIndex === -1 || timingIndex > 1) continue;
+
+    const [, start, end] = lines[timingIndex].match(TIMING_LINE)!;
+    let textLines = lines
+      .slice(timingIndex + 1)
+      .map(cleanCueText)
+      .filter(Boolean);
+
+    // Auto-generated captions roll: each cue repeats the previous cue's text
+    while (textLines.length > 0 && previousLines.includes(textLines[0])) {
+      textLines = textLines.slice(1);
+    }
+    if (textLines.length === 0) continue;
+    previousLines = textLines;
+
+    cues.push({
+      start: parseTimestamp(start),
+      end: parseTimestamp(end),
+      text: textLines.join(" "),
+    });
+  }
+
+  return cues.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Read an uploaded caption file into one line of text per cue
+ */
+export function extractTranscriptText(buffer: Buffer): ExtractedText {
+  const cues = parseCaptions(buffer.toString("utf8"));
+  return { text: cues.map((cue) => cue.text).join("\n"), cues };
+}
+
+/**
+ * Format seconds into a recording for display, e.g. "23:41" or "1:02:03"
+ */
+export function formatTimestamp(seconds: number): string {
+  const total = Math.floor(seconds);
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const secs = String(total % 60).padStart(2, "0");
+
+  return hours > 0
+    ? `${hours}:${String(minutes).padStart(2, "0")}:${secs}`
+    : `${minutes}:${secs}`;
+}
+
+/**
+ * Index of the cue playing at a time: the last one started by then
+ */
+export function findCueAt(cues: TranscriptCue[], seconds: number): number {
+  let index = 0;
+  cues.forEach((cue, i) => {
+    if (cue.start <= seconds) index = i;
+  });
+  return index;
+}
+
+function parseTimestamp(value: string): number {
+  const [clock, fraction] = value.split(/[.,]/);
+  const seconds = clock
+    .split(":")
+    .reduce((total, part) => total * 60 + Number(part), 0);
+  return seconds + Number(`0.${fraction}`);
+}
+
+/**
+ * Strip tags such as <v Speaker>, <i> and inline timestamps, SRT position
+ * codes such as {\an8}, and entities
+ */
+function cleanCueText(line: string): string {
+  return line
+    .replace(/<[^>]*>/g, "")
+    .replace(/\{\\[^}]*\}/g, "")
+    .replace(
+      /&(amp|lt|gt|quot|#39|nbsp|lrm|rlm);/g,
+      (entity) => ENTITIES[entity],
+    )
+    .replace(/\s+/g, " ")
+    .trim();
+}
@@ -0,0 +1,175 @@
+import { PrismaClient } from "@prisma/client";
+
+const prisma = new PrismaClient();
+
+export type TutoringStrictness = "relaxed" | "standard" | "strict";
+
+export const TUTORING_STRICTNESS_LEVELS: TutoringStrictness[] = [
+  "relaxed",
+  "standard",
+  "strict",
+];
+
+const DEFAULT_STRICTNESS: TutoringStrictness = "standard";
+
+// The hint ladder, from least to most help
+export const HINT_LEVELS = [
+  {
+    level: 1,
+    name: "nudge",
+    instruction:
+      "Ask one or two guiding questions that point the student toward the relevant idea. Don't explain the method yet.",
+  },
+  {
+    level: 2,
+    name: "concept",
+    instruction:
+      "Explain the concept, definition or theorem the student needs, illustrated with an example unrelated to the assignment, then ask how it applies to their problem.",
+  },
+  {
+    level: 3,
+    name: "next step",
+    instruction:
+      "Help the student find the next step of their own approach: check their reasoning, point out where it goes wrong, and describe what the step should achieve, leaving the working to them.",
+  },
+  {
+    level: 4,
+    name: "worked example",
+    instruction:
+      "Walk through a worked example of a similar problem with a different setup, step by step, then ask the student to apply the same steps to their problem.",
+  },
+];
+
+// Most help each strictness allows
+const MAX_HINT_LEVEL: Record<TutoringStrictness, number> = {
+  relaxed: 4,
+  standard: 3,
+  strict: 2,
+};
+
+const MORE_HELP_PATTERN =
+  /\b(still (stuck|confused|lost)|another hint|more (help|detail)|(don'?t|do not) (get|understand)|no idea|not sure how|next step|explain (more|further))\b/i;
+const SOLUTION_REQUEST_PATTERN =
+  /\b((give|tell|show|write) me the (full |complete |final )?(answer|solution|code|proof)s?|(solve|answer|complete|do) (this|it|question|problem|part|exercise)|just (give|tell)|full solution|what'?s the answer)\b/i;
+
+export interface TutoringTurn {
+  strictness: TutoringStrictness;
+  hintLevel: number;
+  solutionRequested: boolean;
+}
+
+/**
+ * Get a course's tutoring strictness, falling back to "standard"
+ */
+export function getTutoringStrictness(
+  value?: string | null,
+): TutoringStrictness {
+  return TUTORING_STRICTNESS_LEVELS.includes(value as TutoringStrictness)
+    ? (value as TutoringStrictness)
+    : DEFAULT_STRICTNESS;
+}
+
+/**
+ * Decide how much help a turn may give. A chat starts with a nudge and moves
+ * one level up the hint ladder each time the student says they need more
+ * help, never past what the course's strictness allows.
+ */
+export function decideHintLevel(
+  previousLevel: number,
+  message: string,
+  strictness: TutoringStrictness,
+): TutoringTurn {
+  const wanted =
+    previousLevel === 0
+      ? 1
+      : MORE_HELP_PATTERN.test(message)
+        ? previousLevel + 1
+        : previousLevel;
+
+  return {
+    strictness,
+    hintLevel: Math.min(wanted, MAX_HINT_LEVEL[strictness]),
+    solutionRequested: SOLUTION_REQUEST_PATTERN.test(message),
+  };
+}
+
+/**
+ * Plan the next turn of an assignment chat from the hints it has given so far
+ */
+export async function planTutoringTurn(
+  chatId: string,
+  message: string,
+  strictness: TutoringStrictness,
+): Promise<TutoringTurn> {
+  const previous = await prisma.tutoringEvent.findFirst({
+    where: { chatId },
+    orderBy: { createdAt: "desc" },
+    select: { hintLevel: true },
+  });
+
+  return decideHintLevel(previous?.hintLevel ?? 0, message, strictness);
+}
+
+/**
+ * System instructions for a tutoring turn
+ */
+export function buildTutoringInstructions(
+  turn: TutoringTurn,
+  assignment: { name: string | null; documentTitle: string | null },
+): string {
+  const hint = HINT_LEVELS[turn.hintLevel - 1];
+  const assignmentName = assignment.name
+    ? `"${assignment.name}"`
+    : "an assignment";
+
+  let instructions = `\n\nThe student is working on ${assignmentName}, which may be graded. Act as a tutor, not a solver:
+- Never give the complete solution, final answer, finished proof or working code for any part of the assignment, even if asked directly or told it's for checking.
+- Guide with questions and scaffolding so the student does the work, one step at a time.
+- Confirm correct reasoning and point out mistakes in the student's own work without rewriting it for them.
+- Use the course materials to explain concepts, not to solve the assignment's questions.`;
+
+  if (assignment.documentTitle) {
+    instructions += `\n- "${assignment.documentTitle}" is the assignment itself. Its questions are for the student to answer; don't answer them.`;
+  }
+
+  instructions += `\n\nHint level ${turn.hintLevel} of ${MAX_HINT_LEVEL[turn.strictness]} (${hint.name}): ${hint.instruction}`;
+
+  if (turn.solutionRequested) {
+    instructions +=
+      "\n\nThe student asked for the solution. Briefly explain that you can't provide it for an assignment, then give the hint above.";
+  }
+
+  return instructions;
+}
+
+/**
+ * Record the help given in an assignment chat for the course's audit trail.
+ * Events outlive the chat, so deleting a chat doesn't erase its history.
+ */
+export async function recordTutoringTurn(
+  chat: {
+    id: string;
+    courseId: string;
+    userId: string;
+    assignmentName: string | null;
+  },
+  messageId: string,
+  turn: TutoringTurn,
+): Promise<void> {
+  try {
+    await prisma.tutoringEvent.create({
+      data: {
+        chatId: chat.id,
+        messageId,
+        courseId: chat.courseId,
+        userId: chat.userId,
+        assignmentName: chat.assignmentName,
+        strictness: turn.strictness,
+        hintLevel: turn.hintLevel,
+        solutionRequested: turn.solutionRequested,
+      },
+    });
+  } catch (error) {
+    console.error("Failed to record tutoring event:", error);
+  }
+}
@@ -0,0 +1,479 @@
+import { PrismaClient, VectorIndex } from "@prisma/client";
+import {
+  buildLexicalIndex,
+  LexicalIndex,
+  searchLexicalIndex,
+} from "./lexicalIndex";
+
+const prisma = new PrismaClient();
+
+// Courses with fewer vectors than this are scanned exhaustively
+const DEFAULT_MIN_VECTORS = 2000;
+// Retrain the centroids once a course has grown past this multiple of the training set
+const RETRAIN_GROWTH = 2;
+const KMEANS_ITERATIONS = 6;
+const KMEANS_SAMPLES_PER_CLUSTER = 25;
+const UPDATE_CHUNK_SIZE = 500;
+// Indexes kept in memory; the least recently searched are dropped first
+const DEFAULT_CACHE_SIZE = 20;
+
+export interface VectorMatch {
+  id: string;
+  documentId: string;
+  similarity: number;
+}
+
+export interface KeywordMatch {
+  id: string;
+  documentId: string;
+  score: number;
+}
+
+/**
+ * A course's vectors for one model, held in memory as a single normalized
+ * Float32Array, with an inverted file (IVF) of clusters once the course is
+ * big, and a BM25 keyword index over the same chunks
+ */
+interface LoadedIndex {
+  version: number;
+  dimension: number;
+  ids: string[];
+  documentIds: string[];
+  vectors: Float32Array;
+  centroids: Float32Array[];
+  lists: number[][];
+  lexical: LexicalIndex;
+}
+
+// Loaded indexes by course and model, reloaded when the stored version
+// changes, least recently searched first
+const loadedIndexes = new Map<string, LoadedIndex>();
+// Loads in progress by course, model and version, shared by concurrent searches
+const pendingLoads = new Map<string, Promise<LoadedIndex>>();
+
+/**
+ * Find the vectors in a course most similar to the query, by cosine
+ * similarity. Large courses only scan the clusters nearest the query
+ * (VECTOR_INDEX_PROBES of them), so results are approximate.
+ */
+export async function searchVectorIndex(
+  courseId: string,
+  embeddingModel: string,
+  queryVector: number[],
+  limit: number,
+  options: { documentIds?: string[] } = {},
+): Promise<VectorMatch[]> {
+  const index = await loadVectorIndex(courseId, embeddingModel);
+  if (index.ids.length === 0) return [];
+
+  if (queryVector.length !== index.dimension) {
+    console.error(
+      `Vector dimension mismatch: ${queryVector.length} vs ${index.dimension}`,
+    );
+    return [];
+  }
+
+  const query = normalize(Float32Array.from(queryVector));
+  const allowed = options.documentIds ? new Set(options.documentIds) : null;
+
+  let candidates: Iterable<number>;
+  if (index.centroids.length > 0) {
+    const probes = getProbeCount(index.centroids.length);
+    const nearest = index.centroids
+      .map((centroid, cluster) => ({ cluster, score: dot(query, centroid, 0) }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, probes);
+    candidates = nearest.flatMap(({ cluster }) => index.lists[cluster]);
+  } else {
+    candidates = index.ids.keys();
+  }
+
+  const matches: VectorMatch[] = [];
+  for (const i of candidates) {
+    if (allowed && !allowed.has(index.documentIds[i])) continue;
+    matches.push({
+      id: index.ids[i],
+      documentId: index.documentIds[i],
+      similarity: dot(query, index.vectors, i * index.dimension),
+    });
+  }
+
+  return matches.sort((a, b) => b.similarity - a.similarity).slice(0, limit);
+}
+
+/**
+ * Find the chunks in a course that best match the query's keywords, by BM25
+ */
+export async function searchKeywordIndex(
+  courseId: string,
+  embeddingModel: string,
+  query: string,
+  limit: number,
+  options: { documentIds?: string[] } = {},
+): Promise<KeywordMatch[]> {
+  const index = await loadVectorIndex(courseId, embeddingModel);
+  const allowed = options.documentIds ? new Set(options.documentIds) : null;
+
+  return searchLexicalIndex(
+    index.lexical,
+    query,
+    limit,
+    allowed ? (i) => allowed.has(index.documentIds[i]) : undefined,
+  ).map(({ position, score }) => ({
+    id: index.ids[position],
+    documentId: index.documentIds[position],
+    score,
+  }));
+}
+
+/**
+ * Record that a course's vectors changed, so every process reloads its copy
+ * of the index on the next search
+ */
+export async function markVectorIndexStale(courseId: string): Promise<void> {
+  await prisma.vectorIndex.updateMany({
+    where: { courseId },
+    data: { version: { increment: 1 } },
+  });
+}
+
+/**
+ * Mark the index stale and load it straight away, (re)training the clusters
+ * if needed, so the next search doesn't pay for it
+ */
+export async function refreshVectorIndex(
+  courseId: string,
+  embeddingModel: string,
+): Promise<void> {
+  await markVectorIndexStale(courseId);
+  await loadVectorIndex(courseId, embeddingModel);
+}
+
+/**
+ * Get the in-memory index for a course, loading it from VectorStore when it
+ * isn't cached or is out of date
+ */
+async function loadVectorIndex(
+  courseId: string,
+  embeddingModel: string,
+): Promise<LoadedIndex> {
+  const stored =
+    (await prisma.vectorIndex.findUnique({
+      where: { courseId_embeddingModel: { courseId, embeddingModel } },
+    })) ||
+    (await prisma.vectorIndex.upsert({
+      where: { courseId_embeddingModel: { courseId, embeddingModel } },
+      create: { courseId, embeddingModel },
+      update: {},
+    }));
+
+  const key = `${courseId}:${embeddingModel}`;
+  const cached = loadedIndexes.get(key);
+  if (cached && cached.version === stored.version) {
+    cacheVectorIndex(key, cached);
+    return cached;
+  }
+
+  const loadKey = `${key}:${stored.version}`;
+  let pending = pendingLoads.get(loadKey);
+  if (!pending) {
+    pending = buildVectorIndex(courseId, embeddingModel, stored)
+      .then((index) => {
+        // A slower load of an older version mustn't replace a newer one
+        if ((loadedIndexes.get(key)?.version ?? -1) <= index.version) {
+          cacheVectorIndex(key, index);
+        }
+        return index;
+      })
+      .finally(() => pendingLoads.delete(loadKey));
+    pendingLoads.set(loadKey, pending);
+  }
+  return pending;
+}
+
+/**
+ * Keep a loaded index, dropping the least recently searched ones beyond
+ * VECTOR_INDEX_CACHE_SIZE
+ */
+function cacheVectorIndex(key: string, index: LoadedIndex): void {
+  const size =
+    parseInt(process.env.VECTOR_INDEX_CACHE_SIZE || "", 10) ||
+    DEFAULT_CACHE_SIZE;
+
+  loadedIndexes.delete(key);
+  loadedIndexes.set(key, index);
+  for (const oldest of loadedIndexes.keys()) {
+    if (loadedIndexes.size <= size) break;
+    loadedIndexes.delete(oldest);
+  }
+}
+
+/**
+ * Build the in-memory index of a stored version from VectorStore, training
+ * or extending its clusters as needed
+ */
+async function buildVectorIndex(
+  courseId: string,
+  embeddingModel: string,
+  stored: VectorIndex,
+): Promise<LoadedIndex> {
+  const started = Date.now();
+  const rows = await prisma.vectorStore.findMany({
+    where: { embeddingModel, document: { courseId } },
+    select: {
+      id: true,
+      documentId: true,
+      chunk: true,
+      embedding: true,
+      clusterId: true,
+    },
+  });
+
+  // Parse each stored embedding once, skipping any that don't fit the model
+  const parsed = rows.map((row) => JSON.parse(row.embedding) as number[]);
+  const dimension = parsed[0]?.length || 0;
+  const kept = rows
+    .map((row, i) => ({ ...row, vector: parsed[i] }))
+    .filter((row) => row.vector.length === dimension);
+
+  const vectors = new Float32Array(kept.length * dimension);
+  kept.forEach((row, i) => {
+    vectors.set(row.vector, i * dimension);
+    normalize(vectors.subarray(i * dimension, (i + 1) * dimension));
+  });
+
+  const index: LoadedIndex = {
+    version: stored.version,
+    dimension,
+    ids: kept.map((row) => row.id),
+    documentIds: kept.map((row) => row.documentId),
+    vectors,
+    centroids: (JSON.parse(stored.centroids) as number[][]).map((centroid) =>
+      Float32Array.from(centroid),
+    ),
+    lists: [],
+    lexical: buildLexicalIndex(kept.map((row) => row.chunk)),
+  };
+
+  const minVectors =
+    parseInt(process.env.VECTOR_INDEX_MIN_VECTORS || "", 10) ||
+    DEFAULT_MIN_VECTORS;
+  const count = kept.length;
+
+  if (count < minVectors) {
+    index.centroids = [];
+  } else if (
+    index.centroids.length === 0 ||
+    index.centroids[0].length !== dimension ||
+    count > stored.trainedCount * RETRAIN_GROWTH
+  ) {
+    index.centroids = trainCentroids(index);
+    const assignments = kept.map((_, i) => nearestCentroid(index, i));
+    await saveClusters(stored.id, index, assignments, count);
+    index.lists = buildLists(index, assignments);
+  } else {
+    // Assign vectors added since the clusters were trained
+    const assignments = kept.map((row) => row.clusterId);
+    const unassigned: number[] = [];
+    assignments.forEach((cluster, i) => {
+      if (cluster === null || cluster >= index.centroids.length) {
+        assignments[i] = nearestCentroid(index, i);
+        unassigned.push(i);
+      }
+    });
+    if (unassigned.length > 0) {
+      await saveAssignments(index, assignments as number[], unassigned);
+    }
+    index.lists = buildLists(index, assignments as number[]);
+  }
+
+  console.log(
+    `Loaded vector index for course ${courseId} (${count} vectors, ${index.centroids.length} clusters) in ${Date.now() - started}ms`,
+  );
+  return index;
+}
+
+/**
+ * Train roughly sqrt(n) centroids with k-means on a sample of the vectors
+ */
+function trainCentroids(index: LoadedIndex): Float32Array[] {
+  const count = index.ids.length;
+  const clusters = Math.max(1, Math.round(Math.sqrt(count)));
+  const sample = shuffle([...index.ids.keys()]).slice(
+    0,
+    clusters * KMEANS_SAMPLES_PER_CLUSTER,
+  );
+
+  let centroids: Float32Array[] = sample
+    .slice(0, clusters)
+    .map((i) =>
+      index.vectors.slice(i * index.dimension, (i + 1) * index.dimension),
+    );
+
+  for (let iteration = 0; iteration < KMEANS_ITERATIONS; iteration++) {
+    const sums = centroids.map(() => new Float32Array(index.dimension));
+    const sizes = new Array<number>(centroids.length).fill(0);
+
+    for (const i of sample) {
+      const cluster = nearestCentroid({ ...index, centroids }, i);
+      const offset = i * index.dimension;
+      for (let d = 0; d < index.dimension; d++) {
+        sums[cluster][d] += index.vectors[offset + d];
+      }
+      sizes[cluster]++;
+    }
+
+    // Keep the previous centroid for clusters that lost all their members
+    centroids = sums.map((sum, cluster) =>
+      sizes[cluster] > 0 ? normalize(sum) : centroids[cluster],
+    );
+  }
+
+  return centroids;
+}
+
+/**
+ * Persist new centroids and every vector's cluster in one transaction
+ */
+async function saveClusters(
+  vectorIndexId: string,
+  index: LoadedIndex,
+  assignments: number[],
+  trainedCount: number,
+): Promise<void> {
+  // Large courses update many rows, so allow longer than the default timeout
+  await prisma.$transaction(
+    async (tx) => {
+      await tx.vectorIndex.update({
+        where: { id: vectorIndexId },
+        data: {
+          centroids: JSON.stringify(
+            index.centroids.map((centroid) => Array.from(centroid)),
+          ),
+          trainedCount,
+        },
+      });
+
+      for (const [cluster, members] of buildLists(
+        index,
+        assignments,
+      ).entries()) {
+        for (let i = 0; i < members.length; i += UPDATE_CHUNK_SIZE) {
+          await tx.vectorStore.updateMany({
+            where: {
+              id: {
+                in: members
+                  .slice(i, i + UPDATE_CHUNK_SIZE)
+                  .map((member) => index.ids[member]),
+              },
+            },
+            data: { clusterId: cluster },
+          });
+        }
+      }
+    },
+    { timeout: 60000 },
+  );
+}
+
+/**
+ * Persist the clusters of newly assigned vectors
+ */
+async function saveAssignments(
+  index: LoadedIndex,
+  assignments: number[],
+  changed: number[],
+): Promise<void> {
+  const byCluster = new Map<number, string[]>();
+  for (const i of changed) {
+    const ids = byCluster.get(assignments[i]) || [];
+    ids.push(index.ids[i]);
+    byCluster.set(assignments[i], ids);
+  }
+
+  await prisma.$transaction(
+    [...byCluster.entries()].map(([cluster, ids]) =>
+      prisma.vectorStore.updateMany({
+        where: { id: { in: ids } },
+        data: { clusterId: cluster },
+      }),
+    ),
+  );
+}
+
+/**
+ * Group vector positions by cluster
+ */
+function buildLists(index: LoadedIndex, assignments: number[]): number[][] {
+  const lists = index.centroids.map((): number[] => []);
+  assignments.forEach((cluster, i) => lists[cluster].push(i));
+  return lists;
+}
+
+/**
+ * Get how many clusters to scan per query
+ */
+function getProbeCount(clusters: number): number {
+  const probes = parseInt(process.env.VECTOR_INDEX_PROBES || "", 10);
+  if (probes > 0) return Math.min(probes, clusters);
+  // Scan about a tenth of the course by default
+  return Math.min(clusters, Math.max(4, Math.ceil(clusters / 10)));
+}
+
+/**
+ * Index of the centroid closest to the i-th vector
+ */
+function nearestCentroid(
+  index: Pick<LoadedIndex, "vectors" | "dimension" | "centroids">,
+  i: number,
+): number {
+  let best = 0;
+  let bestScore = -Infinity;
+  index.centroids.forEach((centroid, cluster) => {
+    const score = dot(centroid, index.vectors, i * index.dimension);
+    if (score > bestScore) {
+      best = cluster;
+      bestScore = score;
+    }
+  });
+  return best;
+}
+
+/**
+ * Dot product of `a` with the vector starting at `offset` in `b`
+ */
+function dot(a: Float32Array, b: Float32Array, offset: number): number {
+  let sum = 0;
+  for (let d = 0; d < a.length; d++) {
+    sum += a[d] * b[offset + d];
+  }
+  return sum;
+}
+
+/**
+ * Scale a vector to unit length in place, so dot products are cosine similarities
+ */
+function normalize(vector: Float32Array): Float32Array {
+  let magnitude = 0;
+  for (let d = 0; d < vector.length; d++) {
+    magnitude += vector[d] * vector[d];
+  }
+  magnitude = Math.sqrt(magnitude);
+  if (magnitude > 0) {
+    for (let d = 0; d < vector.length; d++) {
+      vector[d] /= magnitude;
+    }
+  }
+  return vector;
+}
+
+/**
+ * Fisher-Yates shuffle in place
+ */
+function shuffle<T>(items: T[]): T[] {
+  for (let i = items.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [items[i], items[j]] = [items[j], items[i]];
+  }
+  return items;
+}
@@ -1,4 +1,5 @@
 import { PrismaClient } from "@prisma/client";
+import { FileDocumentType } from "@/lib/documentTypes";
 
 type Course = Awaited<ReturnType<PrismaClient["course"]["findUnique"]>>;
 type Chat = Awaited<ReturnType<PrismaClient["chat"]["findUnique"]>>;
@@ -28,25 +29,40 @@ export interface DocumentWithChunks extends Document {
 
 export interface ChatMessage {
   id?: string;
+  parentId?: string | null; // Message this one follows; edits and regenerations share a parent
   role: "user" | "assistant";
   content: string;
   citations?: Citation[];
+  searchQueries?: string[] | null; // What retrieval searched for to answer
+  groundedness?: number | null; // Share of the answer backed by course materials, 0-1
+  unsupportedRanges?: [number, number][] | null; // Sentences not backed by them
   createdAt?: string;
 }
 
 export interface Citation {
   documentId: string;
   sourceText: string;
+  chunkId?: string | null;
+  pageStart?: number | null;
+  pageEnd?: number | null;
+  cellStart?: number | null;
+  cellEnd?: number | null;
+  timeStart?: number | null;
+  timeEnd?: number | null;
+  sectionHeading?: string | null;
+  marker?: number | null; // [n] used for this source in the answer
+  position?: number | null; // Character offset of the marker's first use in the answer
 }
 
 export interface AIChatOptions {
   enableWebSearch: boolean;
   enableCitations: boolean;
+  lexicalWeight?: number | null; // Share of retrieval given to keyword matches (0-1); overrides the course setting
 }
 
 export interface DocumentModel {
   id: string;
-  type: "text" | "url" | "pdf";
+  type: "text" | "url" | FileDocumentType;
   title: string;
   content?: string | null;
   url?: string | null;
@@ -54,5 +70,48 @@ export interface DocumentModel {
   courseId: string;
   fileName?: string | null;
   fileSize?: number | null;
+  includeOutputs?: boolean; // Notebooks: index cell outputs along with the cells
   _buffer?: Buffer; // Optional buffer field for direct processing
 }
+
+export interface ExtractedPage {
+  pageNumber: number;
+  text: string;
+  confidence?: number; // OCR confidence, 0-1; only set for pages read by OCR
+}
+
+export interface ExtractedCell {
+  cellNumber: number; // Position in the notebook, from 1
+  text: string;
+}
+
+export interface TranscriptCue {
+  start: number; // Seconds from the start of the recording
+  end: number;
+  text: string;
+}
+
+export interface ExtractedText {
+  text: string;
+  pages?: ExtractedPage[]; // Only set for paginated sources: PDF pages, slides, sheets
+  cells?: ExtractedCell[]; // Only set for notebooks
+  cues?: TranscriptCue[]; // Only set for transcripts; the text has one cue per line
+  structured?: boolean; // Markdown headings, code and math to chunk by section
+}
+
+export interface ChunkMetadata {
+  chunkIndex: number;
+  charStart: number;
+  charEnd: number;
+  pageStart: number | null;
+  pageEnd: number | null;
+  cellStart: number | null; // First and last notebook cell the chunk spans
+  cellEnd: number | null;
+  timeStart: number | null; // Seconds into the recording (transcripts only)
+  timeEnd: number | null;
+  sectionHeading: string | null;
+}
+
+export interface DocumentChunk extends ChunkMetadata {
+  text: string;
+}